@@ -6,6 +6,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Layout from "@/components/Layout";
+import { TermProvider } from "@/hooks/useTermData";
+import { SandboxProvider } from "@/hooks/useSandboxData";
 
 function Router() {
   return (
@@ -20,10 +22,14 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <Layout>
-          <Toaster />
-          <Router />
-        </Layout>
+        <TermProvider>
+          <SandboxProvider>
+            <Layout>
+              <Toaster />
+              <Router />
+            </Layout>
+          </SandboxProvider>
+        </TermProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
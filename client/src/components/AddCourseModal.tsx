@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { MultiSelect } from "@/components/ui/multi-select";
 import { 
   Select, 
   SelectContent, 
@@ -18,6 +19,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Course, Program, Teacher } from "@shared/schema";
+import { getRequisiteWarning } from "@shared/curriculum";
+import { getProgramSemesters, isActiveProgram } from "@shared/programs";
 
 interface AddCourseModalProps {
   isOpen: boolean;
@@ -29,12 +32,16 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
   const [name, setName] = useState(courseToEdit?.name || "");
   const [code, setCode] = useState(courseToEdit?.code || "");
   const [credits, setCredits] = useState(courseToEdit?.credits || 3);
+  const [weeklyPeriods, setWeeklyPeriods] = useState<number | null>(courseToEdit?.weeklyPeriods ?? null);
   const [description, setDescription] = useState(courseToEdit?.description || "");
   const [color, setColor] = useState(courseToEdit?.color || "blue");
   const [isCore, setIsCore] = useState(courseToEdit?.isCore ?? true);
+  const [electiveGroup, setElectiveGroup] = useState(courseToEdit?.electiveGroup || "");
   const [programId, setProgramId] = useState<number | undefined>(courseToEdit?.programId);
   const [semester, setSemester] = useState(courseToEdit?.semester || 1);
   const [teacherId, setTeacherId] = useState<number | undefined>(courseToEdit?.teacherId);
+  const [prerequisiteIds, setPrerequisiteIds] = useState<number[]>(courseToEdit?.prerequisiteIds ?? []);
+  const [corequisiteIds, setCorequisiteIds] = useState<number[]>(courseToEdit?.corequisiteIds ?? []);
 
   const { toast } = useToast();
 
@@ -46,12 +53,38 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
     queryKey: ['/api/teachers'],
   });
 
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+
+  const requisiteOptions = courses
+    .filter(course => course.id !== courseToEdit?.id)
+    .map(course => ({ value: course.id.toString(), label: `${course.code} - ${course.name}` }));
+
+  // Requisites that do not fit the chosen semester; saving is still allowed
+  const requisiteWarnings = ([
+    ...prerequisiteIds.map(id => [id, 'prerequisite'] as const),
+    ...corequisiteIds.map(id => [id, 'corequisite'] as const)
+  ]).flatMap(([id, type]) => {
+    const requisite = courses.find(course => course.id === id);
+    const warning = requisite && getRequisiteWarning(
+      { id: courseToEdit?.id ?? 0, code: code.trim() || 'This course', semester, prerequisiteIds, corequisiteIds },
+      requisite,
+      type
+    );
+    return warning ? [warning] : [];
+  });
+
+  // Archived programs are only listed for the courses already in them
+  const programOptions = programs.filter(program => isActiveProgram(program) || program.id === programId);
+  const selectedProgram = programs.find(program => program.id === programId);
+
   useEffect(() => {
     // Set default program if not set and programs are loaded
-    if (programs.length > 0 && !programId) {
-      setProgramId(programs[0].id);
+    if (programOptions.length > 0 && !programId) {
+      setProgramId(programOptions[0].id);
     }
-  }, [programs, programId]);
+  }, [programOptions, programId]);
 
   const addCourseMutation = useMutation({
     mutationFn: async (course: Omit<Course, 'id'>) => {
@@ -101,12 +134,16 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
       name: name.trim(),
       code: code.trim(),
       credits,
+      weeklyPeriods,
       description: description.trim() || undefined,
       color,
       isCore,
+      electiveGroup: isCore ? null : (electiveGroup.trim() || null),
       programId,
       semester,
       teacherId: teacherId || null,
+      prerequisiteIds,
+      corequisiteIds,
     };
 
     addCourseMutation.mutate(course as any);
@@ -117,22 +154,30 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
       setName("");
       setCode("");
       setCredits(3);
+      setWeeklyPeriods(null);
       setDescription("");
       setColor("blue");
       setIsCore(true);
-      setProgramId(programs.length > 0 ? programs[0].id : undefined);
+      setElectiveGroup("");
+      setProgramId(programOptions.length > 0 ? programOptions[0].id : undefined);
       setSemester(1);
       setTeacherId(undefined);
+      setPrerequisiteIds([]);
+      setCorequisiteIds([]);
     } else {
       setName(courseToEdit.name);
       setCode(courseToEdit.code);
       setCredits(courseToEdit.credits);
+      setWeeklyPeriods(courseToEdit.weeklyPeriods ?? null);
       setDescription(courseToEdit.description || "");
       setColor(courseToEdit.color);
       setIsCore(courseToEdit.isCore);
+      setElectiveGroup(courseToEdit.electiveGroup || "");
       setProgramId(courseToEdit.programId);
       setSemester(courseToEdit.semester);
       setTeacherId(courseToEdit.teacherId);
+      setPrerequisiteIds(courseToEdit.prerequisiteIds);
+      setCorequisiteIds(courseToEdit.corequisiteIds);
     }
   };
 
@@ -200,6 +245,25 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
                 ))}
               </select>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="weeklyPeriods" className="font-medium">
+                Weekly Periods
+              </Label>
+              <select
+                id="weeklyPeriods"
+                className="w-full p-2 border border-neutral-light rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                value={weeklyPeriods ?? ''}
+                onChange={(e) => setWeeklyPeriods(e.target.value ? Number(e.target.value) : null)}
+              >
+                <option value="">From credits ({credits})</option>
+                {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((value) => (
+                  <option key={value} value={value}>
+                    {value} {value === 1 ? 'Period' : 'Periods'}
+                  </option>
+                ))}
+              </select>
+            </div>
             
             <div className="space-y-2">
               <Label className="font-medium flex items-center justify-between">
@@ -213,6 +277,23 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
                 {isCore ? 'This is a mandatory course.' : 'This is an elective course.'}
               </p>
             </div>
+
+            {!isCore && (
+              <div className="space-y-2">
+                <Label htmlFor="electiveGroup" className="font-medium">
+                  Elective Group
+                </Label>
+                <Input
+                  id="electiveGroup"
+                  placeholder="e.g., Elective I"
+                  value={electiveGroup}
+                  onChange={(e) => setElectiveGroup(e.target.value)}
+                />
+                <p className="text-xs text-neutral-dark">
+                  Options of the same group run in parallel.
+                </p>
+              </div>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -273,7 +354,7 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
                   <SelectValue placeholder="Select a program" />
                 </SelectTrigger>
                 <SelectContent>
-                  {programs.map((program) => (
+                  {programOptions.map((program) => (
                     <SelectItem key={program.id} value={program.id.toString()}>
                       {program.code}
                     </SelectItem>
@@ -294,7 +375,7 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
                   <SelectValue placeholder="Select a semester" />
                 </SelectTrigger>
                 <SelectContent>
-                  {[1, 2, 3, 4, 5, 6, 7, 8].map((value) => (
+                  {(selectedProgram ? getProgramSemesters(selectedProgram) : []).map((value) => (
                     <SelectItem key={value} value={value.toString()}>
                       Semester {value}
                     </SelectItem>
@@ -326,6 +407,33 @@ export default function AddCourseModal({ isOpen, onClose, courseToEdit }: AddCou
             </Select>
           </div>
           
+          <div className="space-y-2">
+            <Label className="font-medium">
+              Prerequisites
+            </Label>
+            <MultiSelect
+              options={requisiteOptions}
+              selected={prerequisiteIds.map(String)}
+              onChange={(values) => setPrerequisiteIds(values.map(Number))}
+              placeholder="Courses to complete first"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-medium">
+              Corequisites
+            </Label>
+            <MultiSelect
+              options={requisiteOptions}
+              selected={corequisiteIds.map(String)}
+              onChange={(values) => setCorequisiteIds(values.map(Number))}
+              placeholder="Courses taken alongside this one"
+            />
+            {requisiteWarnings.map((warning) => (
+              <p key={warning} className="text-xs text-warning">{warning}</p>
+            ))}
+          </div>
+          
           <DialogFooter>
             <Button
               type="button"
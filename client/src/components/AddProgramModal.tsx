@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { InsertProgram, Program } from "@shared/schema";
+
+interface AddProgramModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  programToEdit?: Program;
+}
+
+export default function AddProgramModal({ isOpen, onClose, programToEdit }: AddProgramModalProps) {
+  const [name, setName] = useState(programToEdit?.name || "");
+  const [code, setCode] = useState(programToEdit?.code || "");
+  const [description, setDescription] = useState(programToEdit?.description || "");
+  const [totalSemesters, setTotalSemesters] = useState(programToEdit?.totalSemesters ?? 8);
+
+  const { toast } = useToast();
+
+  // Load the selected program whenever the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setName(programToEdit?.name || "");
+      setCode(programToEdit?.code || "");
+      setDescription(programToEdit?.description || "");
+      setTotalSemesters(programToEdit?.totalSemesters ?? 8);
+    }
+  }, [isOpen, programToEdit]);
+
+  const addProgramMutation = useMutation({
+    mutationFn: async (program: InsertProgram) => {
+      if (programToEdit) {
+        const response = await apiRequest("PUT", `/api/programs/${programToEdit.code}`, program);
+        return await response.json();
+      } else {
+        const response = await apiRequest("POST", "/api/programs", program);
+        return await response.json();
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] });
+      toast({
+        title: programToEdit ? "Program updated" : "Program added",
+        description: programToEdit
+          ? "The program has been updated successfully."
+          : "A new program has been added successfully.",
+        variant: "default",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      toast({
+        title: "Error",
+        description: status === "409"
+          ? "Another program has that code, or a semester being dropped still has courses or classes."
+          : `Failed to ${programToEdit ? "update" : "add"} program. Please try again.`,
+        variant: "destructive",
+      });
+      console.error(`Error ${programToEdit ? "updating" : "adding"} program:`, error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !code.trim()) {
+      toast({
+        title: "Required fields",
+        description: "Please fill in all required fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    addProgramMutation.mutate({
+      name: name.trim(),
+      code: code.trim(),
+      description: description.trim() || null,
+      totalSemesters,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle className="font-display font-semibold text-lg text-neutral-darkest">
+            {programToEdit ? "Edit Program" : "Add New Program"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="programName" className="font-medium">
+              Program Name <span className="text-error">*</span>
+            </Label>
+            <Input
+              id="programName"
+              placeholder="Enter program name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="programCode" className="font-medium">
+                Program Code <span className="text-error">*</span>
+              </Label>
+              <Input
+                id="programCode"
+                placeholder="e.g., BCA"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="totalSemesters" className="font-medium">
+                Semesters <span className="text-error">*</span>
+              </Label>
+              <select
+                id="totalSemesters"
+                className="w-full p-2 border border-neutral-light rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                value={totalSemesters}
+                onChange={(e) => setTotalSemesters(Number(e.target.value))}
+                required
+              >
+                {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map((value) => (
+                  <option key={value} value={value}>
+                    {value} {value === 1 ? 'Semester' : 'Semesters'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="programDescription" className="font-medium">
+              Description
+            </Label>
+            <Textarea
+              id="programDescription"
+              placeholder="Enter program description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={addProgramMutation.isPending}>
+              {addProgramMutation.isPending
+                ? "Saving..."
+                : programToEdit
+                ? "Update Program"
+                : "Add Program"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
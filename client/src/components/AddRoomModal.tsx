@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { 
+  Select, 
+  SelectContent, 
+  SelectItem, 
+  SelectTrigger, 
+  SelectValue 
+} from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Room, RoomType, ROOM_TYPES } from "@shared/schema";
+
+interface AddRoomModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  roomToEdit?: Room;
+}
+
+export default function AddRoomModal({ isOpen, onClose, roomToEdit }: AddRoomModalProps) {
+  const [name, setName] = useState(roomToEdit?.name || "");
+  const [building, setBuilding] = useState(roomToEdit?.building || "");
+  const [capacity, setCapacity] = useState<string>(roomToEdit?.capacity?.toString() || "");
+  const [type, setType] = useState<RoomType>(roomToEdit?.type || "lecture");
+
+  const { toast } = useToast();
+
+  // Load the selected room whenever the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setName(roomToEdit?.name || "");
+      setBuilding(roomToEdit?.building || "");
+      setCapacity(roomToEdit?.capacity?.toString() || "");
+      setType(roomToEdit?.type || "lecture");
+    }
+  }, [isOpen, roomToEdit]);
+
+  const addRoomMutation = useMutation({
+    mutationFn: async (room: Omit<Room, 'id'>) => {
+      if (roomToEdit) {
+        const response = await apiRequest("PUT", `/api/rooms/${roomToEdit.id}`, room);
+        return await response.json();
+      } else {
+        const response = await apiRequest("POST", "/api/rooms", room);
+        return await response.json();
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+      toast({
+        title: roomToEdit ? "Room updated" : "Room added",
+        description: roomToEdit
+          ? "The room has been updated successfully."
+          : "A new room has been added successfully.",
+        variant: "default",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${roomToEdit ? "update" : "add"} room. Please try again.`,
+        variant: "destructive",
+      });
+      console.error(`Error ${roomToEdit ? "updating" : "adding"} room:`, error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!name.trim()) {
+      toast({
+        title: "Required field",
+        description: "Room name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    addRoomMutation.mutate({
+      name: name.trim(),
+      building: building.trim() || null,
+      capacity: capacity ? Number(capacity) : null,
+      type,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle className="font-display font-semibold text-lg text-neutral-darkest">
+            {roomToEdit ? "Edit Room" : "Add New Room"}
+          </DialogTitle>
+        </DialogHeader>
+        
+        <form onSubmit={handleSubmit} className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="roomName" className="font-medium">
+              Room Name <span className="text-error">*</span>
+            </Label>
+            <Input
+              id="roomName"
+              placeholder="Enter room name (e.g., Lab 2)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="building" className="font-medium">
+              Building
+            </Label>
+            <Input
+              id="building"
+              placeholder="Enter building (e.g., Block A)"
+              value={building}
+              onChange={(e) => setBuilding(e.target.value)}
+            />
+          </div>
+          
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="capacity" className="font-medium">
+                Capacity
+              </Label>
+              <Input
+                id="capacity"
+                type="number"
+                min={1}
+                placeholder="Seats"
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="roomType" className="font-medium">
+                Type <span className="text-error">*</span>
+              </Label>
+              <Select value={type} onValueChange={(value) => setType(value as RoomType)}>
+                <SelectTrigger id="roomType">
+                  <SelectValue placeholder="Select a room type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROOM_TYPES.map((roomType) => (
+                    <SelectItem key={roomType.value} value={roomType.value}>
+                      {roomType.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={addRoomMutation.isPending}>
+              {addRoomMutation.isPending
+                ? "Saving..."
+                : roomToEdit
+                ? "Update Room"
+                : "Add Room"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,6 @@ import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
 import { 
   Select, 
   SelectContent, 
@@ -10,14 +9,26 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
+import { MultiSelect } from "@/components/ui/multi-select";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Course, Program, Teacher, Schedule, DAYS_OF_WEEK, TIME_SLOTS } from "@shared/schema";
+import { Course, Program, Teacher, Schedule, SharedCohort, DAYS_OF_WEEK } from "@shared/schema";
+import { formatTimeSlotLabel, isWithinTimePreferences } from "@shared/timeSlots";
+import { getBlockSlots, getBreakForSlot, getCoveredSlots } from "@shared/calendar";
+import { getProgramSemesters, isActiveProgram } from "@shared/programs";
 import { useTeacherData } from "@/hooks/useTeacherData";
 import { useCourseData } from "@/hooks/useCourseData";
 import { useConflictDetection } from "@/hooks/useConflictDetection";
+import { useRoomData } from "@/hooks/useRoomData";
+import { useScheduleData } from "@/hooks/useScheduleData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useCalendar } from "@/hooks/useCalendar";
+import { useSectionData } from "@/hooks/useSectionData";
+import { useTermData } from "@/hooks/useTermData";
+import { useSandboxData } from "@/hooks/useSandboxData";
+import ScheduleHistory from "@/components/ScheduleHistory";
 
 interface AddScheduleModalProps {
   isOpen: boolean;
@@ -27,6 +38,7 @@ interface AddScheduleModalProps {
   scheduleToEdit?: Schedule;
   programId?: number;
   semester?: number;
+  sectionId?: number | null;
 }
 
 export default function AddScheduleModal({ 
@@ -36,7 +48,8 @@ export default function AddScheduleModal({
   defaultTimeSlot, 
   scheduleToEdit,
   programId,
-  semester
+  semester,
+  sectionId
 }: AddScheduleModalProps) {
   const [selectedProgramId, setSelectedProgramId] = useState<number | undefined>(
     scheduleToEdit?.programId || programId
@@ -44,6 +57,9 @@ export default function AddScheduleModal({
   const [selectedSemester, setSelectedSemester] = useState<number>(
     scheduleToEdit?.semester || semester || 1
   );
+  const [selectedSectionId, setSelectedSectionId] = useState<number | null>(
+    scheduleToEdit ? scheduleToEdit.sectionId : sectionId ?? null
+  );
   const [selectedDay, setSelectedDay] = useState<number>(
     scheduleToEdit?.dayOfWeek || defaultDay || 0
   );
@@ -56,8 +72,14 @@ export default function AddScheduleModal({
   const [selectedTeacherId, setSelectedTeacherId] = useState<number | undefined>(
     scheduleToEdit?.teacherId
   );
-  const [roomNumber, setRoomNumber] = useState<string>(
-    scheduleToEdit?.roomNumber || ""
+  const [selectedRoomId, setSelectedRoomId] = useState<number | undefined>(
+    scheduleToEdit?.roomId ?? undefined
+  );
+  const [selectedDuration, setSelectedDuration] = useState<number>(
+    scheduleToEdit?.duration || 1
+  );
+  const [selectedSharedWith, setSelectedSharedWith] = useState<SharedCohort[]>(
+    scheduleToEdit?.sharedWith ?? []
   );
   const [showConflictWarning, setShowConflictWarning] = useState<boolean>(false);
 
@@ -65,11 +87,31 @@ export default function AddScheduleModal({
   const { teachers } = useTeacherData();
   const { courses, getCourseById } = useCourseData();
   const { hasTeacherTimeConflict } = useConflictDetection();
+  const { rooms } = useRoomData();
+  const { schedules } = useScheduleData();
+  const { timeSlots, teachingSlots } = useTimeSlots();
+  const { calendar, teachingDays } = useCalendar();
+  const { getSectionsFor } = useSectionData();
+  const { currentTermId } = useTermData();
+  const { activeSandbox, invalidateSandbox } = useSandboxData();
+  const sections = getSectionsFor(selectedProgramId, selectedSemester);
 
   const { data: programs = [] } = useQuery<Program[]>({
     queryKey: ['/api/programs'],
   });
 
+  // Archived programs are only listed where a class already uses them
+  const programOptions = programs.filter(program => isActiveProgram(program) || program.id === selectedProgramId);
+  const selectedProgram = programs.find(program => program.id === selectedProgramId);
+
+  // Every other program semester can be combined into the class
+  const intakeOptions = programs
+    .filter(program => isActiveProgram(program) || selectedSharedWith.some(cohort => cohort.programId === program.id))
+    .flatMap(program => getProgramSemesters(program)
+      .filter(sem => program.id !== selectedProgramId || sem !== selectedSemester)
+      .map(sem => ({ value: `${program.id}-${sem}`, label: `${program.code} Semester ${sem}` }))
+  );
+
   // Filter courses based on selected program and semester
   const filteredCourses = courses.filter(
     course => course.programId === selectedProgramId && course.semester === selectedSemester
@@ -103,19 +145,36 @@ export default function AddScheduleModal({
     }
   }, [selectedTeacherId, selectedDay, selectedTimeSlot, hasTeacherTimeConflict, teachers, scheduleToEdit?.id]);
 
+  // A room is busy when another class is already booked into it during any
+  // period this class covers
+  const selectedBlock = getBlockSlots(calendar, selectedDay, selectedTimeSlot, selectedDuration, timeSlots);
+  const isRoomBusy = !!selectedRoomId && schedules.some(schedule =>
+    schedule.roomId === selectedRoomId &&
+    schedule.dayOfWeek === selectedDay &&
+    schedule.id !== scheduleToEdit?.id &&
+    getCoveredSlots(schedule, calendar, timeSlots).some(slot => selectedBlock.includes(slot))
+  );
+
+  // Classes of an open sandbox are saved to the sandbox, not the live timetable
+  const schedulesPath = activeSandbox ? `/api/sandboxes/${activeSandbox.id}/schedules` : "/api/schedules";
+
   const addScheduleMutation = useMutation({
     mutationFn: async (scheduleData: any) => {
       if (scheduleToEdit) {
-        const response = await apiRequest("PUT", `/api/schedules/${scheduleToEdit.id}`, scheduleData);
+        const response = await apiRequest("PUT", `${schedulesPath}/${scheduleToEdit.id}`, scheduleData);
         return await response.json();
       } else {
-        const response = await apiRequest("POST", "/api/schedules", scheduleData);
+        const response = await apiRequest("POST", schedulesPath, scheduleData);
         return await response.json();
       }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      if (activeSandbox) {
+        invalidateSandbox(activeSandbox.id);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      }
       toast({
         title: scheduleToEdit ? "Schedule updated" : "Schedule added",
         description: scheduleToEdit
@@ -139,7 +198,7 @@ export default function AddScheduleModal({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedProgramId || !selectedCourseId || !selectedTeacherId) {
+    if (!currentTermId || !selectedProgramId || !selectedCourseId || !selectedTeacherId) {
       toast({
         title: "Required fields",
         description: "Please fill in all required fields.",
@@ -149,13 +208,20 @@ export default function AddScheduleModal({
     }
 
     const scheduleData = {
+      // A class stays in its term when edited
+      termId: scheduleToEdit?.termId ?? currentTermId,
       programId: selectedProgramId,
       semester: selectedSemester,
+      sectionId: selectedSectionId,
       dayOfWeek: selectedDay,
       timeSlot: selectedTimeSlot,
+      duration: selectedDuration,
       courseId: selectedCourseId,
       teacherId: selectedTeacherId,
-      roomNumber: roomNumber.trim() || undefined,
+      roomId: selectedRoomId ?? null,
+      // Picking a room replaces any legacy free-text room on the class
+      roomNumber: selectedRoomId ? null : scheduleToEdit?.roomNumber ?? null,
+      sharedWith: selectedSharedWith,
     };
 
     addScheduleMutation.mutate(scheduleData);
@@ -165,19 +231,25 @@ export default function AddScheduleModal({
     if (!scheduleToEdit) {
       setSelectedProgramId(programId);
       setSelectedSemester(semester || 1);
+      setSelectedSectionId(sectionId ?? null);
       setSelectedDay(defaultDay || 0);
       setSelectedTimeSlot(defaultTimeSlot || 0);
       setSelectedCourseId(undefined);
       setSelectedTeacherId(undefined);
-      setRoomNumber("");
+      setSelectedRoomId(undefined);
+      setSelectedDuration(1);
+      setSelectedSharedWith([]);
     } else {
       setSelectedProgramId(scheduleToEdit.programId);
       setSelectedSemester(scheduleToEdit.semester);
+      setSelectedSectionId(scheduleToEdit.sectionId);
       setSelectedDay(scheduleToEdit.dayOfWeek);
       setSelectedTimeSlot(scheduleToEdit.timeSlot);
       setSelectedCourseId(scheduleToEdit.courseId);
       setSelectedTeacherId(scheduleToEdit.teacherId);
-      setRoomNumber(scheduleToEdit.roomNumber || "");
+      setSelectedRoomId(scheduleToEdit.roomId ?? undefined);
+      setSelectedDuration(scheduleToEdit.duration);
+      setSelectedSharedWith(scheduleToEdit.sharedWith ?? []);
     }
     setShowConflictWarning(false);
   };
@@ -192,11 +264,7 @@ export default function AddScheduleModal({
       return false;
     }
     
-    return teacher.timePreferences.some(pref => 
-      pref.dayOfWeek === selectedDay && 
-      selectedTimeSlot >= pref.startTimeSlot && 
-      selectedTimeSlot <= pref.endTimeSlot
-    );
+    return isWithinTimePreferences(teacher.timePreferences, selectedDay, selectedTimeSlot, timeSlots);
   };
 
   const hasTeacherPreference = getTeacherPreferenceMatch();
@@ -220,6 +288,7 @@ export default function AddScheduleModal({
                 value={selectedProgramId?.toString()} 
                 onValueChange={(value) => {
                   setSelectedProgramId(Number(value));
+                  setSelectedSectionId(null);
                   setSelectedCourseId(undefined); // Reset course when program changes
                 }}
                 disabled={!!scheduleToEdit} // Disable if editing existing schedule
@@ -228,7 +297,7 @@ export default function AddScheduleModal({
                   <SelectValue placeholder="Select a program" />
                 </SelectTrigger>
                 <SelectContent>
-                  {programs.map((program) => (
+                  {programOptions.map((program) => (
                     <SelectItem key={program.id} value={program.id.toString()}>
                       {program.code}
                     </SelectItem>
@@ -245,6 +314,7 @@ export default function AddScheduleModal({
                 value={selectedSemester?.toString()} 
                 onValueChange={(value) => {
                   setSelectedSemester(Number(value));
+                  setSelectedSectionId(null);
                   setSelectedCourseId(undefined); // Reset course when semester changes
                 }}
                 disabled={!!scheduleToEdit} // Disable if editing existing schedule
@@ -253,7 +323,7 @@ export default function AddScheduleModal({
                   <SelectValue placeholder="Select a semester" />
                 </SelectTrigger>
                 <SelectContent>
-                  {[1, 2, 3, 4, 5, 6, 7, 8].map((sem) => (
+                  {(selectedProgram ? getProgramSemesters(selectedProgram) : []).map((sem) => (
                     <SelectItem key={sem} value={sem.toString()}>
                       Semester {sem}
                     </SelectItem>
@@ -263,6 +333,48 @@ export default function AddScheduleModal({
             </div>
           </div>
           
+          {sections.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="section" className="font-medium">
+                Section
+              </Label>
+              <Select 
+                value={selectedSectionId?.toString() ?? 'all'} 
+                onValueChange={(value) => setSelectedSectionId(value === 'all' ? null : Number(value))}
+              >
+                <SelectTrigger id="section">
+                  <SelectValue placeholder="Select a section" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sections (whole semester)</SelectItem>
+                  {sections.map((section) => (
+                    <SelectItem key={section.id} value={section.id.toString()}>
+                      Section {section.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          
+          <div className="space-y-2">
+            <Label className="font-medium">
+              Combined with
+            </Label>
+            <MultiSelect
+              options={intakeOptions}
+              selected={selectedSharedWith.map(cohort => `${cohort.programId}-${cohort.semester}`)}
+              onChange={(values) => setSelectedSharedWith(values.map(value => {
+                const [programId, sem] = value.split('-').map(Number);
+                return { programId, semester: sem };
+              }))}
+              placeholder="Other program semesters taking this class together"
+            />
+            <p className="text-xs text-neutral-dark">
+              The class is taught once and appears in each of these timetables.
+            </p>
+          </div>
+          
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="day" className="font-medium">
@@ -276,9 +388,9 @@ export default function AddScheduleModal({
                   <SelectValue placeholder="Select a day" />
                 </SelectTrigger>
                 <SelectContent>
-                  {DAYS_OF_WEEK.map((day, index) => (
-                    <SelectItem key={index} value={index.toString()}>
-                      {day}
+                  {teachingDays.map((dayIndex) => (
+                    <SelectItem key={dayIndex} value={dayIndex.toString()}>
+                      {DAYS_OF_WEEK[dayIndex]}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -297,16 +409,42 @@ export default function AddScheduleModal({
                   <SelectValue placeholder="Select a time slot" />
                 </SelectTrigger>
                 <SelectContent>
-                  {TIME_SLOTS.map((slot) => (
-                    <SelectItem key={slot.id} value={slot.id.toString()}>
-                      {slot.label} (Period {slot.period})
-                    </SelectItem>
-                  ))}
+                  {teachingSlots.map((slot) => {
+                    const dayBreak = getBreakForSlot(calendar, selectedDay, slot);
+                    const fits = getBlockSlots(calendar, selectedDay, slot.id, selectedDuration, timeSlots).length === selectedDuration;
+                    
+                    return (
+                      <SelectItem key={slot.id} value={slot.id.toString()} disabled={!!dayBreak || !fits}>
+                        {formatTimeSlotLabel(slot)} {dayBreak ? `(${dayBreak.label})` : !fits ? '(runs into a break)' : `(Period ${slot.period})`}
+                      </SelectItem>
+                    );
+                  })}
                 </SelectContent>
               </Select>
             </div>
           </div>
           
+          <div className="space-y-2">
+            <Label htmlFor="duration" className="font-medium">
+              Length <span className="text-error">*</span>
+            </Label>
+            <Select 
+              value={selectedDuration.toString()} 
+              onValueChange={(value) => setSelectedDuration(Number(value))}
+            >
+              <SelectTrigger id="duration">
+                <SelectValue placeholder="Select a length" />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3].map((periods) => (
+                  <SelectItem key={periods} value={periods.toString()}>
+                    {periods === 1 ? '1 period' : `${periods} consecutive periods`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
           <div className="space-y-2">
             <Label htmlFor="course" className="font-medium">
               Course <span className="text-error">*</span>
@@ -375,16 +513,45 @@ export default function AddScheduleModal({
           
           <div className="space-y-2">
             <Label htmlFor="room" className="font-medium">
-              Room Number
+              Room
             </Label>
-            <Input
-              id="room"
-              placeholder="Enter room number (e.g., Lab 101)"
-              value={roomNumber}
-              onChange={(e) => setRoomNumber(e.target.value)}
-            />
+            <Select 
+              value={selectedRoomId?.toString() || 'none'} 
+              onValueChange={(value) => setSelectedRoomId(value !== 'none' ? Number(value) : undefined)}
+            >
+              <SelectTrigger id="room">
+                <SelectValue placeholder="Select a room (optional)" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No room</SelectItem>
+                {rooms.map((room) => (
+                  <SelectItem key={room.id} value={room.id.toString()}>
+                    {room.name} {room.building ? `- ${room.building}` : ''} {room.capacity ? `(${room.capacity} seats)` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            {!selectedRoomId && scheduleToEdit?.roomNumber && (
+              <p className="text-xs text-neutral-dark">
+                Currently recorded as "{scheduleToEdit.roomNumber}". Pick a room to replace it.
+              </p>
+            )}
+            
+            {isRoomBusy && (
+              <p className="text-xs text-error">
+                ⚠️ Warning: This room is already booked at this time.
+              </p>
+            )}
           </div>
           
+          {scheduleToEdit && !activeSandbox && (
+            <div className="space-y-2">
+              <Label className="font-medium">History</Label>
+              <ScheduleHistory scheduleId={scheduleToEdit.id} />
+            </div>
+          )}
+          
           <DialogFooter>
             <Button
               type="button"
@@ -399,11 +566,11 @@ export default function AddScheduleModal({
             <Button 
               type="submit" 
               disabled={addScheduleMutation.isPending}
-              variant={showConflictWarning ? "destructive" : "default"}
+              variant={showConflictWarning || isRoomBusy ? "destructive" : "default"}
             >
               {addScheduleMutation.isPending
                 ? "Saving..."
-                : showConflictWarning
+                : showConflictWarning || isRoomBusy
                 ? "Save Anyway (Creates Conflict)"
                 : scheduleToEdit
                 ? "Update Class"
@@ -9,7 +9,10 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Teacher, TimePreference, DAYS_OF_WEEK, TIME_SLOTS } from "@shared/schema";
+import { Teacher, TimePreference, DAYS_OF_WEEK } from "@shared/schema";
+import { formatClockTime } from "@shared/timeSlots";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useCalendar } from "@/hooks/useCalendar";
 import { X } from "lucide-react";
 
 interface AddTeacherModalProps {
@@ -26,11 +29,16 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
   const [timePreferences, setTimePreferences] = useState<TimePreference[]>(
     teacherToEdit?.timePreferences || []
   );
+  const [maxPerDay, setMaxPerDay] = useState(teacherToEdit?.maxPeriodsPerDay?.toString() || "");
+  const [maxPerWeek, setMaxPerWeek] = useState(teacherToEdit?.maxPeriodsPerWeek?.toString() || "");
+  const [maxConsecutive, setMaxConsecutive] = useState(teacherToEdit?.maxConsecutivePeriods?.toString() || "");
   const [newPrefDay, setNewPrefDay] = useState<number>(0);
   const [newPrefStart, setNewPrefStart] = useState<number>(0);
   const [newPrefEnd, setNewPrefEnd] = useState<number>(0);
 
   const { toast } = useToast();
+  const { teachingSlots, getTimeSlotById } = useTimeSlots();
+  const { teachingDays } = useCalendar();
 
   const addTeacherMutation = useMutation({
     mutationFn: async (teacher: Omit<Teacher, 'id'>) => {
@@ -44,6 +52,8 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/teachers'] });
+      // Changed workload limits can add or clear conflicts
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
       toast({
         title: teacherToEdit ? "Teacher updated" : "Teacher added",
         description: teacherToEdit
@@ -76,7 +86,10 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
   };
 
   const handleAddTimePreference = () => {
-    if (newPrefEnd < newPrefStart) {
+    // Slot ids are not chronological, so compare positions in the bell schedule
+    const startIndex = teachingSlots.findIndex(slot => slot.id === newPrefStart);
+    const endIndex = teachingSlots.findIndex(slot => slot.id === newPrefEnd);
+    if (endIndex < startIndex) {
       toast({
         title: "Invalid time range",
         description: "End time must be after start time.",
@@ -92,7 +105,7 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
     };
 
     setTimePreferences([...timePreferences, newPref]);
-    setNewPrefDay(0);
+    setNewPrefDay(teachingDays[0] ?? 0);
     setNewPrefStart(0);
     setNewPrefEnd(0);
   };
@@ -118,6 +131,10 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
       specialization: specialization.trim() || undefined,
       skills,
       timePreferences,
+      // An empty limit means the teacher has none
+      maxPeriodsPerDay: maxPerDay ? Number(maxPerDay) : null,
+      maxPeriodsPerWeek: maxPerWeek ? Number(maxPerWeek) : null,
+      maxConsecutivePeriods: maxConsecutive ? Number(maxConsecutive) : null,
     };
 
     addTeacherMutation.mutate(teacher as any);
@@ -129,14 +146,20 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
       setSpecialization("");
       setSkills([]);
       setTimePreferences([]);
+      setMaxPerDay("");
+      setMaxPerWeek("");
+      setMaxConsecutive("");
     } else {
       setName(teacherToEdit.name);
       setSpecialization(teacherToEdit.specialization || "");
       setSkills(teacherToEdit.skills || []);
       setTimePreferences(teacherToEdit.timePreferences || []);
+      setMaxPerDay(teacherToEdit.maxPeriodsPerDay?.toString() || "");
+      setMaxPerWeek(teacherToEdit.maxPeriodsPerWeek?.toString() || "");
+      setMaxConsecutive(teacherToEdit.maxConsecutivePeriods?.toString() || "");
     }
     setSkillInput("");
-    setNewPrefDay(0);
+    setNewPrefDay(teachingDays[0] ?? 0);
     setNewPrefStart(0);
     setNewPrefEnd(0);
   };
@@ -225,9 +248,9 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
                   value={newPrefDay}
                   onChange={(e) => setNewPrefDay(Number(e.target.value))}
                 >
-                  {DAYS_OF_WEEK.map((day, index) => (
-                    <option key={index} value={index}>
-                      {day}
+                  {teachingDays.map((dayIndex) => (
+                    <option key={dayIndex} value={dayIndex}>
+                      {DAYS_OF_WEEK[dayIndex]}
                     </option>
                   ))}
                 </select>
@@ -241,9 +264,9 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
                   value={newPrefStart}
                   onChange={(e) => setNewPrefStart(Number(e.target.value))}
                 >
-                  {TIME_SLOTS.map((slot) => (
+                  {teachingSlots.map((slot) => (
                     <option key={slot.id} value={slot.id}>
-                      {slot.label.split(' - ')[0]}
+                      {formatClockTime(slot.startTime)}
                     </option>
                   ))}
                 </select>
@@ -257,9 +280,9 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
                   value={newPrefEnd}
                   onChange={(e) => setNewPrefEnd(Number(e.target.value))}
                 >
-                  {TIME_SLOTS.map((slot) => (
+                  {teachingSlots.map((slot) => (
                     <option key={slot.id} value={slot.id}>
-                      {slot.label.split(' - ')[1]}
+                      {formatClockTime(slot.endTime)}
                     </option>
                   ))}
                 </select>
@@ -281,8 +304,10 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
                 <div className="space-y-2">
                   {timePreferences.map((pref, index) => {
                     const dayName = DAYS_OF_WEEK[pref.dayOfWeek];
-                    const startTime = TIME_SLOTS[pref.startTimeSlot]?.label.split(' - ')[0] || '';
-                    const endTime = TIME_SLOTS[pref.endTimeSlot]?.label.split(' - ')[1] || '';
+                    const startSlot = getTimeSlotById(pref.startTimeSlot);
+                    const endSlot = getTimeSlotById(pref.endTimeSlot);
+                    const startTime = startSlot ? formatClockTime(startSlot.startTime) : '';
+                    const endTime = endSlot ? formatClockTime(endSlot.endTime) : '';
                     
                     return (
                       <div key={index} className="flex justify-between items-center bg-neutral-lightest p-2 rounded-md">
@@ -311,6 +336,45 @@ export default function AddTeacherModal({ isOpen, onClose, teacherToEdit }: AddT
             </div>
           </div>
           
+          <div className="space-y-2">
+            <Label className="font-medium">Workload Limits</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="maxPerDay" className="text-xs">Periods per day</Label>
+                <Input
+                  id="maxPerDay"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={maxPerDay}
+                  onChange={(e) => setMaxPerDay(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="maxPerWeek" className="text-xs">Periods per week</Label>
+                <Input
+                  id="maxPerWeek"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={maxPerWeek}
+                  onChange={(e) => setMaxPerWeek(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="maxConsecutive" className="text-xs">Consecutive periods</Label>
+                <Input
+                  id="maxConsecutive"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={maxConsecutive}
+                  onChange={(e) => setMaxConsecutive(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          
           <DialogFooter>
             <Button
               type="button"
@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTermData } from "@/hooks/useTermData";
+import { AcademicTerm } from "@shared/schema";
+
+interface AddTermModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function AddTermModal({ isOpen, onClose }: AddTermModalProps) {
+  const { terms, currentTermId, addTerm, rolloverTerm, selectTerm, isLoading } = useTermData();
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [isCurrent, setIsCurrent] = useState(false);
+  const [fromTermId, setFromTermId] = useState<string>("none");
+
+  const { toast } = useToast();
+
+  // Offer to roll over the term being viewed
+  useEffect(() => {
+    if (isOpen) {
+      setName("");
+      setStartDate("");
+      setEndDate("");
+      setIsCurrent(false);
+      setFromTermId(currentTermId ? currentTermId.toString() : "none");
+    }
+  }, [isOpen, currentTermId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !startDate || !endDate) {
+      toast({
+        title: "Required fields",
+        description: "A term needs a name, a start date and an end date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (endDate <= startDate) {
+      toast({
+        title: "Invalid date range",
+        description: "End date must be after start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const term: AcademicTerm = await addTerm({ name: name.trim(), startDate, endDate, isCurrent });
+      const copied = fromTermId === "none"
+        ? []
+        : await rolloverTerm({ termId: term.id, fromTermId: Number(fromTermId) });
+
+      selectTerm(term.id);
+      toast({
+        title: "Term added",
+        description: copied.length > 0
+          ? `${copied.length} classes were rolled over as a starting draft.`
+          : "The new term has an empty timetable.",
+        variant: "default",
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add term. Please try again.",
+        variant: "destructive",
+      });
+      console.error("Error adding term:", error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle className="font-display font-semibold text-lg text-neutral-darkest">
+            Add New Term
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="termName" className="font-medium">
+              Term Name <span className="text-error">*</span>
+            </Label>
+            <Input
+              id="termName"
+              placeholder="Enter term name (e.g., Spring 2027)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startDate" className="font-medium">
+                Starts <span className="text-error">*</span>
+              </Label>
+              <Input
+                id="startDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endDate" className="font-medium">
+                Ends <span className="text-error">*</span>
+              </Label>
+              <Input
+                id="endDate"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fromTerm" className="font-medium">
+              Roll Over Timetable From
+            </Label>
+            <Select value={fromTermId} onValueChange={setFromTermId}>
+              <SelectTrigger id="fromTerm">
+                <SelectValue placeholder="Select a term" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Start empty</SelectItem>
+                {terms.map((term) => (
+                  <SelectItem key={term.id} value={term.id.toString()}>
+                    {term.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-neutral-darkest">
+            <Checkbox
+              checked={isCurrent}
+              onCheckedChange={(checked) => setIsCurrent(checked === true)}
+            />
+            <span>Make this the current term</span>
+          </label>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Add Term"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Save, X } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCalendar } from "@/hooks/useCalendar";
+import { BreakPeriod, DAYS_OF_WEEK } from "@shared/schema";
+import { formatTimeSlotLabel } from "@shared/timeSlots";
+
+export default function CalendarSettings() {
+  const { calendar, updateCalendar, isLoading } = useCalendar();
+  const { toast } = useToast();
+
+  const [teachingDays, setTeachingDays] = useState<number[]>(calendar.teachingDays);
+  const [breaks, setBreaks] = useState<BreakPeriod[]>(calendar.breaks);
+  const [newBreakDay, setNewBreakDay] = useState<string>("all");
+  const [newBreakStart, setNewBreakStart] = useState("");
+  const [newBreakEnd, setNewBreakEnd] = useState("");
+  const [newBreakLabel, setNewBreakLabel] = useState("");
+
+  // Keep the form in step with the saved calendar. Refetches that bring back
+  // the same calendar keep the same arrays, so unsaved edits are not lost.
+  useEffect(() => {
+    setTeachingDays(calendar.teachingDays);
+    setBreaks(calendar.breaks);
+  }, [calendar.teachingDays, calendar.breaks]);
+
+  const handleToggleDay = (day: number, checked: boolean) => {
+    setTeachingDays(checked
+      ? [...teachingDays, day].sort((a, b) => a - b)
+      : teachingDays.filter(d => d !== day)
+    );
+  };
+
+  const handleAddBreak = () => {
+    if (!newBreakStart || !newBreakEnd || !newBreakLabel.trim()) {
+      toast({
+        title: "Required fields",
+        description: "A break needs a name, a start time and an end time.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newBreakEnd <= newBreakStart) {
+      toast({
+        title: "Invalid time range",
+        description: "End time must be after start time.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBreaks([...breaks, {
+      dayOfWeek: newBreakDay === "all" ? null : Number(newBreakDay),
+      startTime: newBreakStart,
+      endTime: newBreakEnd,
+      label: newBreakLabel.trim(),
+    }]);
+    setNewBreakDay("all");
+    setNewBreakStart("");
+    setNewBreakEnd("");
+    setNewBreakLabel("");
+  };
+
+  const handleRemoveBreak = (index: number) => {
+    setBreaks(breaks.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (teachingDays.length === 0) {
+      toast({
+        title: "Required field",
+        description: "Select at least one teaching day.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await updateCalendar({ teachingDays, breaks });
+      // Existing classes may now sit on a break or a day off
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      toast({
+        title: "Calendar updated",
+        description: "Teaching days and breaks have been saved.",
+        variant: "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update the calendar. Please try again.",
+        variant: "destructive",
+      });
+      console.error("Error updating calendar:", error);
+    }
+  };
+
+  return (
+    <Card className="bg-white rounded-lg shadow-md overflow-hidden">
+      <CardHeader className="p-4 border-b border-neutral-light bg-neutral-lightest flex flex-row justify-between items-center">
+        <CardTitle className="font-display font-semibold text-lg text-neutral-darkest">
+          Institution Calendar
+        </CardTitle>
+        <Button
+          variant="default"
+          size="sm"
+          className="text-sm bg-primary hover:bg-primary-light text-white px-3 py-1 rounded-md flex items-center space-x-1"
+          onClick={handleSave}
+          disabled={isLoading}
+        >
+          <Save className="h-3 w-3" />
+          <span>{isLoading ? "Saving..." : "Save"}</span>
+        </Button>
+      </CardHeader>
+
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <Label className="font-medium">Teaching Days</Label>
+          <div className="grid grid-cols-4 gap-2 mt-2">
+            {DAYS_OF_WEEK.map((day, index) => (
+              <label key={day} className="flex items-center space-x-2 text-sm text-neutral-darkest">
+                <Checkbox
+                  checked={teachingDays.includes(index)}
+                  onCheckedChange={(checked) => handleToggleDay(index, checked === true)}
+                />
+                <span>{day}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label className="font-medium">Breaks</Label>
+          <div className="space-y-2 mt-2">
+            {breaks.length === 0 ? (
+              <div className="text-sm text-neutral-dark italic">
+                No breaks beyond the bell schedule.
+              </div>
+            ) : (
+              breaks.map((period, index) => (
+                <div key={index} className="flex justify-between items-center bg-neutral-lightest p-2 rounded-md">
+                  <span className="text-sm text-neutral-darkest">
+                    {period.label}: {period.dayOfWeek === null ? 'Every day' : DAYS_OF_WEEK[period.dayOfWeek]} {formatTimeSlotLabel(period)}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveBreak(index)}
+                    className="text-neutral-dark hover:text-error h-6 w-6 p-0"
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <Input
+              placeholder="Break name (e.g., Friday half day)"
+              value={newBreakLabel}
+              onChange={(e) => setNewBreakLabel(e.target.value)}
+            />
+            <select
+              className="w-full p-2 border border-neutral-light rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              value={newBreakDay}
+              onChange={(e) => setNewBreakDay(e.target.value)}
+            >
+              <option value="all">Every day</option>
+              {DAYS_OF_WEEK.map((day, index) => (
+                <option key={day} value={index}>
+                  {day}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="time"
+              value={newBreakStart}
+              onChange={(e) => setNewBreakStart(e.target.value)}
+            />
+            <Input
+              type="time"
+              value={newBreakEnd}
+              onChange={(e) => setNewBreakEnd(e.target.value)}
+            />
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAddBreak}
+            className="mt-2"
+          >
+            Add Break
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
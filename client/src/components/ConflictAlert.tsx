@@ -2,24 +2,44 @@ import { AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useQuery } from "@tanstack/react-query";
-import { Conflict } from "@shared/schema";
+import { Conflict, Program } from "@shared/schema";
 import { useTeacherData } from "@/hooks/useTeacherData";
 import { useCourseData } from "@/hooks/useCourseData";
-import { DAYS_OF_WEEK, TIME_SLOTS } from "@shared/schema";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useRoomData } from "@/hooks/useRoomData";
+import { useScheduleData } from "@/hooks/useScheduleData";
+import { useSectionData } from "@/hooks/useSectionData";
+import { useTermData } from "@/hooks/useTermData";
+import { formatTimeSlot } from "@/utils/scheduleUtils";
+import { getWorkloadLimitLabel, getWorkloadLimitMax } from "@shared/workload";
+import { isOutstanding } from "@shared/waivers";
 
 interface ConflictAlertProps {
   onShowResolution: () => void;
 }
 
 export default function ConflictAlert({ onShowResolution }: ConflictAlertProps) {
-  const { data: conflicts = [] } = useQuery<Conflict[]>({
+  const { currentTermId } = useTermData();
+
+  const { data: allConflicts = [] } = useQuery<Conflict[]>({
     queryKey: ['/api/conflicts'],
   });
 
+  const conflicts = allConflicts.filter(conflict => conflict.termId === currentTermId);
+
   const { getTeacherById } = useTeacherData();
   const { getCourseById } = useCourseData();
+  const { timeSlots } = useTimeSlots();
+  const { getRoomById } = useRoomData();
+  const { getScheduleById } = useScheduleData();
+  const { getSectionById } = useSectionData();
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ['/api/programs'],
+  });
 
-  const unresolved = conflicts.filter(conflict => !conflict.resolved);
+  // Waived clashes are intended, so they are not counted
+  const unresolved = conflicts.filter(conflict => isOutstanding(conflict));
 
   if (unresolved.length === 0) {
     return null;
@@ -37,21 +57,49 @@ export default function ConflictAlert({ onShowResolution }: ConflictAlertProps)
             <p>There are {unresolved.length} scheduling conflicts in your current routine:</p>
             <ul className="list-disc list-inside mt-1">
               {unresolved.map((conflict) => {
-                const teacher = getTeacherById(conflict.teacherId);
-                const courseNames = conflict.conflictingScheduleIds
+                const courseNames = (conflict.conflictingScheduleIds ?? [])
                   .map(id => {
-                    const course = getCourseById(id);
+                    const course = getCourseById(getScheduleById(id)?.courseId);
                     return course?.name || 'Unknown Course';
                   })
                   .filter(Boolean)
                   .join(' & ');
                 
-                const dayName = DAYS_OF_WEEK[conflict.dayOfWeek];
-                const timeSlot = TIME_SLOTS[conflict.timeSlot]?.label || 'Unknown Time';
+                const when = formatTimeSlot(conflict.dayOfWeek, conflict.timeSlot, timeSlots);
+                
+                if (conflict.type === 'group') {
+                  const program = programs.find(p => p.id === conflict.programId);
+                  const section = getSectionById(conflict.sectionId);
+                  return (
+                    <li key={conflict.id}>
+                      {program?.code || 'Unknown Program'} Semester {conflict.semester}{section ? ` Section ${section.name}` : ''} has overlapping classes on {when} ({courseNames})
+                    </li>
+                  );
+                }
+                
+                if (conflict.type === 'room') {
+                  const room = getRoomById(conflict.roomId);
+                  return (
+                    <li key={conflict.id}>
+                      Room {room?.name || 'Unknown Room'} is double-booked on {when} ({courseNames})
+                    </li>
+                  );
+                }
+                
+                const teacher = getTeacherById(conflict.teacherId ?? undefined);
+                
+                if (conflict.type === 'workload' && conflict.workloadLimit) {
+                  const max = teacher ? getWorkloadLimitMax(teacher, conflict.workloadLimit) : null;
+                  return (
+                    <li key={conflict.id}>
+                      {teacher?.name || 'Unknown Teacher'} is over their limit of {max !== null ? `${max} ` : ''}{getWorkloadLimitLabel(conflict.workloadLimit)} on {when} ({courseNames})
+                    </li>
+                  );
+                }
                 
                 return (
                   <li key={conflict.id}>
-                    {teacher?.name || 'Unknown Teacher'} has a conflict on {dayName} at {timeSlot} ({courseNames})
+                    {teacher?.name || 'Unknown Teacher'} has a conflict on {when} ({courseNames})
                   </li>
                 );
               })}
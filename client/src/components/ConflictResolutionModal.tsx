@@ -3,10 +3,22 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Conflict, ConflictSuggestion } from "@shared/schema";
+import { Conflict, ConflictSuggestion, Program } from "@shared/schema";
 import { useTeacherData } from "@/hooks/useTeacherData";
 import { useCourseData } from "@/hooks/useCourseData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useRoomData } from "@/hooks/useRoomData";
+import { useScheduleData } from "@/hooks/useScheduleData";
+import { useSectionData } from "@/hooks/useSectionData";
+import { useTermData } from "@/hooks/useTermData";
+import { formatTimeSlot, getConflictTypeLabel } from "@/utils/scheduleUtils";
+import { getWorkloadLimitLabel } from "@shared/workload";
+import { RepairPlan as Plan } from "@shared/repair";
+import { isOutstanding } from "@shared/waivers";
+import RepairPlan from "@/components/RepairPlan";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -16,46 +28,165 @@ interface ConflictResolutionModalProps {
   onClose: () => void;
 }
 
+// Suggestions shown per conflict before "Show more"
+const VISIBLE_SUGGESTIONS = 3;
+
 export default function ConflictResolutionModal({ isOpen, onClose }: ConflictResolutionModalProps) {
   const [selectedConflict, setSelectedConflict] = useState<number | null>(null);
   const [selectedSuggestion, setSelectedSuggestion] = useState<string | null>(null);
+  const [expandedConflicts, setExpandedConflicts] = useState<number[]>([]);
+  const [repairPlan, setRepairPlan] = useState<Plan | null>(null);
+  const [waivingConflict, setWaivingConflict] = useState<number | null>(null);
+  const [waiverReason, setWaiverReason] = useState("");
+  const [waiverExpiry, setWaiverExpiry] = useState("");
   const { toast } = useToast();
 
-  const { data: conflicts = [] } = useQuery<Conflict[]>({
+  const { currentTermId } = useTermData();
+
+  const { data: allConflicts = [] } = useQuery<Conflict[]>({
     queryKey: ['/api/conflicts'],
   });
 
+  const conflicts = allConflicts.filter(conflict => conflict.termId === currentTermId);
+
   const { getTeacherById } = useTeacherData();
   const { getCourseById } = useCourseData();
+  const { timeSlots } = useTimeSlots();
+  const { getRoomById } = useRoomData();
+  const { getScheduleById } = useScheduleData();
+  const { getSectionById } = useSectionData();
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ['/api/programs'],
+  });
 
-  const unresolved = conflicts.filter(conflict => !conflict.resolved);
+  const unresolved = conflicts.filter(conflict => isOutstanding(conflict));
 
-  const applySuggestionMutation = useMutation({
-    mutationFn: async ({ conflictId, suggestionId }: { conflictId: number; suggestionId: string }) => {
-      await apiRequest("POST", `/api/conflicts/${conflictId}/resolve`, { suggestionId });
+  const handleClose = () => {
+    setRepairPlan(null);
+    setWaivingConflict(null);
+    onClose();
+  };
+
+  // A waived clash stays in the timetable but stops counting against it until the waiver expires
+  const waiveConflictMutation = useMutation({
+    mutationFn: async ({ conflictId, reason, expiresAt }: { conflictId: number; reason: string; expiresAt: string }) => {
+      await apiRequest("POST", `/api/conflicts/${conflictId}/waiver`, { reason, expiresAt });
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      toast({
+        title: "Conflict waived",
+        description: "It will not be flagged again until the waiver expires.",
+        variant: "default",
+      });
+      setWaivingConflict(null);
+      setWaiverReason("");
+      setWaiverExpiry("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to waive conflict. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The server checks the suggestion still fits the timetable before applying it
+  const applySuggestionMutation = useMutation({
+    mutationFn: async ({ conflictId, suggestionId }: { conflictId: number; suggestionId: string }): Promise<{ resolved: Conflict[]; created: Conflict[] }> => {
+      const response = await apiRequest("POST", `/api/conflicts/${conflictId}/resolve`, { suggestionId });
+      return await response.json();
+    },
+    onSuccess: ({ resolved, created }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
       toast({
         title: "Conflict resolved",
-        description: "The schedule conflict has been resolved successfully.",
+        description: created.length > 0
+          ? `${resolved.length} resolved, but ${created.length} new ${created.length === 1 ? 'conflict was' : 'conflicts were'} found.`
+          : `${resolved.length} ${resolved.length === 1 ? 'conflict' : 'conflicts'} resolved.`,
         variant: "default",
       });
       setSelectedConflict(null);
       setSelectedSuggestion(null);
-      onClose();
+      handleClose();
     },
     onError: (error) => {
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      if (status === "409") {
+        // Other edits have overtaken the suggestion; fetch the conflicts and
+        // suggestions as they are now
+        queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      }
       toast({
-        title: "Error",
-        description: "Failed to resolve conflict. Please try again.",
+        title: status === "409" ? "Suggestion out of date" : "Error",
+        description: status === "409"
+          ? "The timetable has changed since this suggestion was made. Pick from the updated suggestions."
+          : "Failed to resolve conflict. Please try again.",
         variant: "destructive",
       });
       console.error("Error resolving conflict:", error);
     },
   });
 
+  // Resolving everything at once is planned first and only applied once approved
+  const planRepairMutation = useMutation({
+    mutationFn: async (termId: number): Promise<Plan> => {
+      const response = await apiRequest("POST", "/api/conflicts/resolve-all", { termId });
+      return await response.json();
+    },
+    onSuccess: (plan) => {
+      if (plan.changes.length === 0) {
+        toast({
+          title: "No automatic fix found",
+          description: "None of the conflicts can be cleared without creating another.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setRepairPlan(plan);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to plan a fix for the conflicts. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyRepairMutation = useMutation({
+    mutationFn: async (plan: Plan): Promise<{ resolved: Conflict[]; created: Conflict[] }> => {
+      const response = await apiRequest("POST", "/api/conflicts/resolve-all", { termId: plan.termId, changes: plan.changes });
+      return await response.json();
+    },
+    onSuccess: ({ resolved, created }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      toast({
+        title: "Conflicts resolved",
+        description: created.length > 0
+          ? `${resolved.length} resolved, but ${created.length} new ${created.length === 1 ? 'conflict was' : 'conflicts were'} found.`
+          : `${resolved.length} ${resolved.length === 1 ? 'conflict' : 'conflicts'} resolved. Undo reverts them in one step.`,
+        variant: "default",
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      setRepairPlan(null);
+      toast({
+        title: status === "409" ? "Fix out of date" : "Error",
+        description: status === "409"
+          ? "The timetable has changed since the fix was planned. Please plan it again."
+          : "Failed to apply the fix. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleApplySolutions = () => {
     if (selectedConflict !== null && selectedSuggestion !== null) {
       applySuggestionMutation.mutate({
@@ -72,7 +203,7 @@ export default function ConflictResolutionModal({ isOpen, onClose }: ConflictRes
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle className="font-display font-semibold text-lg text-neutral-darkest">
@@ -81,60 +212,161 @@ export default function ConflictResolutionModal({ isOpen, onClose }: ConflictRes
         </DialogHeader>
         
         <div className="p-4 max-h-[60vh] overflow-y-auto">
-          {unresolved.length === 0 ? (
+          {repairPlan ? (
+            <RepairPlan plan={repairPlan} />
+          ) : unresolved.length === 0 ? (
             <div className="text-center py-6 text-neutral-dark">
               No conflicts to resolve. Your schedule is clear!
             </div>
           ) : (
             unresolved.map((conflict, index) => {
-              const teacher = getTeacherById(conflict.teacherId);
-              const conflictingCourses = conflict.conflictingScheduleIds.map(
-                id => getCourseById(id)?.name || 'Unknown Course'
+              const conflictingCourses = (conflict.conflictingScheduleIds ?? []).map(
+                id => getCourseById(getScheduleById(id)?.courseId)?.name || 'Unknown Course'
               ).join(' and ');
+              const when = formatTimeSlot(conflict.dayOfWeek, conflict.timeSlot, timeSlots);
+              const subject = (() => {
+                switch (conflict.type) {
+                  case 'room':
+                    return `Room ${getRoomById(conflict.roomId)?.name || 'Unknown Room'}`;
+                  case 'group':
+                    const section = getSectionById(conflict.sectionId);
+                    return `${programs.find(p => p.id === conflict.programId)?.code || 'Unknown Program'} Semester ${conflict.semester}${section ? ` Section ${section.name}` : ''}`;
+                  default:
+                    return getTeacherById(conflict.teacherId ?? undefined)?.name || 'Unknown Teacher';
+                }
+              })();
               
               return (
                 <div key={conflict.id} className="mb-5">
                   <h3 className="font-medium text-neutral-darkest text-lg mb-3">
-                    Conflict #{index + 1}: {teacher?.name || 'Unknown Teacher'}
+                    Conflict #{index + 1}: {getConflictTypeLabel(conflict.type)} - {subject}
                   </h3>
                   <div className="bg-neutral-lightest p-3 rounded-md mb-3">
                     <p className="text-sm text-neutral-darkest">
-                      {teacher?.name || 'Unknown Teacher'} is scheduled for <span className="font-medium">{conflictingCourses}</span> simultaneously on {['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'][conflict.dayOfWeek]} at {['6:30-7:20 AM', '7:20-8:10 AM', '8:10-9:00 AM', '9:20-10:10 AM', '10:10-11:00 AM'][conflict.timeSlot]}.
+                      {conflict.type === 'group' ? (
+                        <>{subject} has <span className="font-medium">{conflictingCourses}</span> scheduled simultaneously on {when}.</>
+                      ) : conflict.type === 'room' ? (
+                        <>{subject} is booked for <span className="font-medium">{conflictingCourses}</span> simultaneously on {when}.</>
+                      ) : conflict.type === 'workload' && conflict.workloadLimit ? (
+                        <>{subject} teaches <span className="font-medium">{conflictingCourses}</span>, going over the limit of {getWorkloadLimitLabel(conflict.workloadLimit)} on {when}.</>
+                      ) : (
+                        <>{subject} is scheduled for <span className="font-medium">{conflictingCourses}</span> simultaneously on {when}.</>
+                      )}
                     </p>
                   </div>
                   
                   <h4 className="font-medium text-neutral-darkest mb-2">Suggested Solutions:</h4>
                   {conflict.suggestions && conflict.suggestions.length > 0 ? (
-                    <RadioGroup 
-                      value={selectedConflict === conflict.id ? selectedSuggestion || undefined : undefined}
-                      onValueChange={(value) => {
-                        setSelectedConflict(conflict.id);
-                        setSelectedSuggestion(value);
-                      }}
-                    >
-                      <div className="space-y-2">
-                        {conflict.suggestions.map((suggestion: ConflictSuggestion) => (
-                          <div 
-                            key={suggestion.id} 
-                            className={`border border-neutral-light p-3 rounded-md hover:bg-neutral-lightest transition cursor-pointer ${
-                              selectedConflict === conflict.id && selectedSuggestion === suggestion.id ? 'bg-neutral-lightest' : ''
-                            }`}
-                          >
-                            <div className="flex items-center">
-                              <RadioGroupItem value={suggestion.id} id={suggestion.id} className="h-4 w-4 rounded-full mr-3 flex-shrink-0" />
-                              <Label htmlFor={suggestion.id} className="text-sm text-neutral-darkest cursor-pointer">
-                                {suggestion.description}
-                              </Label>
+                    <>
+                      <RadioGroup 
+                        value={selectedConflict === conflict.id ? selectedSuggestion || undefined : undefined}
+                        onValueChange={(value) => {
+                          setSelectedConflict(conflict.id);
+                          setSelectedSuggestion(value);
+                        }}
+                      >
+                        <div className="space-y-2">
+                          {(expandedConflicts.includes(conflict.id)
+                            ? conflict.suggestions
+                            : conflict.suggestions.slice(0, VISIBLE_SUGGESTIONS)
+                          ).map((suggestion: ConflictSuggestion) => (
+                            <div 
+                              key={suggestion.id} 
+                              className={`border border-neutral-light p-3 rounded-md hover:bg-neutral-lightest transition cursor-pointer ${
+                                selectedConflict === conflict.id && selectedSuggestion === suggestion.id ? 'bg-neutral-lightest' : ''
+                              }`}
+                            >
+                              <div className="flex items-center">
+                                <RadioGroupItem value={suggestion.id} id={suggestion.id} className="h-4 w-4 rounded-full mr-3 flex-shrink-0" />
+                                <Label htmlFor={suggestion.id} className="text-sm text-neutral-darkest cursor-pointer flex-1">
+                                  {suggestion.description}
+                                </Label>
+                                {suggestion.score !== undefined && (
+                                  <span className="text-xs font-medium text-neutral-dark ml-2">
+                                    Score {suggestion.score > 0 ? '+' : ''}{suggestion.score}
+                                  </span>
+                                )}
+                              </div>
+                              {/* Suggestions stored before scoring have no reasons */}
+                              <ul className="ml-7 mt-1 text-xs text-neutral-dark">
+                                {(suggestion.reasons ?? []).map((reason) => (
+                                  <li key={reason.factor} className={reason.points > 0 ? 'text-success' : reason.points < 0 ? 'text-error' : ''}>
+                                    {reason.detail}{reason.points !== 0 ? ` (${reason.points > 0 ? '+' : ''}${reason.points})` : ''}
+                                  </li>
+                                ))}
+                              </ul>
                             </div>
-                          </div>
-                        ))}
-                      </div>
-                    </RadioGroup>
+                          ))}
+                        </div>
+                      </RadioGroup>
+                      {conflict.suggestions.length > VISIBLE_SUGGESTIONS && (
+                        <Button
+                          variant="link"
+                          className="text-sm text-primary px-0"
+                          onClick={() => setExpandedConflicts(expandedConflicts.includes(conflict.id)
+                            ? expandedConflicts.filter(id => id !== conflict.id)
+                            : [...expandedConflicts, conflict.id]
+                          )}
+                        >
+                          {expandedConflicts.includes(conflict.id)
+                            ? 'Show fewer'
+                            : `Show ${conflict.suggestions.length - VISIBLE_SUGGESTIONS} more`}
+                        </Button>
+                      )}
+                    </>
                   ) : (
                     <div className="text-sm text-neutral-dark italic p-3">
                       No suggestions available for this conflict.
                     </div>
                   )}
+                  
+                  {waivingConflict === conflict.id ? (
+                    <div className="mt-3 space-y-2 border border-neutral-light p-3 rounded-md">
+                      <Label htmlFor={`waiver-reason-${conflict.id}`} className="text-sm">Why is this overlap intended?</Label>
+                      <Textarea
+                        id={`waiver-reason-${conflict.id}`}
+                        value={waiverReason}
+                        onChange={(e) => setWaiverReason(e.target.value)}
+                        placeholder="e.g. Combined lecture for both programs"
+                      />
+                      <Label htmlFor={`waiver-expiry-${conflict.id}`} className="text-sm">Waive until</Label>
+                      <Input
+                        id={`waiver-expiry-${conflict.id}`}
+                        type="date"
+                        value={waiverExpiry}
+                        onChange={(e) => setWaiverExpiry(e.target.value)}
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => setWaivingConflict(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={!waiverReason.trim() || !waiverExpiry || waiveConflictMutation.isPending}
+                          onClick={() => waiveConflictMutation.mutate({
+                            conflictId: conflict.id,
+                            reason: waiverReason,
+                            // The waiver lasts through the whole of its last day
+                            expiresAt: new Date(`${waiverExpiry}T23:59:59`).toISOString()
+                          })}
+                        >
+                          {waiveConflictMutation.isPending ? "Waiving..." : "Waive"}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="link"
+                      className="text-sm text-neutral-dark px-0"
+                      onClick={() => {
+                        setWaivingConflict(conflict.id);
+                        setWaiverReason("");
+                        setWaiverExpiry("");
+                      }}
+                    >
+                      This overlap is intended
+                    </Button>
+                  )}
                 </div>
               );
             })
@@ -142,21 +374,51 @@ export default function ConflictResolutionModal({ isOpen, onClose }: ConflictRes
         </div>
         
         <DialogFooter className="p-4 border-t border-neutral-light bg-neutral-lightest flex justify-end space-x-3">
-          <Button
-            variant="outline"
-            className="px-4 py-2 border border-neutral-light rounded-md text-neutral-darkest hover:bg-neutral-light"
-            onClick={onClose}
-          >
-            Cancel
-          </Button>
-          <Button
-            variant="default"
-            className="px-4 py-2 bg-primary hover:bg-primary-light text-white rounded-md"
-            onClick={handleApplySolutions}
-            disabled={applySuggestionMutation.isPending || unresolved.length === 0}
-          >
-            {applySuggestionMutation.isPending ? "Applying..." : "Apply Solutions"}
-          </Button>
+          {repairPlan ? (
+            <>
+              <Button
+                variant="outline"
+                className="px-4 py-2 border border-neutral-light rounded-md text-neutral-darkest hover:bg-neutral-light"
+                onClick={() => setRepairPlan(null)}
+              >
+                Back
+              </Button>
+              <Button
+                variant="default"
+                className="px-4 py-2 bg-primary hover:bg-primary-light text-white rounded-md"
+                onClick={() => applyRepairMutation.mutate(repairPlan)}
+                disabled={applyRepairMutation.isPending}
+              >
+                {applyRepairMutation.isPending ? "Applying..." : `Apply ${repairPlan.changes.length} Changes`}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                className="px-4 py-2 border border-neutral-light rounded-md text-neutral-darkest hover:bg-neutral-light"
+                onClick={handleClose}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="outline"
+                className="px-4 py-2 border border-neutral-light rounded-md text-neutral-darkest hover:bg-neutral-light"
+                onClick={() => currentTermId && planRepairMutation.mutate(currentTermId)}
+                disabled={planRepairMutation.isPending || !currentTermId || unresolved.length === 0}
+              >
+                {planRepairMutation.isPending ? "Searching..." : "Resolve All"}
+              </Button>
+              <Button
+                variant="default"
+                className="px-4 py-2 bg-primary hover:bg-primary-light text-white rounded-md"
+                onClick={handleApplySolutions}
+                disabled={applySuggestionMutation.isPending || unresolved.length === 0}
+              >
+                {applySuggestionMutation.isPending ? "Applying..." : "Apply Solutions"}
+              </Button>
+            </>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -2,13 +2,17 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Plus, Pencil, Trash2, Search } from "lucide-react";
+import { Plus, Pencil, Trash2, Search, Network } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Course } from "@shared/schema";
+import { getCourseCoverage } from "@shared/coverage";
 import { apiRequest } from "@/lib/queryClient";
 import { useTeacherData } from "@/hooks/useTeacherData";
+import { useScheduleData } from "@/hooks/useScheduleData";
+import { useSectionData } from "@/hooks/useSectionData";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import CurriculumView from "./CurriculumView";
 
 interface CourseManagementProps {
   onAddCourse: () => void;
@@ -17,6 +21,7 @@ interface CourseManagementProps {
 
 export default function CourseManagement({ onAddCourse, onEditCourse }: CourseManagementProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [isCurriculumOpen, setIsCurriculumOpen] = useState(false);
   const { toast } = useToast();
   
   const { data: courses = [] } = useQuery<Course[]>({
@@ -24,6 +29,8 @@ export default function CourseManagement({ onAddCourse, onEditCourse }: CourseMa
   });
 
   const { getTeacherById } = useTeacherData();
+  const { schedules } = useScheduleData();
+  const { getSectionById, getSectionsFor } = useSectionData();
 
   const deleteCourseMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -60,6 +67,27 @@ export default function CourseManagement({ onAddCourse, onEditCourse }: CourseMa
     (course.description && course.description.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
+  const getCoverageBadge = (course: Course) => {
+    // Show the section furthest from its required periods
+    const sectionCoverage = getCourseCoverage(course, schedules, getSectionsFor(course.programId, course.semester));
+    const coverage = sectionCoverage.find(entry => entry.status === 'under'
+      && sectionCoverage.every(other => other.status !== 'under' || other.placed >= entry.placed))
+      ?? sectionCoverage.find(entry => entry.status === 'over')
+      ?? sectionCoverage[0];
+    const sectionName = getSectionById(coverage.sectionId)?.name;
+    const className = coverage.status === 'met'
+      ? 'bg-emerald-50 border-emerald-200 text-emerald-800'
+      : coverage.status === 'over'
+        ? 'bg-amber-50 border-amber-200 text-amber-800'
+        : 'bg-red-50 border-red-200 text-red-800';
+    
+    return (
+      <span className={`text-xs border py-0.5 px-2 rounded ml-1 ${className}`}>
+        {coverage.placed}/{coverage.required} periods placed{sectionName ? ` in Section ${sectionName}` : ''}
+      </span>
+    );
+  };
+
   const getColorDisplay = (color: string) => {
     const bgColorMap: Record<string, string> = {
       red: 'bg-red-500',
@@ -79,15 +107,26 @@ export default function CourseManagement({ onAddCourse, onEditCourse }: CourseMa
         <CardTitle className="font-display font-semibold text-lg text-neutral-darkest">
           Course Management
         </CardTitle>
-        <Button 
-          variant="default" 
-          size="sm" 
-          className="text-sm bg-primary hover:bg-primary-light text-white px-3 py-1 rounded-md flex items-center space-x-1"
-          onClick={onAddCourse}
-        >
-          <Plus className="h-3 w-3" />
-          <span>Add Course</span>
-        </Button>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-sm flex items-center space-x-1"
+            onClick={() => setIsCurriculumOpen(true)}
+          >
+            <Network className="h-3 w-3" />
+            <span>Curriculum</span>
+          </Button>
+          <Button 
+            variant="default" 
+            size="sm" 
+            className="text-sm bg-primary hover:bg-primary-light text-white px-3 py-1 rounded-md flex items-center space-x-1"
+            onClick={onAddCourse}
+          >
+            <Plus className="h-3 w-3" />
+            <span>Add Course</span>
+          </Button>
+        </div>
       </CardHeader>
       
       <CardContent className="p-4">
@@ -124,8 +163,9 @@ export default function CourseManagement({ onAddCourse, onEditCourse }: CourseMa
                         {course.credits} Credits
                       </span>
                       <span className="text-xs bg-neutral-lightest border border-neutral-light py-0.5 px-2 rounded">
-                        {course.isCore ? 'Core' : 'Elective'}
+                        {course.isCore ? 'Core' : course.electiveGroup ? `Elective · ${course.electiveGroup}` : 'Elective'}
                       </span>
+                      {getCoverageBadge(course)}
                     </div>
                   </div>
                   <div className="flex space-x-1">
@@ -164,6 +204,8 @@ export default function CourseManagement({ onAddCourse, onEditCourse }: CourseMa
           )}
         </div>
       </CardContent>
+
+      <CurriculumView isOpen={isCurriculumOpen} onClose={() => setIsCurriculumOpen(false)} />
     </Card>
   );
 }
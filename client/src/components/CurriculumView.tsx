@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { Course, Program } from "@shared/schema";
+import { getCurriculumLinks, getCurriculumWarnings } from "@shared/curriculum";
+import { getProgramSemesters, isActiveProgram } from "@shared/programs";
+import { useCourseData } from "@/hooks/useCourseData";
+
+interface CurriculumViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// A program's courses semester by semester, with what each one needs
+export default function CurriculumView({ isOpen, onClose }: CurriculumViewProps) {
+  const [programId, setProgramId] = useState<number | undefined>();
+  const { courses, getCourseById } = useCourseData();
+
+  const { data: allPrograms = [] } = useQuery<Program[]>({
+    queryKey: ['/api/programs'],
+  });
+  const programs = allPrograms.filter(isActiveProgram);
+
+  const program = programs.find(p => p.id === programId);
+
+  useEffect(() => {
+    if (programs.length > 0 && !program) {
+      setProgramId(programs[0].id);
+    }
+  }, [programs, program]);
+
+  const programCourses = courses.filter(course => course.programId === programId);
+  const links = getCurriculumLinks(courses);
+  const warnings = getCurriculumWarnings(courses)
+    .filter(warning => programCourses.some(course => course.id === warning.courseId));
+
+  const renderRequisites = (course: Course, type: 'prerequisite' | 'corequisite', label: string) => {
+    const codes = links
+      .filter(link => link.courseId === course.id && link.type === type)
+      .map(link => getCourseById(link.requisiteId)?.code || 'Unknown Course');
+
+    if (codes.length === 0) return null;
+    return <div className="text-xs text-neutral-dark">{label}: {codes.join(', ')}</div>;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="font-display font-semibold text-lg text-neutral-darkest">
+            Curriculum
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select
+            value={programId?.toString()}
+            onValueChange={(value) => setProgramId(Number(value))}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select a program" />
+            </SelectTrigger>
+            <SelectContent>
+              {programs.map((p) => (
+                <SelectItem key={p.id} value={p.id.toString()}>
+                  {p.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {warnings.length > 0 && (
+            <div className="bg-orange-50 border-l-4 border-warning p-3 rounded-md space-y-1">
+              {warnings.map((warning) => (
+                <p key={`${warning.courseId}-${warning.requisiteId}-${warning.type}`} className="text-sm text-neutral-darkest">
+                  {warning.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-3 overflow-x-auto max-h-[60vh] pb-2">
+            {(program ? getProgramSemesters(program) : []).map((semester) => (
+              <div key={semester} className="min-w-[180px] flex-1 space-y-2">
+                <div className="text-sm font-medium text-neutral-dark">Semester {semester}</div>
+                {programCourses
+                  .filter(course => course.semester === semester)
+                  .map((course) => (
+                    <div
+                      key={course.id}
+                      className={`rounded-md border p-2 ${
+                        warnings.some(warning => warning.courseId === course.id)
+                          ? 'border-warning bg-orange-50'
+                          : 'border-neutral-light bg-white'
+                      }`}
+                    >
+                      <div className="font-medium text-sm text-neutral-darkest">{course.code}</div>
+                      <div className="text-xs text-neutral-dark mb-1">{course.name}</div>
+                      {renderRequisites(course, 'prerequisite', 'Needs')}
+                      {renderRequisites(course, 'corequisite', 'With')}
+                    </div>
+                  ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
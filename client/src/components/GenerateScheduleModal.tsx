@@ -0,0 +1,162 @@
+import { useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTeacherData } from "@/hooks/useTeacherData";
+import { useCourseData } from "@/hooks/useCourseData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useTermData } from "@/hooks/useTermData";
+import { InsertSchedule } from "@shared/schema";
+import { formatTimeSlot } from "@/utils/scheduleUtils";
+
+interface GeneratedTimetable {
+  termId: number;
+  programId: number;
+  semester: number;
+  sectionId: number | null;
+  schedules: InsertSchedule[];
+  unplaced: { courseId: number; sessionsMissing: number; reason: string }[];
+}
+
+interface GenerateScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  programId?: number;
+  semester: number;
+  sectionId: number | null;
+}
+
+export default function GenerateScheduleModal({ isOpen, onClose, programId, semester, sectionId }: GenerateScheduleModalProps) {
+  const { toast } = useToast();
+  const { getTeacherById } = useTeacherData();
+  const { getCourseById } = useCourseData();
+  const { timeSlots } = useTimeSlots();
+  const { currentTermId } = useTermData();
+
+  const generateMutation = useMutation({
+    mutationFn: async (): Promise<GeneratedTimetable> => {
+      const response = await apiRequest("POST", "/api/schedules/generate", { termId: currentTermId, programId, semester, sectionId });
+      return await response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to generate a timetable. Please try again.",
+        variant: "destructive",
+      });
+      console.error("Error generating timetable:", error);
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async (schedules: InsertSchedule[]) => {
+      const response = await apiRequest("POST", "/api/schedules/bulk", schedules);
+      return await response.json();
+    },
+    onSuccess: (created: unknown[]) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      toast({
+        title: "Timetable applied",
+        description: `${created.length} classes have been added to the schedule.`,
+        variant: "default",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to apply the generated timetable. Please try again.",
+        variant: "destructive",
+      });
+      console.error("Error applying generated timetable:", error);
+    },
+  });
+
+  // Request a fresh proposal every time the modal is opened
+  const generate = generateMutation.mutate;
+  useEffect(() => {
+    if (isOpen && programId && currentTermId) {
+      generate();
+    }
+  }, [isOpen, currentTermId, programId, semester, sectionId, generate]);
+
+  const proposal = generateMutation.data;
+  const proposedSchedules = proposal?.schedules || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display font-semibold text-lg text-neutral-darkest">
+            Generated Timetable
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="p-4 max-h-[60vh] overflow-y-auto">
+          {generateMutation.isPending ? (
+            <div className="text-center py-6 text-neutral-dark">Generating timetable...</div>
+          ) : !proposal ? (
+            <div className="text-center py-6 text-neutral-dark">Select a program to generate a timetable.</div>
+          ) : (
+            <>
+              <h4 className="font-medium text-neutral-darkest mb-2">Proposed Classes ({proposedSchedules.length})</h4>
+              {proposedSchedules.length === 0 ? (
+                <div className="text-sm text-neutral-dark italic p-3">
+                  Nothing to add. Every course already has its periods placed.
+                </div>
+              ) : (
+                <div className="space-y-2 mb-4">
+                  {proposedSchedules.map((schedule, index) => (
+                    <div key={index} className="border border-neutral-light p-3 rounded-md flex justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-neutral-darkest">
+                          {getCourseById(schedule.courseId)?.name || 'Unknown Course'}
+                        </div>
+                        <div className="text-xs text-neutral-dark">
+                          {getTeacherById(schedule.teacherId)?.name || 'Unknown Teacher'}
+                        </div>
+                      </div>
+                      <div className="text-sm text-neutral-dark">
+                        {formatTimeSlot(schedule.dayOfWeek, schedule.timeSlot, timeSlots)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {proposal.unplaced.length > 0 && (
+                <>
+                  <h4 className="font-medium text-neutral-darkest mb-2">Could Not Place</h4>
+                  <ul className="list-disc list-inside text-sm text-error">
+                    {proposal.unplaced.map((item) => (
+                      <li key={item.courseId}>
+                        {getCourseById(item.courseId)?.name || 'Unknown Course'}: {item.sessionsMissing} period(s) missing. {item.reason}.
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="p-4 border-t border-neutral-light bg-neutral-lightest flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="default"
+            onClick={() => commitMutation.mutate(proposedSchedules)}
+            disabled={commitMutation.isPending || generateMutation.isPending || proposedSchedules.length === 0}
+          >
+            {commitMutation.isPending ? "Applying..." : "Apply Timetable"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,28 +1,48 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { 
+  Select, 
+  SelectContent, 
+  SelectItem, 
+  SelectTrigger, 
+  SelectValue 
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useScheduleData } from "@/hooks/useScheduleData";
+import { useTermData } from "@/hooks/useTermData";
 import { exportToImage } from "@/utils/exportUtils";
-import { Save, Download } from "lucide-react";
+import { getActorName, setActorName } from "@/lib/queryClient";
+import { countUnpublishedChanges } from "@shared/publishing";
+import AddTermModal from "@/components/AddTermModal";
+import { Save, Download, Plus } from "lucide-react";
 
 export default function Header() {
   const [saving, setSaving] = useState(false);
+  const [isAddTermModalOpen, setIsAddTermModalOpen] = useState(false);
+  const [actor, setActor] = useState(getActorName);
   const { toast } = useToast();
-  const { saveScheduleChanges } = useScheduleData();
+  const { saveScheduleChanges, unpublishedChanges } = useScheduleData();
+  const { terms, currentTermId, selectTerm } = useTermData();
+
+  const pendingChanges = countUnpublishedChanges(unpublishedChanges);
 
   const handleSaveChanges = async () => {
     setSaving(true);
     try {
       await saveScheduleChanges();
       toast({
-        title: "Schedule saved",
-        description: "Your class schedule has been saved successfully.",
+        title: "Schedule published",
+        description: "Viewers and exports now see the latest timetable.",
         variant: "default",
       });
     } catch (error) {
+      const hasConflicts = error instanceof Error && error.message.startsWith("409");
       toast({
-        title: "Error saving schedule",
-        description: "Failed to save your schedule changes. Please try again.",
+        title: "Error publishing schedule",
+        description: hasConflicts
+          ? "Resolve every conflict in the draft before publishing it."
+          : "Failed to publish your schedule changes. Please try again.",
         variant: "destructive",
       });
       console.error("Error saving schedule:", error);
@@ -40,9 +60,12 @@ export default function Header() {
         variant: "default",
       });
     } catch (error) {
+      const showingDraft = error instanceof Error && error.message.startsWith("Published schedule grid");
       toast({
         title: "Error exporting schedule",
-        description: "Failed to export your schedule. Please try again.",
+        description: showingDraft
+          ? "Switch the timetable to its published version to export it."
+          : "Failed to export your schedule. Please try again.",
         variant: "destructive",
       });
       console.error("Error exporting schedule:", error);
@@ -62,6 +85,43 @@ export default function Header() {
           </div>
         </div>
         <div className="flex items-center space-x-4">
+          <Input
+            className="w-36 text-sm"
+            placeholder="Your name"
+            aria-label="Your name, shown in the change history"
+            value={actor}
+            onChange={(e) => {
+              setActor(e.target.value);
+              setActorName(e.target.value);
+            }}
+          />
+          <div className="flex items-center space-x-1">
+            <Select
+              value={currentTermId?.toString() ?? ""}
+              onValueChange={(value) => selectTerm(Number(value))}
+            >
+              <SelectTrigger className="w-44 text-sm" aria-label="Academic term">
+                <SelectValue placeholder="Select a term" />
+              </SelectTrigger>
+              <SelectContent>
+                {terms.map((term) => (
+                  <SelectItem key={term.id} value={term.id.toString()}>
+                    {term.name}{term.isCurrent ? " (current)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-9 w-9 p-0"
+              onClick={() => setIsAddTermModalOpen(true)}
+              title="Add a term or roll over a timetable"
+            >
+              <Plus className="h-4 w-4" />
+              <span className="sr-only">Add Term</span>
+            </Button>
+          </div>
           <Button 
             variant="secondary" 
             className="flex items-center space-x-2 text-sm bg-secondary hover:bg-secondary-light text-white px-4 py-2"
@@ -77,10 +137,18 @@ export default function Header() {
             disabled={saving}
           >
             <Save className="h-4 w-4" />
-            <span>{saving ? "Saving..." : "Save Changes"}</span>
+            <span>{saving ? "Publishing..." : "Save Changes"}</span>
+            {pendingChanges > 0 && (
+              <span className="ml-1 rounded-full bg-white text-primary text-xs px-2">{pendingChanges}</span>
+            )}
           </Button>
         </div>
       </div>
+
+      <AddTermModal
+        isOpen={isAddTermModalOpen}
+        onClose={() => setIsAddTermModalOpen(false)}
+      />
     </header>
   );
 }
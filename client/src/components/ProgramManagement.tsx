@@ -0,0 +1,149 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Plus, Pencil, Archive, ArchiveRestore } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Program } from "@shared/schema";
+import { isActiveProgram } from "@shared/programs";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface ProgramManagementProps {
+  onAddProgram: () => void;
+  onEditProgram: (program: Program) => void;
+}
+
+export default function ProgramManagement({ onAddProgram, onEditProgram }: ProgramManagementProps) {
+  const { toast } = useToast();
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ['/api/programs'],
+  });
+
+  // Archived programs are listed last
+  const sortedPrograms = [...programs].sort((a, b) =>
+    Number(!isActiveProgram(a)) - Number(!isActiveProgram(b)) || a.code.localeCompare(b.code)
+  );
+
+  const archiveProgramMutation = useMutation({
+    mutationFn: async ({ code, archived }: { code: string; archived: boolean }) => {
+      await apiRequest("POST", `/api/programs/${code}/${archived ? 'archive' : 'restore'}`);
+      return archived;
+    },
+    onSuccess: (archived) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] });
+      toast({
+        title: archived ? "Program archived" : "Program restored",
+        description: archived
+          ? "Its courses and timetables are kept, but it is no longer offered for planning."
+          : "The program is available for planning again.",
+        variant: "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update program. Please try again.",
+        variant: "destructive",
+      });
+      console.error("Error archiving program:", error);
+    },
+  });
+
+  const handleArchiveProgram = (program: Program) => {
+    if (window.confirm(`Archive ${program.code}? It will no longer be offered for planning.`)) {
+      archiveProgramMutation.mutate({ code: program.code, archived: true });
+    }
+  };
+
+  return (
+    <Card className="bg-white rounded-lg shadow-md overflow-hidden">
+      <CardHeader className="p-4 border-b border-neutral-light bg-neutral-lightest flex justify-between items-center">
+        <CardTitle className="font-display font-semibold text-lg text-neutral-darkest">
+          Program Management
+        </CardTitle>
+        <Button
+          variant="default"
+          size="sm"
+          className="text-sm bg-primary hover:bg-primary-light text-white px-3 py-1 rounded-md flex items-center space-x-1"
+          onClick={onAddProgram}
+        >
+          <Plus className="h-3 w-3" />
+          <span>Add Program</span>
+        </Button>
+      </CardHeader>
+
+      <CardContent className="p-4">
+        <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+          {sortedPrograms.length === 0 ? (
+            <div className="text-center py-6 text-neutral-dark">
+              No programs found. Add a new program to get started.
+            </div>
+          ) : (
+            sortedPrograms.map((program) => (
+              <div
+                key={program.id}
+                className={`border border-neutral-light rounded-md p-3 hover:bg-neutral-lightest transition ${
+                  isActiveProgram(program) ? '' : 'opacity-60'
+                }`}
+              >
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-medium text-neutral-darkest">{program.code} - {program.name}</h3>
+                    {program.description && (
+                      <p className="text-sm text-neutral-dark">{program.description}</p>
+                    )}
+                    <div className="flex items-center mt-1">
+                      <span className="text-xs bg-neutral-lightest border border-neutral-light py-0.5 px-2 rounded mr-1">
+                        {program.totalSemesters} Semesters
+                      </span>
+                      {!isActiveProgram(program) && (
+                        <span className="text-xs bg-neutral-lightest border border-neutral-light py-0.5 px-2 rounded">
+                          Archived {new Date(program.archivedAt!).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-neutral hover:text-primary transition p-1"
+                      onClick={() => onEditProgram(program)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    {isActiveProgram(program) ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-neutral hover:text-error transition p-1"
+                        onClick={() => handleArchiveProgram(program)}
+                        disabled={archiveProgramMutation.isPending}
+                      >
+                        <Archive className="h-4 w-4" />
+                        <span className="sr-only">Archive</span>
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-neutral hover:text-primary transition p-1"
+                        onClick={() => archiveProgramMutation.mutate({ code: program.code, archived: false })}
+                        disabled={archiveProgramMutation.isPending}
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                        <span className="sr-only">Restore</span>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
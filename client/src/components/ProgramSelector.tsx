@@ -9,42 +9,86 @@ import {
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Program } from "@shared/schema";
+import { getProgramSemesters, isActiveProgram } from "@shared/programs";
+import { useSectionData } from "@/hooks/useSectionData";
+import { useToast } from "@/hooks/use-toast";
 
 interface ProgramSelectorProps {
   program: string;
   semester: number;
+  sectionId: number | null;
   view: 'weekly' | 'daily';
   onProgramChange: (program: string) => void;
   onSemesterChange: (semester: number) => void;
+  onSectionChange: (sectionId: number | null) => void;
   onViewChange: (view: 'weekly' | 'daily') => void;
 }
 
 export default function ProgramSelector({
   program,
   semester,
+  sectionId,
   view,
   onProgramChange,
   onSemesterChange,
+  onSectionChange,
   onViewChange
 }: ProgramSelectorProps) {
-  const { data: programs = [] } = useQuery<Program[]>({
+  const { data: allPrograms = [] } = useQuery<Program[]>({
     queryKey: ['/api/programs'],
   });
+  const programs = allPrograms.filter(isActiveProgram);
+  const { getSectionsFor, addSection, isLoading } = useSectionData();
+  const { toast } = useToast();
+
+  const currentProgram = programs.find(p => p.code === program);
+  const programId = currentProgram?.id;
+  const semesters = currentProgram ? getProgramSemesters(currentProgram) : [];
+  const sections = getSectionsFor(programId, semester);
+
+  // Sections are lettered in order: A, B, C...
+  const handleAddSection = async () => {
+    if (!programId) return;
+
+    const taken = new Set(sections.map(section => section.name));
+    let letter = 0;
+    while (taken.has(String.fromCharCode(65 + letter))) letter++;
+
+    try {
+      const section = await addSection({ programId, semester, name: String.fromCharCode(65 + letter) });
+      onSectionChange(section.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add a section. Please try again.",
+        variant: "destructive",
+      });
+      console.error("Error adding section:", error);
+    }
+  };
 
   useEffect(() => {
-    // Set default program if not set and programs are loaded
-    if (programs.length > 0 && !program) {
+    // Set default program if not set (or archived since) and programs are loaded
+    if (programs.length > 0 && !currentProgram) {
       onProgramChange(programs[0].code);
     }
-  }, [programs, program, onProgramChange]);
+  }, [programs, currentProgram, onProgramChange]);
+
+  useEffect(() => {
+    // A shorter program may not have the semester that was selected
+    if (currentProgram && semester > currentProgram.totalSemesters) {
+      onSemesterChange(1);
+    }
+  }, [currentProgram, semester, onSemesterChange]);
 
   return (
     <Card className="bg-white rounded-lg shadow-md mb-6">
       <CardContent className="p-4">
         <div className="flex flex-wrap md:flex-nowrap gap-4 items-center">
-          <div className="w-full md:w-1/3">
+          <div className="w-full md:w-1/4">
             <Label htmlFor="program" className="block text-sm font-medium text-neutral-dark mb-1">
               Program
             </Label>
@@ -62,7 +106,7 @@ export default function ProgramSelector({
             </Select>
           </div>
           
-          <div className="w-full md:w-1/3">
+          <div className="w-full md:w-1/4">
             <Label htmlFor="semester" className="block text-sm font-medium text-neutral-dark mb-1">
               Semester
             </Label>
@@ -71,7 +115,7 @@ export default function ProgramSelector({
                 <SelectValue placeholder="Select a semester" />
               </SelectTrigger>
               <SelectContent>
-                {[1, 2, 3, 4, 5, 6, 7, 8].map((sem) => (
+                {semesters.map((sem) => (
                   <SelectItem key={sem} value={sem.toString()}>
                     Semester {sem}
                   </SelectItem>
@@ -80,7 +124,43 @@ export default function ProgramSelector({
             </Select>
           </div>
           
-          <div className="w-full md:w-1/3">
+          <div className="w-full md:w-1/4">
+            <Label htmlFor="section" className="block text-sm font-medium text-neutral-dark mb-1">
+              Section
+            </Label>
+            <div className="flex gap-2">
+              <Select
+                value={sectionId?.toString() ?? 'all'}
+                onValueChange={(value) => onSectionChange(value === 'all' ? null : Number(value))}
+              >
+                <SelectTrigger id="section" className="w-full p-2 border border-neutral-light rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent">
+                  <SelectValue placeholder="Select a section" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {sections.length > 0 ? 'All sections' : 'Whole semester'}
+                  </SelectItem>
+                  {sections.map((section) => (
+                    <SelectItem key={section.id} value={section.id.toString()}>
+                      Section {section.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={handleAddSection}
+                disabled={!programId || isLoading}
+              >
+                <Plus className="h-4 w-4" />
+                <span className="sr-only">Add section</span>
+              </Button>
+            </div>
+          </div>
+          
+          <div className="w-full md:w-1/4">
             <Label htmlFor="view" className="block text-sm font-medium text-neutral-dark mb-1">
               View
             </Label>
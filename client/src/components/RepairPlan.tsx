@@ -0,0 +1,62 @@
+import { RepairFields, RepairPlan as Plan } from "@shared/repair";
+import { useScheduleData } from "@/hooks/useScheduleData";
+import { useCourseData } from "@/hooks/useCourseData";
+import { useTeacherData } from "@/hooks/useTeacherData";
+import { useRoomData } from "@/hooks/useRoomData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { formatTimeSlot } from "@/utils/scheduleUtils";
+
+interface RepairPlanProps {
+  plan: Plan;
+}
+
+// The classes an automatic repair would change, as they are now and as they would be
+export default function RepairPlan({ plan }: RepairPlanProps) {
+  const { getScheduleById } = useScheduleData();
+  const { getCourseById } = useCourseData();
+  const { getTeacherById } = useTeacherData();
+  const { getRoomById } = useRoomData();
+  const { timeSlots } = useTimeSlots();
+
+  const total = plan.resolved.length + plan.remaining.length;
+
+  const describe = (fields: RepairFields) => {
+    const room = getRoomById(fields.roomId);
+    return [
+      formatTimeSlot(fields.dayOfWeek, fields.timeSlot, timeSlots),
+      getTeacherById(fields.teacherId)?.name || 'Unknown Teacher',
+      ...(room ? [`room ${room.name}`] : [])
+    ].join(', ');
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-darkest">
+        {plan.changes.length} {plan.changes.length === 1 ? 'change clears' : 'changes clear'} {plan.resolved.length} of {total} conflicts.
+        {plan.remaining.length > 0 && ` ${plan.remaining.length} cannot be cleared automatically.`}
+        {' '}Nothing changes until you apply them.
+      </p>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-neutral-dark">
+            <th className="font-medium pb-1">Class</th>
+            <th className="font-medium pb-1">Now</th>
+            <th className="font-medium pb-1">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.changes.map((change) => (
+            <tr key={change.scheduleId} className="border-t border-neutral-light align-top">
+              <td className="py-2 pr-2 font-medium">
+                {getCourseById(getScheduleById(change.scheduleId)?.courseId)?.name || 'Unknown Course'}
+              </td>
+              <td className="py-2 pr-2 text-neutral-dark">{describe(change.before)}</td>
+              <td className="py-2">{describe(change.after)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
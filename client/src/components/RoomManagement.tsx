@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Plus, Pencil, Trash2, Search } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Room, ROOM_TYPES } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface RoomManagementProps {
+  onAddRoom: () => void;
+  onEditRoom: (room: Room) => void;
+}
+
+export default function RoomManagement({ onAddRoom, onEditRoom }: RoomManagementProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const { toast } = useToast();
+  
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ['/api/rooms'],
+  });
+
+  const deleteRoomMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/rooms/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+      toast({
+        title: "Room deleted",
+        description: "The room has been removed successfully.",
+        variant: "default",
+      });
+    },
+    onError: (error) => {
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      toast({
+        title: "Error",
+        description: status === "409"
+          ? "Classes are still held in this room. Move them to another room first."
+          : "Failed to delete room. Please try again.",
+        variant: "destructive",
+      });
+      console.error("Error deleting room:", error);
+    },
+  });
+
+  const handleDeleteRoom = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this room?")) {
+      deleteRoomMutation.mutate(id);
+    }
+  };
+
+  const filteredRooms = rooms.filter(room => 
+    room.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (room.building && room.building.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  return (
+    <Card className="bg-white rounded-lg shadow-md overflow-hidden">
+      <CardHeader className="p-4 border-b border-neutral-light bg-neutral-lightest flex justify-between items-center">
+        <CardTitle className="font-display font-semibold text-lg text-neutral-darkest">
+          Room Management
+        </CardTitle>
+        <Button 
+          variant="default" 
+          size="sm" 
+          className="text-sm bg-primary hover:bg-primary-light text-white px-3 py-1 rounded-md flex items-center space-x-1"
+          onClick={onAddRoom}
+        >
+          <Plus className="h-3 w-3" />
+          <span>Add Room</span>
+        </Button>
+      </CardHeader>
+      
+      <CardContent className="p-4">
+        <div className="mb-4">
+          <div className="relative">
+            <Input
+              type="text"
+              placeholder="Search rooms..."
+              className="w-full p-2 pl-9 border border-neutral-light rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+            <Search className="absolute left-3 top-3 h-4 w-4 text-neutral" />
+          </div>
+        </div>
+        
+        <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+          {filteredRooms.length === 0 ? (
+            <div className="text-center py-6 text-neutral-dark">
+              No rooms found. Add a new room to get started.
+            </div>
+          ) : (
+            filteredRooms.map((room) => (
+              <div key={room.id} className="border border-neutral-light rounded-md p-3 hover:bg-neutral-lightest transition">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-medium text-neutral-darkest">{room.name}</h3>
+                    <p className="text-sm text-neutral-dark">{room.building || 'No building'}</p>
+                    <div className="flex items-center mt-1">
+                      <span className="text-xs bg-neutral-lightest border border-neutral-light py-0.5 px-2 rounded mr-1">
+                        {ROOM_TYPES.find(type => type.value === room.type)?.label || room.type}
+                      </span>
+                      {room.capacity && (
+                        <span className="text-xs bg-neutral-lightest border border-neutral-light py-0.5 px-2 rounded">
+                          {room.capacity} Seats
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-neutral hover:text-primary transition p-1"
+                      onClick={() => onEditRoom(room)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-neutral hover:text-error transition p-1"
+                      onClick={() => handleDeleteRoom(room.id)}
+                      disabled={deleteRoomMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
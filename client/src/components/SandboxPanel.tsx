@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { FlaskConical } from "lucide-react";
+import { ConflictType, Schedule } from "@shared/schema";
+import { countSandboxChanges } from "@shared/sandbox";
+import { useToast } from "@/hooks/use-toast";
+import { useTermData } from "@/hooks/useTermData";
+import { useSandboxData } from "@/hooks/useSandboxData";
+import { useCourseData } from "@/hooks/useCourseData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { formatTimeSlot } from "@/utils/scheduleUtils";
+
+const CONFLICT_LABELS: { type: ConflictType | 'total'; label: string }[] = [
+  { type: 'teacher', label: 'Teacher clashes' },
+  { type: 'room', label: 'Room clashes' },
+  { type: 'group', label: 'Student group clashes' },
+  { type: 'workload', label: 'Workload limits' },
+  { type: 'total', label: 'Total' },
+];
+
+export default function SandboxPanel() {
+  const [name, setName] = useState("");
+
+  const { currentTermId } = useTermData();
+  const {
+    sandboxes,
+    activeSandbox,
+    comparison,
+    openSandbox,
+    createSandbox,
+    mergeSandbox,
+    discardSandbox,
+    isLoading
+  } = useSandboxData();
+  const { getCourseById } = useCourseData();
+  const { timeSlots } = useTimeSlots();
+  const { toast } = useToast();
+
+  // Removed classes only exist in the live timetable
+  const { data: liveSchedules = [] } = useQuery<Schedule[]>({
+    queryKey: ['/api/schedules'],
+  });
+
+  const openSandboxes = sandboxes.filter(sandbox => sandbox.status === 'open');
+
+  const handleCreate = async () => {
+    if (!currentTermId || !name.trim()) {
+      toast({
+        title: "Required fields",
+        description: "A sandbox needs a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await createSandbox({ name: name.trim(), termId: currentTermId });
+      setName("");
+      toast({
+        title: "Sandbox created",
+        description: "Changes now go to the sandbox until you go back to the live timetable.",
+        variant: "default",
+      });
+    } catch (error) {
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      toast({
+        title: "Error",
+        description: status === "409"
+          ? "A sandbox with that name already exists."
+          : "Failed to create sandbox. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!activeSandbox) return;
+
+    try {
+      await mergeSandbox(activeSandbox.id);
+      toast({
+        title: "Sandbox merged",
+        description: "Its changes are now in the live draft. Undo reverts them in one step.",
+        variant: "default",
+      });
+    } catch (error) {
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      toast({
+        title: "Cannot merge",
+        description: status === "409"
+          ? "The live timetable has changed since this sandbox was created."
+          : "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!activeSandbox) return;
+
+    try {
+      await discardSandbox(activeSandbox.id);
+      toast({
+        title: "Sandbox discarded",
+        description: "The live timetable was left as it was.",
+        variant: "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to discard sandbox. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeLiveClass = (id: number) => {
+    const schedule = liveSchedules.find(s => s.id === id);
+    if (!schedule) return `Class ${id}`;
+    const course = getCourseById(schedule.courseId);
+    return `${course?.name || 'Unknown Course'}, ${formatTimeSlot(schedule.dayOfWeek, schedule.timeSlot, timeSlots)}`;
+  };
+
+  return (
+    <Card className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
+      <CardHeader className="p-4 border-b border-neutral-light bg-neutral-lightest flex flex-row justify-between items-center">
+        <CardTitle className="font-display font-semibold text-lg text-neutral-darkest flex items-center space-x-2">
+          <FlaskConical className="h-4 w-4" />
+          <span>{activeSandbox ? `Sandbox "${activeSandbox.name}"` : 'What-if Sandbox'}</span>
+        </CardTitle>
+        {activeSandbox && (
+          <Button variant="outline" size="sm" onClick={() => openSandbox(null)}>
+            Back to Live
+          </Button>
+        )}
+      </CardHeader>
+
+      <CardContent className="p-4">
+        {!activeSandbox ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              className="w-56"
+              placeholder="Sandbox name (e.g., Without Dr. X)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button size="sm" onClick={handleCreate} disabled={isLoading || !currentTermId}>
+              Try Changes in a Sandbox
+            </Button>
+            {openSandboxes.length > 0 && (
+              <Select onValueChange={(value) => openSandbox(Number(value))}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Open a sandbox" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openSandboxes.map((sandbox) => (
+                    <SelectItem key={sandbox.id} value={sandbox.id.toString()}>
+                      {sandbox.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-neutral-dark">
+              Edits below change this sandbox only. Merge to apply them to the live draft.
+            </p>
+
+            {comparison && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <table className="text-sm">
+                  <thead>
+                    <tr className="text-left text-neutral-dark">
+                      <th className="font-medium pb-1">Conflicts</th>
+                      <th className="font-medium pb-1">Live</th>
+                      <th className="font-medium pb-1">Sandbox</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {CONFLICT_LABELS.map(({ type, label }) => (
+                      <tr key={type} className={type === 'total' ? 'font-medium' : ''}>
+                        <td>{label}</td>
+                        <td>{comparison.live[type]}</td>
+                        <td className={
+                          comparison.sandbox[type] < comparison.live[type] ? 'text-success' :
+                          comparison.sandbox[type] > comparison.live[type] ? 'text-error' : ''
+                        }>
+                          {comparison.sandbox[type]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="text-sm">
+                  <div className="font-medium text-neutral-dark mb-1">Changes from live</div>
+                  <div>{comparison.changes.added.length} classes added</div>
+                  <div>{comparison.changes.changed.length} classes moved or reassigned</div>
+                  <div>{comparison.changes.removed.length} classes removed</div>
+                  {comparison.changes.removed.length > 0 && (
+                    <ul className="list-disc list-inside mt-1 text-xs text-neutral-dark">
+                      {comparison.changes.removed.map((id) => (
+                        <li key={id}>{describeLiveClass(id)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={handleDiscard} disabled={isLoading}>
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleMerge}
+                disabled={isLoading || !comparison || countSandboxChanges(comparison.changes) === 0}
+              >
+                Merge into Live
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
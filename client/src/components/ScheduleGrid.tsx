@@ -1,61 +1,114 @@
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Plus, Wand2 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import { DAYS_OF_WEEK, TIME_SLOTS, Schedule, Teacher, Course, Program } from "@shared/schema";
+import { DAYS_OF_WEEK, Schedule, Teacher, Course, Program } from "@shared/schema";
+import { formatTimeSlotLabel } from "@shared/timeSlots";
+import { getBreakForSlot, getCoveredSlots } from "@shared/calendar";
+import { getIntakes, isAttendedByIntake } from "@shared/sections";
+import { getElectiveGroupKey } from "@shared/electives";
 import { useTeacherData } from "@/hooks/useTeacherData";
 import { useCourseData } from "@/hooks/useCourseData";
+import { useRoomData } from "@/hooks/useRoomData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useCalendar } from "@/hooks/useCalendar";
+import { useSectionData } from "@/hooks/useSectionData";
+import { useTermData } from "@/hooks/useTermData";
+import { useSandboxData } from "@/hooks/useSandboxData";
 
 interface ScheduleGridProps {
   program: string;
   semester: number;
+  sectionId: number | null;
   view: 'weekly' | 'daily';
   selectedDay?: number;
   conflicts: any[];
   onAddClass: (day: number, timeSlot: number) => void;
   onEditClass: (schedule: Schedule) => void;
+  onGenerate: () => void;
 }
 
 export default function ScheduleGrid({
   program,
   semester,
+  sectionId,
   view,
   selectedDay,
   conflicts,
   onAddClass,
-  onEditClass
+  onEditClass,
+  onGenerate
 }: ScheduleGridProps) {
   const scheduleRef = useRef<HTMLDivElement>(null);
+  // Edits go to the draft; the published version is read-only
+  const [version, setVersion] = useState<'draft' | 'published'>('draft');
+  // An open sandbox replaces the draft until it is closed
+  const { activeSandbox, comparison } = useSandboxData();
+  const isPublished = version === 'published' && !activeSandbox;
 
   const { data: currentProgram } = useQuery<Program>({
     queryKey: [`/api/programs/${program}`],
     enabled: !!program
   });
 
-  const { data: scheduleData = [] } = useQuery<Schedule[]>({
-    queryKey: [`/api/schedules`, { programId: currentProgram?.id, semester }],
+  const { data: allSchedules = [] } = useQuery<Schedule[]>({
+    queryKey: [
+      activeSandbox ? `/api/sandboxes/${activeSandbox.id}/schedules` :
+      isPublished ? `/api/schedules/published` : `/api/schedules`
+    ],
     enabled: !!currentProgram?.id && !!semester
   });
 
+  const { currentTerm } = useTermData();
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ['/api/programs'],
+  });
+
+  // A section sees its own classes and those of its whole intake, including
+  // classes the intake is combined into
+  const scheduleData = allSchedules.filter(schedule =>
+    schedule.termId === currentTerm?.id &&
+    !!currentProgram &&
+    isAttendedByIntake(schedule, currentProgram.id, semester, sectionId)
+  );
+
+  // The other intakes taking a combined class, e.g. "BIT Sem 3"
+  const getCombinedWith = (schedule: Schedule): string[] =>
+    getIntakes(schedule)
+      .filter(intake => intake.programId !== currentProgram?.id || intake.semester !== semester)
+      .map(intake => `${programs.find(p => p.id === intake.programId)?.code || 'Unknown Program'} Sem ${intake.semester}`);
+
   const { getTeacherById } = useTeacherData();
   const { getCourseById } = useCourseData();
+  const { getRoomById } = useRoomData();
+  const { timeSlots } = useTimeSlots();
+  const { calendar, teachingDays } = useCalendar();
+  const { getSectionById } = useSectionData();
+  const currentSection = getSectionById(sectionId);
 
-  // Filter days if in daily view
-  const days = view === 'weekly' ? DAYS_OF_WEEK : 
-    (selectedDay !== undefined ? [DAYS_OF_WEEK[selectedDay]] : [DAYS_OF_WEEK[0]]);
-  
+  // Only teaching days are shown; the daily view shows the selected day
   const dayIndices = view === 'weekly' ? 
-    days.map((_, index) => index) : 
-    (selectedDay !== undefined ? [selectedDay] : [0]);
+    teachingDays : 
+    (selectedDay !== undefined ? [selectedDay] : teachingDays.slice(0, 1));
 
   // Helper to find conflicts for a schedule
   const getConflictsForSchedule = (scheduleId: number) => {
+    if (isPublished) return [];
     return conflicts.filter(conflict => 
       conflict.conflictingScheduleIds.includes(scheduleId) && !conflict.resolved
     );
   };
 
+  // How a sandbox class differs from the live timetable, if it does
+  const getSandboxChange = (scheduleId: number): 'New' | 'Changed' | null => {
+    if (!activeSandbox || !comparison) return null;
+    if (comparison.changes.added.includes(scheduleId)) return 'New';
+    if (comparison.changes.changed.some(change => change.sandboxScheduleId === scheduleId)) return 'Changed';
+    return null;
+  };
+
   // Get schedule for a specific day and time slot
   const getScheduleForSlot = (dayOfWeek: number, timeSlot: number) => {
     return scheduleData.filter(schedule => 
@@ -63,11 +116,60 @@ export default function ScheduleGrid({
     );
   };
 
+  // Lay out one day's column. A multi-period class becomes a single cell spanning
+  // the rows it covers, along with any other class that starts inside it.
+  const getDayLayout = (dayOfWeek: number) => {
+    const cells = new Map<number, { rowSpan: number; schedules: Schedule[] }>();
+    const coveredRows = new Set<number>();
+    const rowsCovered = (schedules: Schedule[]) =>
+      Math.max(1, ...schedules.map(schedule => getCoveredSlots(schedule, calendar, timeSlots).length));
+
+    timeSlots.forEach((slot, rowIndex) => {
+      if (coveredRows.has(rowIndex)) return;
+
+      const starting = getScheduleForSlot(dayOfWeek, slot.id);
+      if (starting.length === 0) return;
+
+      const cell = { rowSpan: 1, schedules: [...starting] };
+      let endRow = rowIndex + rowsCovered(starting);
+
+      for (let row = rowIndex + 1; row < endRow; row++) {
+        const inner = getScheduleForSlot(dayOfWeek, timeSlots[row].id);
+        coveredRows.add(row);
+        cell.schedules.push(...inner);
+        if (inner.length > 0) endRow = Math.max(endRow, row + rowsCovered(inner));
+      }
+
+      cell.rowSpan = endRow - rowIndex;
+      cells.set(rowIndex, cell);
+    });
+
+    return { cells, coveredRows };
+  };
+
+  const dayLayouts = new Map(dayIndices.map(dayIndex => [dayIndex, getDayLayout(dayIndex)]));
+
+  // Split a cell's classes so that the parallel options of an elective group stay together
+  const getCellBlocks = (schedules: Schedule[]) => {
+    const blocks = new Map<string, { electiveGroup: string | null; schedules: Schedule[] }>();
+
+    schedules.forEach(schedule => {
+      const course = getCourseById(schedule.courseId);
+      const groupKey = course ? getElectiveGroupKey(course) : null;
+      const key = groupKey ?? `schedule-${schedule.id}`;
+      if (!blocks.has(key)) blocks.set(key, { electiveGroup: groupKey && course!.electiveGroup, schedules: [] });
+      blocks.get(key)!.schedules.push(schedule);
+    });
+
+    return Array.from(blocks.values());
+  };
+
   // Render a schedule item
   const renderScheduleItem = (schedule: Schedule) => {
     const course = getCourseById(schedule.courseId);
     const teacher = getTeacherById(schedule.teacherId);
     const hasConflict = getConflictsForSchedule(schedule.id).length > 0;
+    const sandboxChange = getSandboxChange(schedule.id);
     
     if (!course || !teacher) return null;
     
@@ -97,8 +199,10 @@ export default function ScheduleGrid({
 
     return (
       <div 
-        className={`schedule-item rounded-md ${colorClass} p-2 time-slot shadow-sm relative cursor-pointer transition transform hover:translate-y-[-2px] hover:shadow-md`}
-        onClick={() => onEditClass(schedule)}
+        className={`schedule-item rounded-md ${colorClass} p-2 time-slot shadow-sm relative ${
+          isPublished ? '' : 'cursor-pointer transition transform hover:translate-y-[-2px] hover:shadow-md'
+        }`}
+        onClick={() => !isPublished && onEditClass(schedule)}
       >
         {hasConflict && (
           <div className="absolute -top-1 -right-1 text-xs bg-error text-white rounded-full w-5 h-5 flex items-center justify-center">
@@ -108,20 +212,74 @@ export default function ScheduleGrid({
             </svg>
           </div>
         )}
+        {sandboxChange && (
+          <div className="text-[10px] uppercase tracking-wide font-semibold text-primary">{sandboxChange}</div>
+        )}
         <div className={`font-medium ${textColorClass}`}>{course.name}</div>
         <div className="text-sm text-neutral-dark">{teacher.name}</div>
-        <div className="text-xs text-neutral-dark mt-1">{schedule.roomNumber || 'No Room Assigned'}</div>
+        <div className="text-xs text-neutral-dark mt-1">{getRoomById(schedule.roomId)?.name || schedule.roomNumber || 'No Room Assigned'}</div>
+        {schedule.duration > 1 && (
+          <div className="text-xs text-neutral-dark">{schedule.duration} periods</div>
+        )}
+        {sectionId === null && schedule.sectionId !== null && schedule.programId === currentProgram?.id && (
+          <div className="text-xs text-neutral-dark">Section {getSectionById(schedule.sectionId)?.name || '?'}</div>
+        )}
+        {getCombinedWith(schedule).length > 0 && (
+          <div className="text-xs text-neutral-dark">With {getCombinedWith(schedule).join(', ')}</div>
+        )}
       </div>
     );
   };
 
   return (
-    <div ref={scheduleRef} className="schedule-grid">
+    <div ref={scheduleRef} className="schedule-grid" data-version={activeSandbox ? 'sandbox' : version}>
       <Card className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
-        <CardHeader className="p-4 border-b border-neutral-light bg-neutral-lightest">
-          <CardTitle className="font-display font-semibold text-lg text-neutral-darkest">
-            {currentProgram?.code || 'Program'} Semester {semester} {view === 'weekly' ? 'Weekly' : 'Daily'} Schedule
-          </CardTitle>
+        <CardHeader className="p-4 border-b border-neutral-light bg-neutral-lightest flex flex-row justify-between items-center">
+          <div>
+            <CardTitle className="font-display font-semibold text-lg text-neutral-darkest">
+              {currentProgram?.code || 'Program'} Semester {semester}{currentSection ? ` Section ${currentSection.name}` : ''} {view === 'weekly' ? 'Weekly' : 'Daily'} Schedule{currentTerm ? ` (${currentTerm.name})` : ''}
+              {activeSandbox ? ` · Sandbox "${activeSandbox.name}"` : ''}
+            </CardTitle>
+            {isPublished && (
+              <p className="text-xs text-neutral-dark mt-1">
+                {currentTerm?.publishedAt
+                  ? `Published ${new Date(currentTerm.publishedAt).toLocaleString()}`
+                  : 'Not published yet'}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {!activeSandbox && (
+              <div className="flex rounded-md overflow-hidden border border-neutral-light">
+                {(['draft', 'published'] as const).map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    variant={version === option ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`rounded-none text-sm ${
+                      version === option ? 'bg-primary text-white' : 'bg-white text-neutral-darkest hover:bg-neutral-lightest'
+                    }`}
+                    onClick={() => setVersion(option)}
+                  >
+                    {option === 'draft' ? 'Draft' : 'Published'}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {!isPublished && !activeSandbox && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="text-sm flex items-center space-x-1"
+                onClick={onGenerate}
+                disabled={!currentProgram}
+              >
+                <Wand2 className="h-3 w-3" />
+                <span>Generate Timetable</span>
+              </Button>
+            )}
+          </div>
         </CardHeader>
         
         <div className="overflow-x-auto">
@@ -139,49 +297,84 @@ export default function ScheduleGrid({
               </tr>
             </thead>
             <tbody>
-              {TIME_SLOTS.map((slot) => (
-                <tr key={slot.id}>
-                  <td className="p-2 border-b border-r border-neutral-light bg-neutral-lightest text-sm font-medium">
-                    <div className="text-neutral-darkest">{slot.label}</div>
-                    <div className="text-xs text-neutral-dark">Period {slot.period}</div>
-                  </td>
-                  
-                  {dayIndices.map((dayIndex) => {
-                    if (slot.id === 3 && dayIndex === 2) { // Break time row (9:00 AM - 9:20 AM)
-                      return (
-                        <td key={`${dayIndex}-break`} className="p-2 border-b border-r border-neutral-light" colSpan={view === 'weekly' ? 5 : 1}>
-                          <div className="text-center p-4 bg-neutral-lightest rounded border border-neutral-light">
-                            <span className="text-sm font-medium text-success">Break Time (9:00 AM - 9:20 AM)</span>
-                          </div>
-                        </td>
-                      );
-                    }
+              {timeSlots.map((slot, rowIndex) => {
+                if (slot.isBreak) { // Break rows span every day shown
+                  return (
+                    <tr key={slot.id}>
+                      <td className="p-2 border-b border-r border-neutral-light bg-neutral-lightest text-sm font-medium">
+                        <div className="text-neutral-darkest">{formatTimeSlotLabel(slot)}</div>
+                        <div className="text-xs text-neutral-dark">Break</div>
+                      </td>
+                      <td className="p-2 border-b border-r border-neutral-light" colSpan={dayIndices.length}>
+                        <div className="text-center p-4 bg-neutral-lightest rounded border border-neutral-light">
+                          <span className="text-sm font-medium text-success">Break Time ({formatTimeSlotLabel(slot)})</span>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                }
 
-                    const schedulesForSlot = getScheduleForSlot(dayIndex, slot.id);
+                return (
+                  <tr key={slot.id}>
+                    <td className="p-2 border-b border-r border-neutral-light bg-neutral-lightest text-sm font-medium">
+                      <div className="text-neutral-darkest">{formatTimeSlotLabel(slot)}</div>
+                      <div className="text-xs text-neutral-dark">Period {slot.period}</div>
+                    </td>
                     
-                    return (
-                      <td key={`${dayIndex}-${slot.id}`} className="p-2 border-b border-r border-neutral-light">
-                        {schedulesForSlot.length > 0 ? (
-                          schedulesForSlot.map((schedule) => (
-                            <div key={schedule.id}>
-                              {renderScheduleItem(schedule)}
+                    {dayIndices.map((dayIndex) => {
+                      const layout = dayLayouts.get(dayIndex)!;
+                      if (layout.coveredRows.has(rowIndex)) return null; // Part of a class spanning from an earlier period
+                      
+                      const cell = layout.cells.get(rowIndex);
+                      const dayBreak = getBreakForSlot(calendar, dayIndex, slot);
+                      
+                      if (dayBreak && !cell) { // Calendar break on this day only
+                        return (
+                          <td key={`${dayIndex}-${slot.id}`} className="p-2 border-b border-r border-neutral-light">
+                            <div className="text-center p-4 bg-neutral-lightest rounded border border-neutral-light">
+                              <span className="text-sm font-medium text-success">{dayBreak.label}</span>
                             </div>
-                          ))
-                        ) : (
-                          <Button
-                            variant="ghost"
-                            className="w-full h-full flex items-center justify-center text-sm text-neutral p-2 rounded-md border border-dashed border-neutral hover:bg-neutral-lightest transition min-h-[100px]"
-                            onClick={() => onAddClass(dayIndex, slot.id)}
-                          >
-                            <Plus className="h-4 w-4 mr-2" />
-                            Add Class
-                          </Button>
-                        )}
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))}
+                          </td>
+                        );
+                      }
+                      
+                      return (
+                        <td key={`${dayIndex}-${slot.id}`} className="p-2 border-b border-r border-neutral-light align-top" rowSpan={cell?.rowSpan ?? 1}>
+                          {cell ? (
+                            getCellBlocks(cell.schedules).map((block) => block.electiveGroup && block.schedules.length > 1 ? (
+                              <div key={block.schedules[0].id} className="rounded-md border border-dashed border-neutral p-1 space-y-1">
+                                <div className="text-xs font-medium text-neutral-dark px-1">{block.electiveGroup} · choose one</div>
+                                {block.schedules.map((schedule) => (
+                                  <div key={schedule.id}>
+                                    {renderScheduleItem(schedule)}
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              block.schedules.map((schedule) => (
+                                <div key={schedule.id}>
+                                  {renderScheduleItem(schedule)}
+                                </div>
+                              ))
+                            ))
+                          ) : isPublished ? (
+                            <div className="min-h-[100px]" />
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              className="w-full h-full flex items-center justify-center text-sm text-neutral p-2 rounded-md border border-dashed border-neutral hover:bg-neutral-lightest transition min-h-[100px]"
+                              onClick={() => onAddClass(dayIndex, slot.id)}
+                            >
+                              <Plus className="h-4 w-4 mr-2" />
+                              Add Class
+                            </Button>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { AuditEvent, DAYS_OF_WEEK } from "@shared/schema";
+import { getAuditFieldChanges, getAuditSourceLabel } from "@shared/audit";
+import { useTeacherData } from "@/hooks/useTeacherData";
+import { useCourseData } from "@/hooks/useCourseData";
+import { useRoomData } from "@/hooks/useRoomData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useSectionData } from "@/hooks/useSectionData";
+import { formatPeriodLabel } from "@/utils/scheduleUtils";
+
+interface ScheduleHistoryProps {
+  scheduleId: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  dayOfWeek: 'Day',
+  timeSlot: 'Start',
+  duration: 'Periods',
+  courseId: 'Course',
+  teacherId: 'Teacher',
+  roomId: 'Room',
+  roomNumber: 'Room (legacy)',
+  sectionId: 'Section',
+  programId: 'Program',
+  semester: 'Semester',
+  termId: 'Term',
+};
+
+export default function ScheduleHistory({ scheduleId }: ScheduleHistoryProps) {
+  const { data: events = [], isLoading } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit?entityType=schedule&entityId=${scheduleId}`],
+    // Fetched afresh each time the dialog opens, as any edit adds to it
+    staleTime: 0,
+  });
+
+  const { getTeacherById } = useTeacherData();
+  const { getCourseById } = useCourseData();
+  const { getRoomById } = useRoomData();
+  const { timeSlots } = useTimeSlots();
+  const { getSectionById } = useSectionData();
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined) {
+      return field === 'sectionId' ? 'Whole intake' : 'None';
+    }
+
+    const id = Number(value);
+    switch (field) {
+      case 'dayOfWeek': return DAYS_OF_WEEK[id] ?? String(value);
+      case 'timeSlot': return formatPeriodLabel(id, timeSlots);
+      case 'courseId': return getCourseById(id)?.name || `Course ${id}`;
+      case 'teacherId': return getTeacherById(id)?.name || `Teacher ${id}`;
+      case 'roomId': return getRoomById(id)?.name || `Room ${id}`;
+      case 'sectionId': return `Section ${getSectionById(id)?.name || id}`;
+      default: return String(value);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-neutral-dark">Loading history...</div>;
+  }
+
+  if (events.length === 0) {
+    return <div className="text-sm text-neutral-dark italic">No recorded changes.</div>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-40 overflow-y-auto">
+      {events.map((event) => (
+        <li key={event.id} className="text-xs border-l-2 border-neutral-light pl-2">
+          <div className="text-neutral-darkest">
+            <span className="font-medium">{event.actor}</span>
+            {' · '}{getAuditSourceLabel(event.source)}
+            {' · '}{new Date(event.createdAt).toLocaleString()}
+          </div>
+          {event.action === 'update' ? (
+            getAuditFieldChanges(event).map((change) => (
+              <div key={change.field} className="text-neutral-dark">
+                {FIELD_LABELS[change.field] || change.field}: {formatValue(change.field, change.before)} → {formatValue(change.field, change.after)}
+              </div>
+            ))
+          ) : (
+            <div className="text-neutral-dark">
+              {event.action === 'create' ? 'Added to the timetable' : 'Removed from the timetable'}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -9,7 +9,12 @@ import { apiRequest } from "@/lib/queryClient";
 import { useTeacherData } from "@/hooks/useTeacherData";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { DAYS_OF_WEEK, TIME_SLOTS } from "@shared/schema";
+import { DAYS_OF_WEEK } from "@shared/schema";
+import { formatClockTime } from "@shared/timeSlots";
+import { getTeacherWorkload } from "@shared/workload";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useCalendar } from "@/hooks/useCalendar";
+import { useScheduleData } from "@/hooks/useScheduleData";
 
 interface TeacherManagementProps {
   onAddTeacher: () => void;
@@ -19,6 +24,9 @@ interface TeacherManagementProps {
 export default function TeacherManagement({ onAddTeacher, onEditTeacher }: TeacherManagementProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const { toast } = useToast();
+  const { timeSlots, getTimeSlotById } = useTimeSlots();
+  const { calendar } = useCalendar();
+  const { schedules } = useScheduleData();
   
   const { data: teachers = [] } = useQuery<Teacher[]>({
     queryKey: ['/api/teachers'],
@@ -62,11 +70,26 @@ export default function TeacherManagement({ onAddTeacher, onEditTeacher }: Teach
   const formatTimePreference = (pref: any) => {
     if (!pref) return '';
     const day = DAYS_OF_WEEK[pref.dayOfWeek];
-    const startTimeSlot = TIME_SLOTS[pref.startTimeSlot]?.label.split(' - ')[0] || '';
-    const endTimeSlot = TIME_SLOTS[pref.endTimeSlot]?.label.split(' - ')[1] || '';
+    const startSlot = getTimeSlotById(pref.startTimeSlot);
+    const endSlot = getTimeSlotById(pref.endTimeSlot);
+    const startTimeSlot = startSlot ? formatClockTime(startSlot.startTime) : '';
+    const endTimeSlot = endSlot ? formatClockTime(endSlot.endTime) : '';
     return `${day.slice(0, 3)} ${startTimeSlot}-${endTimeSlot}`;
   };
 
+  const getWorkloadBadge = (teacher: Teacher) => {
+    const workload = getTeacherWorkload(teacher, schedules, calendar, timeSlots);
+    const className = workload.violations.length > 0
+      ? 'bg-red-50 border-red-200 text-red-800'
+      : 'bg-neutral-lightest border-neutral-light text-neutral-darkest';
+    
+    return (
+      <span className={`text-xs border py-0.5 px-2 rounded ${className}`}>
+        {workload.weeklyPeriods}{teacher.maxPeriodsPerWeek ? `/${teacher.maxPeriodsPerWeek}` : ''} periods a week
+      </span>
+    );
+  };
+
   return (
     <Card className="bg-white rounded-lg shadow-md overflow-hidden">
       <CardHeader className="p-4 border-b border-neutral-light bg-neutral-lightest flex justify-between items-center">
@@ -111,6 +134,7 @@ export default function TeacherManagement({ onAddTeacher, onEditTeacher }: Teach
                     <h3 className="font-medium text-neutral-darkest">{teacher.name}</h3>
                     <p className="text-sm text-neutral-dark">{teacher.specialization || 'No specialization'}</p>
                     <div className="flex flex-wrap items-center mt-1 gap-1">
+                      {getWorkloadBadge(teacher)}
                       {teacher.skills?.map((skill, index) => (
                         <span key={index} className="text-xs bg-blue-100 text-blue-800 py-0.5 px-2 rounded-full">
                           {skill}
@@ -0,0 +1,120 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Conflict } from "@shared/schema";
+import { isWaived } from "@shared/waivers";
+import { useCourseData } from "@/hooks/useCourseData";
+import { useScheduleData } from "@/hooks/useScheduleData";
+import { useTimeSlots } from "@/hooks/useTimeSlots";
+import { useTermData } from "@/hooks/useTermData";
+import { formatTimeSlot, getConflictTypeLabel } from "@/utils/scheduleUtils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface WaiverReportProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Every waiver still in force for the current term, soonest to expire first
+export default function WaiverReport({ isOpen, onClose }: WaiverReportProps) {
+  const { currentTermId } = useTermData();
+  const { getCourseById } = useCourseData();
+  const { getScheduleById } = useScheduleData();
+  const { timeSlots } = useTimeSlots();
+  const { toast } = useToast();
+
+  const { data: allConflicts = [] } = useQuery<Conflict[]>({
+    queryKey: ['/api/conflicts'],
+  });
+
+  const waivers = allConflicts
+    .filter(conflict => conflict.termId === currentTermId && isWaived(conflict))
+    .sort((a, b) => new Date(a.waiverExpiresAt!).getTime() - new Date(b.waiverExpiresAt!).getTime());
+
+  const revokeWaiverMutation = useMutation({
+    mutationFn: async (conflictId: number) => {
+      await apiRequest("DELETE", `/api/conflicts/${conflictId}/waiver`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      toast({
+        title: "Waiver revoked",
+        description: "The conflict is flagged again.",
+        variant: "default",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke waiver. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-display font-semibold text-lg text-neutral-darkest">
+            Waived Conflicts
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="p-4 max-h-[60vh] overflow-y-auto">
+          {waivers.length === 0 ? (
+            <div className="text-center py-6 text-neutral-dark">
+              No conflicts are waived in this term.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-dark">
+                  <th className="font-medium pb-1">Conflict</th>
+                  <th className="font-medium pb-1">Reason</th>
+                  <th className="font-medium pb-1">Waived by</th>
+                  <th className="font-medium pb-1">Expires</th>
+                  <th className="pb-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {waivers.map((conflict) => (
+                  <tr key={conflict.id} className="border-t border-neutral-light align-top">
+                    <td className="py-2 pr-2">
+                      <div className="font-medium">{getConflictTypeLabel(conflict.type)}</div>
+                      <div className="text-neutral-dark">
+                        {formatTimeSlot(conflict.dayOfWeek, conflict.timeSlot, timeSlots)}:{' '}
+                        {(conflict.conflictingScheduleIds ?? [])
+                          .map(id => getCourseById(getScheduleById(id)?.courseId)?.name || 'Unknown Course')
+                          .join(' & ')}
+                      </div>
+                      {conflict.resolved && (
+                        <div className="text-xs text-neutral-dark italic">Not currently clashing</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">{conflict.waiverReason}</td>
+                    <td className="py-2 pr-2 text-neutral-dark">{conflict.waivedBy || 'anonymous'}</td>
+                    <td className="py-2 pr-2 text-neutral-dark">
+                      {new Date(conflict.waiverExpiresAt!).toLocaleDateString()}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="link"
+                        className="text-sm text-primary px-0"
+                        onClick={() => revokeWaiverMutation.mutate(conflict.id)}
+                        disabled={revokeWaiverMutation.isPending}
+                      >
+                        Revoke
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { InstitutionCalendar, InsertInstitutionCalendar, DEFAULT_CALENDAR } from "@shared/schema";
+import { getTeachingDays } from "@shared/calendar";
+import { apiRequest } from "@/lib/queryClient";
+
+export function useCalendar() {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<InstitutionCalendar>({
+    queryKey: ['/api/calendar'],
+  });
+
+  // Fall back to the default week until the calendar has loaded
+  const calendar = data ?? { id: 0, ...DEFAULT_CALENDAR };
+
+  const updateCalendarMutation = useMutation({
+    mutationFn: async (calendarData: Partial<InsertInstitutionCalendar>) => {
+      const response = await apiRequest("PUT", "/api/calendar", calendarData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar'] });
+    },
+  });
+
+  const updateCalendar = async (calendarData: Partial<InsertInstitutionCalendar>): Promise<InstitutionCalendar> => {
+    return updateCalendarMutation.mutateAsync(calendarData);
+  };
+
+  return {
+    calendar,
+    teachingDays: getTeachingDays(calendar),
+    updateCalendar,
+    isLoading: updateCalendarMutation.isPending,
+  };
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChangeSet } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export function useChangeHistory() {
+  const queryClient = useQueryClient();
+
+  // Undoing or redoing fails when a class has been changed since
+  const onStepped = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+  };
+
+  const undoMutation = useMutation({
+    mutationFn: async (): Promise<ChangeSet> => {
+      const response = await apiRequest("POST", "/api/changes/undo");
+      return await response.json();
+    },
+    onSuccess: onStepped,
+  });
+
+  const redoMutation = useMutation({
+    mutationFn: async (): Promise<ChangeSet> => {
+      const response = await apiRequest("POST", "/api/changes/redo");
+      return await response.json();
+    },
+    onSuccess: onStepped,
+  });
+
+  return {
+    undo: undoMutation.mutateAsync,
+    redo: redoMutation.mutateAsync,
+    isLoading: undoMutation.isPending || redoMutation.isPending,
+  };
+}
@@ -1,14 +1,24 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Conflict, ConflictSuggestion, Schedule, Teacher } from "@shared/schema";
+import { Conflict, ConflictSuggestion, DetectedConflict, Schedule, Teacher } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { useTermData } from "@/hooks/useTermData";
+import { useSandboxData } from "@/hooks/useSandboxData";
 
 export function useConflictDetection() {
   const queryClient = useQueryClient();
 
-  const { data: conflicts = [] } = useQuery<Conflict[]>({
+  const { currentTermId } = useTermData();
+
+  const { data: allConflicts = [] } = useQuery<Conflict[]>({
     queryKey: ['/api/conflicts'],
   });
 
+  const conflicts = allConflicts.filter(conflict => conflict.termId === currentTermId);
+
+  // Placements made in a sandbox are checked against the sandbox's own clashes
+  const { activeSandbox, sandboxConflicts } = useSandboxData();
+  const checkedConflicts: DetectedConflict[] = activeSandbox ? sandboxConflicts : conflicts;
+
   const detectConflictsMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("GET", "/api/conflicts/detect");
@@ -56,9 +66,8 @@ export function useConflictDetection() {
     );
   };
 
-  const detectConflicts = async (): Promise<Conflict[]> => {
-    return detectConflictsMutation.mutateAsync();
-  };
+  // The mutation's own function keeps one identity across renders, so effects can depend on it
+  const detectConflicts: () => Promise<Conflict[]> = detectConflictsMutation.mutateAsync;
 
   const generateSuggestions = async (conflictId: number): Promise<ConflictSuggestion[]> => {
     return generateSuggestionsMutation.mutateAsync(conflictId);
@@ -69,13 +78,13 @@ export function useConflictDetection() {
   };
 
   const hasTeacherTimeConflict = (teacher: Teacher, dayOfWeek: number, timeSlot: number, ignoredScheduleId?: number): boolean => {
-    return conflicts.some(
+    return checkedConflicts.some(
       conflict => 
         conflict.teacherId === teacher.id && 
         conflict.dayOfWeek === dayOfWeek && 
         conflict.timeSlot === timeSlot &&
         !conflict.resolved &&
-        (!ignoredScheduleId || !conflict.conflictingScheduleIds.includes(ignoredScheduleId))
+        (!ignoredScheduleId || !conflict.conflictingScheduleIds?.includes(ignoredScheduleId))
     );
   };
 
@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Room, InsertRoom } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export function useRoomData() {
+  const queryClient = useQueryClient();
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ['/api/rooms'],
+  });
+
+  const addRoomMutation = useMutation({
+    mutationFn: async (roomData: InsertRoom) => {
+      const response = await apiRequest("POST", "/api/rooms", roomData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+    },
+  });
+
+  const updateRoomMutation = useMutation({
+    mutationFn: async ({ id, roomData }: { id: number; roomData: Partial<InsertRoom> }) => {
+      const response = await apiRequest("PUT", `/api/rooms/${id}`, roomData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+    },
+  });
+
+  const deleteRoomMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/rooms/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+    },
+  });
+
+  const getRoomById = (id: number | null | undefined): Room | undefined => {
+    if (!id) return undefined;
+    return rooms.find(room => room.id === id);
+  };
+
+  const addOrUpdateRoom = async (roomData: InsertRoom, id?: number): Promise<Room> => {
+    if (id) {
+      return updateRoomMutation.mutateAsync({ id, roomData });
+    } else {
+      return addRoomMutation.mutateAsync(roomData);
+    }
+  };
+
+  return {
+    rooms,
+    getRoomById,
+    addOrUpdateRoom,
+    deleteRoom: deleteRoomMutation.mutateAsync,
+    isLoading: addRoomMutation.isPending || updateRoomMutation.isPending || deleteRoomMutation.isPending,
+  };
+}
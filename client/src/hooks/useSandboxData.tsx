@@ -0,0 +1,114 @@
+import { createContext, useContext, useState, ReactNode } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { DetectedConflict, Sandbox } from "@shared/schema";
+import { SandboxComparison } from "@shared/sandbox";
+import { apiRequest } from "@/lib/queryClient";
+import { useTermData } from "@/hooks/useTermData";
+
+type SandboxSelection = {
+  activeSandboxId: number | null;
+  setActiveSandboxId: (id: number | null) => void;
+};
+
+const SandboxContext = createContext<SandboxSelection | null>(null);
+
+// Holds the sandbox being edited, if any, so every screen works on the same fork
+export function SandboxProvider({ children }: { children: ReactNode }) {
+  const [activeSandboxId, setActiveSandboxId] = useState<number | null>(null);
+
+  return (
+    <SandboxContext.Provider value={{ activeSandboxId, setActiveSandboxId }}>
+      {children}
+    </SandboxContext.Provider>
+  );
+}
+
+export function useSandboxData() {
+  const queryClient = useQueryClient();
+  const selection = useContext(SandboxContext);
+  const { currentTermId } = useTermData();
+
+  if (!selection) {
+    throw new Error("useSandboxData must be used within a SandboxProvider");
+  }
+
+  // Newest first
+  const { data: allSandboxes = [] } = useQuery<Sandbox[]>({
+    queryKey: ['/api/sandboxes'],
+  });
+
+  const sandboxes = allSandboxes.filter(sandbox => sandbox.termId === currentTermId);
+
+  // A sandbox stays open for editing until it is merged, discarded or another term is picked
+  const activeSandbox = sandboxes.find(
+    sandbox => sandbox.id === selection.activeSandboxId && sandbox.status === 'open'
+  );
+  const sandboxPath = activeSandbox ? `/api/sandboxes/${activeSandbox.id}` : '';
+
+  // Found afresh by the server on every fetch, so refetched after each edit
+  const { data: sandboxConflicts = [] } = useQuery<DetectedConflict[]>({
+    queryKey: [`${sandboxPath}/conflicts`],
+    enabled: !!activeSandbox,
+  });
+
+  const { data: comparison } = useQuery<SandboxComparison>({
+    queryKey: [`${sandboxPath}/compare`],
+    enabled: !!activeSandbox,
+  });
+
+  // Refreshes what a sandbox edit changes: its classes, clashes and comparison
+  const invalidateSandbox = (sandboxId: number) => {
+    ['schedules', 'conflicts', 'compare'].forEach(part => {
+      queryClient.invalidateQueries({ queryKey: [`/api/sandboxes/${sandboxId}/${part}`] });
+    });
+  };
+
+  const createSandboxMutation = useMutation({
+    mutationFn: async ({ name, termId }: { name: string; termId: number }): Promise<Sandbox> => {
+      const response = await apiRequest("POST", "/api/sandboxes", { name, termId });
+      return await response.json();
+    },
+    onSuccess: (sandbox) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sandboxes'] });
+      selection.setActiveSandboxId(sandbox.id);
+    },
+  });
+
+  // Merging fails with a 409 when the live timetable has changed since the fork
+  const mergeSandboxMutation = useMutation({
+    mutationFn: async (sandboxId: number): Promise<Sandbox> => {
+      const response = await apiRequest("POST", `/api/sandboxes/${sandboxId}/merge`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sandboxes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+      selection.setActiveSandboxId(null);
+    },
+  });
+
+  const discardSandboxMutation = useMutation({
+    mutationFn: async (sandboxId: number): Promise<Sandbox> => {
+      const response = await apiRequest("POST", `/api/sandboxes/${sandboxId}/discard`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sandboxes'] });
+      selection.setActiveSandboxId(null);
+    },
+  });
+
+  return {
+    sandboxes,
+    activeSandbox,
+    sandboxConflicts,
+    comparison,
+    openSandbox: selection.setActiveSandboxId,
+    invalidateSandbox,
+    createSandbox: createSandboxMutation.mutateAsync,
+    mergeSandbox: mergeSandboxMutation.mutateAsync,
+    discardSandbox: discardSandboxMutation.mutateAsync,
+    isLoading: createSandboxMutation.isPending || mergeSandboxMutation.isPending || discardSandboxMutation.isPending,
+  };
+}
@@ -1,55 +1,80 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Schedule, InsertSchedule } from "@shared/schema";
+import { Schedule, InsertSchedule, PublishedSchedule } from "@shared/schema";
+import { getUnpublishedChanges } from "@shared/publishing";
+import { isAttendedByIntake } from "@shared/sections";
 import { apiRequest } from "@/lib/queryClient";
+import { useTermData } from "@/hooks/useTermData";
+import { useSandboxData } from "@/hooks/useSandboxData";
 
 export function useScheduleData() {
   const queryClient = useQueryClient();
 
-  const { data: schedules = [] } = useQuery<Schedule[]>({
+  const { currentTermId } = useTermData();
+  const { activeSandbox, invalidateSandbox } = useSandboxData();
+
+  // While a sandbox is open, classes are read from and written to the sandbox
+  const schedulesPath = activeSandbox ? `/api/sandboxes/${activeSandbox.id}/schedules` : '/api/schedules';
+
+  const { data: allSchedules = [] } = useQuery<Schedule[]>({
     queryKey: ['/api/schedules'],
   });
 
+  const { data: sandboxSchedules = [] } = useQuery<Schedule[]>({
+    queryKey: [schedulesPath],
+    enabled: !!activeSandbox,
+  });
+
+  const { data: allPublishedSchedules = [] } = useQuery<PublishedSchedule[]>({
+    queryKey: ['/api/schedules/published'],
+  });
+
+  // Only the timetable of the term being planned. Publishing always
+  // compares the live draft, whatever is being edited.
+  const draftSchedules = allSchedules.filter(schedule => schedule.termId === currentTermId);
+  const schedules = activeSandbox ? sandboxSchedules : draftSchedules;
+  const publishedSchedules = allPublishedSchedules.filter(schedule => schedule.termId === currentTermId);
+  const unpublishedChanges = getUnpublishedChanges(draftSchedules, publishedSchedules);
+
+  const onScheduleChanged = () => {
+    if (activeSandbox) {
+      invalidateSandbox(activeSandbox.id);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+  };
+
   const addScheduleMutation = useMutation({
     mutationFn: async (scheduleData: InsertSchedule) => {
-      const response = await apiRequest("POST", "/api/schedules", scheduleData);
+      const response = await apiRequest("POST", schedulesPath, scheduleData);
       return await response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
-    },
+    onSuccess: onScheduleChanged,
   });
 
   const updateScheduleMutation = useMutation({
     mutationFn: async ({ id, scheduleData }: { id: number; scheduleData: Partial<InsertSchedule> }) => {
-      const response = await apiRequest("PUT", `/api/schedules/${id}`, scheduleData);
+      const response = await apiRequest("PUT", `${schedulesPath}/${id}`, scheduleData);
       return await response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
-    },
+    onSuccess: onScheduleChanged,
   });
 
   const deleteScheduleMutation = useMutation({
     mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/schedules/${id}`);
+      await apiRequest("DELETE", `${schedulesPath}/${id}`);
       return id;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
-    },
+    onSuccess: onScheduleChanged,
   });
 
   const getScheduleById = (id: number): Schedule | undefined => {
     return schedules.find(schedule => schedule.id === id);
   };
 
+  // Includes the classes the intake is combined into
   const getSchedulesByProgram = (programId: number, semester: number): Schedule[] => {
-    return schedules.filter(
-      schedule => schedule.programId === programId && schedule.semester === semester
-    );
+    return schedules.filter(schedule => isAttendedByIntake(schedule, programId, semester));
   };
 
   const addOrUpdateSchedule = async (scheduleData: InsertSchedule, id?: number): Promise<Schedule> => {
@@ -60,20 +85,39 @@ export function useScheduleData() {
     }
   };
 
+  // Publishing fails with a 409 while the draft still has unresolved conflicts
+  const publishMutation = useMutation({
+    mutationFn: async (termId: number) => {
+      const response = await apiRequest("POST", `/api/terms/${termId}/publish`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules/published'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/terms'] });
+    },
+    onSettled: () => {
+      // Publishing re-runs conflict detection over the whole draft
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+    },
+  });
+
   const saveScheduleChanges = async (): Promise<void> => {
-    // This would be implemented if there was a batch save option
-    // For now, we're saving changes as they happen
-    await queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
-    return Promise.resolve();
+    if (!currentTermId) {
+      throw new Error("No term selected");
+    }
+    await publishMutation.mutateAsync(currentTermId);
   };
 
   return {
     schedules,
+    publishedSchedules,
+    unpublishedChanges,
     getScheduleById,
     getSchedulesByProgram,
     addOrUpdateSchedule,
     deleteSchedule: deleteScheduleMutation.mutateAsync,
     saveScheduleChanges,
+    isPublishing: publishMutation.isPending,
     isLoading: addScheduleMutation.isPending || updateScheduleMutation.isPending || deleteScheduleMutation.isPending,
   };
 }
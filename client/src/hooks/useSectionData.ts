@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Section, InsertSection } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export function useSectionData() {
+  const queryClient = useQueryClient();
+
+  const { data: sections = [] } = useQuery<Section[]>({
+    queryKey: ['/api/sections'],
+  });
+
+  const addSectionMutation = useMutation({
+    mutationFn: async (sectionData: InsertSection) => {
+      const response = await apiRequest("POST", "/api/sections", sectionData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sections'] });
+    },
+  });
+
+  const deleteSectionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/sections/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sections'] });
+      // Whole-intake classes are now attended by one section fewer
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+    },
+  });
+
+  const getSectionById = (id: number | null | undefined): Section | undefined => {
+    if (!id) return undefined;
+    return sections.find(section => section.id === id);
+  };
+
+  // Sections of one program semester, in name order
+  const getSectionsFor = (programId: number | undefined, semester: number): Section[] => {
+    return sections
+      .filter(section => section.programId === programId && section.semester === semester)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  return {
+    sections,
+    getSectionById,
+    getSectionsFor,
+    addSection: addSectionMutation.mutateAsync,
+    deleteSection: deleteSectionMutation.mutateAsync,
+    isLoading: addSectionMutation.isPending || deleteSectionMutation.isPending,
+  };
+}
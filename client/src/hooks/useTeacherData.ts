@@ -26,6 +26,7 @@ export function useTeacherData() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/teachers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
     },
   });
 
@@ -0,0 +1,79 @@
+import { createContext, useContext, useState, ReactNode } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AcademicTerm, InsertAcademicTerm, Schedule } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+type TermSelection = {
+  selectedTermId: number | null;
+  setSelectedTermId: (id: number) => void;
+};
+
+const TermContext = createContext<TermSelection | null>(null);
+
+// Holds the term being planned so every screen shows the same timetable
+export function TermProvider({ children }: { children: ReactNode }) {
+  const [selectedTermId, setSelectedTermId] = useState<number | null>(null);
+
+  return (
+    <TermContext.Provider value={{ selectedTermId, setSelectedTermId }}>
+      {children}
+    </TermContext.Provider>
+  );
+}
+
+export function useTermData() {
+  const queryClient = useQueryClient();
+  const selection = useContext(TermContext);
+
+  if (!selection) {
+    throw new Error("useTermData must be used within a TermProvider");
+  }
+
+  // Terms come back in start date order
+  const { data: terms = [] } = useQuery<AcademicTerm[]>({
+    queryKey: ['/api/terms'],
+  });
+
+  const addTermMutation = useMutation({
+    mutationFn: async (termData: InsertAcademicTerm) => {
+      const response = await apiRequest("POST", "/api/terms", termData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/terms'] });
+    },
+  });
+
+  const rolloverTermMutation = useMutation({
+    mutationFn: async ({ termId, fromTermId }: { termId: number; fromTermId: number }): Promise<Schedule[]> => {
+      const response = await apiRequest("POST", `/api/terms/${termId}/rollover`, { fromTermId });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+    },
+  });
+
+  // Without a choice, open the term marked current, else the latest one
+  const currentTerm =
+    terms.find(term => term.id === selection.selectedTermId) ??
+    terms.find(term => term.isCurrent) ??
+    terms[terms.length - 1];
+
+  const getTermById = (id: number | null | undefined): AcademicTerm | undefined => {
+    if (!id) return undefined;
+    return terms.find(term => term.id === id);
+  };
+
+  return {
+    terms,
+    currentTerm,
+    currentTermId: currentTerm?.id,
+    getTermById,
+    selectTerm: selection.setSelectedTermId,
+    addTerm: addTermMutation.mutateAsync,
+    rolloverTerm: rolloverTermMutation.mutateAsync,
+    isLoading: addTermMutation.isPending || rolloverTermMutation.isPending,
+  };
+}
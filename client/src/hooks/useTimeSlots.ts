@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { TimeSlot, InsertTimeSlot } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export function useTimeSlots() {
+  const queryClient = useQueryClient();
+
+  // The server returns slots in chronological order, breaks included
+  const { data: timeSlots = [] } = useQuery<TimeSlot[]>({
+    queryKey: ['/api/utils/timeslots'],
+  });
+
+  const teachingSlots = timeSlots.filter(slot => !slot.isBreak);
+
+  const addTimeSlotMutation = useMutation({
+    mutationFn: async (timeSlotData: InsertTimeSlot) => {
+      const response = await apiRequest("POST", "/api/utils/timeslots", timeSlotData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/utils/timeslots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+    },
+  });
+
+  const updateTimeSlotMutation = useMutation({
+    mutationFn: async ({ id, timeSlotData }: { id: number; timeSlotData: Partial<InsertTimeSlot> }) => {
+      const response = await apiRequest("PUT", `/api/utils/timeslots/${id}`, timeSlotData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/utils/timeslots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+    },
+  });
+
+  const deleteTimeSlotMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/utils/timeslots/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/utils/timeslots'] });
+    },
+  });
+
+  const getTimeSlotById = (id: number | null | undefined): TimeSlot | undefined => {
+    if (id === null || id === undefined) return undefined;
+    return timeSlots.find(slot => slot.id === id);
+  };
+
+  const addOrUpdateTimeSlot = async (timeSlotData: InsertTimeSlot, id?: number): Promise<TimeSlot> => {
+    if (id !== undefined) {
+      return updateTimeSlotMutation.mutateAsync({ id, timeSlotData });
+    } else {
+      return addTimeSlotMutation.mutateAsync(timeSlotData);
+    }
+  };
+
+  return {
+    timeSlots,
+    teachingSlots,
+    getTimeSlotById,
+    addOrUpdateTimeSlot,
+    deleteTimeSlot: deleteTimeSlotMutation.mutateAsync,
+    isLoading: addTimeSlotMutation.isPending || updateTimeSlotMutation.isPending || deleteTimeSlotMutation.isPending,
+  };
+}
@@ -7,14 +7,29 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+const ACTOR_STORAGE_KEY = "pusst.actor";
+
+// The name this browser's changes are recorded under in the audit log
+export function getActorName(): string {
+  return localStorage.getItem(ACTOR_STORAGE_KEY) ?? "";
+}
+
+export function setActorName(name: string): void {
+  localStorage.setItem(ACTOR_STORAGE_KEY, name.trim());
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  const actor = getActorName();
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(actor ? { "X-Actor": actor } : {}),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
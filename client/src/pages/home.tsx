@@ -1,39 +1,68 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Conflict, Course, Program, Schedule, Teacher } from "@shared/schema";
+import { Conflict, Course, Program, Room, Schedule, Teacher } from "@shared/schema";
 import ProgramSelector from "@/components/ProgramSelector";
 import ConflictAlert from "@/components/ConflictAlert";
 import ScheduleGrid from "@/components/ScheduleGrid";
 import TeacherManagement from "@/components/TeacherManagement";
 import CourseManagement from "@/components/CourseManagement";
+import RoomManagement from "@/components/RoomManagement";
+import ProgramManagement from "@/components/ProgramManagement";
+import CalendarSettings from "@/components/CalendarSettings";
 import ConflictResolutionModal from "@/components/ConflictResolutionModal";
 import AddTeacherModal from "@/components/AddTeacherModal";
 import AddCourseModal from "@/components/AddCourseModal";
+import AddRoomModal from "@/components/AddRoomModal";
+import AddProgramModal from "@/components/AddProgramModal";
 import AddScheduleModal from "@/components/AddScheduleModal";
+import GenerateScheduleModal from "@/components/GenerateScheduleModal";
+import SandboxPanel from "@/components/SandboxPanel";
+import WaiverReport from "@/components/WaiverReport";
 import { useTeacherData } from "@/hooks/useTeacherData";
 import { useCourseData } from "@/hooks/useCourseData";
 import { useScheduleData } from "@/hooks/useScheduleData";
 import { useConflictDetection } from "@/hooks/useConflictDetection";
+import { useTermData } from "@/hooks/useTermData";
+import { useSandboxData } from "@/hooks/useSandboxData";
+import { useChangeHistory } from "@/hooks/useChangeHistory";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { isOutstanding, isWaived } from "@shared/waivers";
 
 export default function Home() {
   const [selectedProgram, setSelectedProgram] = useState("");
   const [selectedSemester, setSelectedSemester] = useState(1);
+  const [selectedSectionId, setSelectedSectionId] = useState<number | null>(null);
   const [view, setView] = useState<"weekly" | "daily">("weekly");
   const [selectedDay, setSelectedDay] = useState(0);
 
   // Modal states
   const [isConflictModalOpen, setIsConflictModalOpen] = useState(false);
+  const [isWaiverReportOpen, setIsWaiverReportOpen] = useState(false);
   const [isAddTeacherModalOpen, setIsAddTeacherModalOpen] = useState(false);
   const [isAddCourseModalOpen, setIsAddCourseModalOpen] = useState(false);
+  const [isAddRoomModalOpen, setIsAddRoomModalOpen] = useState(false);
+  const [isAddProgramModalOpen, setIsAddProgramModalOpen] = useState(false);
   const [isAddScheduleModalOpen, setIsAddScheduleModalOpen] = useState(false);
+  const [isGenerateModalOpen, setIsGenerateModalOpen] = useState(false);
   const [teacherToEdit, setTeacherToEdit] = useState<Teacher | undefined>(undefined);
   const [courseToEdit, setCourseToEdit] = useState<Course | undefined>(undefined);
+  const [roomToEdit, setRoomToEdit] = useState<Room | undefined>(undefined);
+  const [programToEdit, setProgramToEdit] = useState<Program | undefined>(undefined);
   const [scheduleToEdit, setScheduleToEdit] = useState<Schedule | undefined>(undefined);
 
   // Get data from API
-  const { data: conflicts = [] } = useQuery<Conflict[]>({
+  const { currentTermId } = useTermData();
+
+  const { data: allConflicts = [] } = useQuery<Conflict[]>({
     queryKey: ['/api/conflicts'],
   });
+
+  const conflicts = allConflicts.filter(conflict => conflict.termId === currentTermId);
+  const waivedCount = conflicts.filter(conflict => isWaived(conflict)).length;
+
+  // An open sandbox shows its own clashes, which cannot be resolved from the live list
+  const { activeSandbox, sandboxConflicts } = useSandboxData();
   
   const { data: programs = [] } = useQuery<Program[]>({
     queryKey: ['/api/programs'],
@@ -44,19 +73,59 @@ export default function Home() {
   const { addOrUpdateCourse } = useCourseData();
   const { addOrUpdateTeacher } = useTeacherData();
   const { addOrUpdateSchedule } = useScheduleData();
+  const { undo, redo } = useChangeHistory();
+  const { toast } = useToast();
 
   // Detect conflicts on initial load
   useEffect(() => {
     detectConflicts();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [detectConflicts]);
+
+  // Ctrl+Z undoes the last timetable change and Ctrl+Shift+Z redoes it,
+  // unless a form field has focus and should handle its own text undo.
+  // Sandbox edits are not change sets, so the keys do nothing in a sandbox.
+  useEffect(() => {
+    const handleKeyDown = async (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (activeSandbox) return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      e.preventDefault();
+      const redoing = e.shiftKey;
+
+      try {
+        const changeSet = redoing ? await redo() : await undo();
+        toast({
+          title: redoing ? "Change redone" : "Change undone",
+          description: changeSet.description,
+          variant: "default",
+        });
+      } catch (error) {
+        const status = error instanceof Error ? error.message.slice(0, 3) : "";
+        toast({
+          title: redoing ? "Cannot redo" : "Cannot undo",
+          description: status === "404"
+            ? `There is nothing to ${redoing ? "redo" : "undo"}.`
+            : status === "409"
+            ? "A class in that change has been edited since."
+            : "Something went wrong. Please try again.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, toast, activeSandbox]);
 
   const handleProgramChange = (program: string) => {
     setSelectedProgram(program);
+    setSelectedSectionId(null);
   };
 
   const handleSemesterChange = (semester: number) => {
     setSelectedSemester(semester);
+    setSelectedSectionId(null);
   };
 
   const handleViewChange = (newView: "weekly" | "daily") => {
@@ -94,29 +163,65 @@ export default function Home() {
     setIsAddCourseModalOpen(true);
   };
 
+  const handleOpenAddRoom = () => {
+    setRoomToEdit(undefined);
+    setIsAddRoomModalOpen(true);
+  };
+
+  const handleOpenEditRoom = (room: Room) => {
+    setRoomToEdit(room);
+    setIsAddRoomModalOpen(true);
+  };
+
+  const handleOpenAddProgram = () => {
+    setProgramToEdit(undefined);
+    setIsAddProgramModalOpen(true);
+  };
+
+  const handleOpenEditProgram = (program: Program) => {
+    setProgramToEdit(program);
+    setIsAddProgramModalOpen(true);
+  };
+
   return (
     <main className="container mx-auto px-4 py-6">
       <ProgramSelector
         program={selectedProgram}
         semester={selectedSemester}
+        sectionId={selectedSectionId}
         view={view}
         onProgramChange={handleProgramChange}
         onSemesterChange={handleSemesterChange}
+        onSectionChange={setSelectedSectionId}
         onViewChange={handleViewChange}
       />
 
-      {conflicts.filter(c => !c.resolved).length > 0 && (
+      <SandboxPanel />
+
+      {!activeSandbox && conflicts.filter(c => isOutstanding(c)).length > 0 && (
         <ConflictAlert onShowResolution={() => setIsConflictModalOpen(true)} />
       )}
 
+      {!activeSandbox && waivedCount > 0 && (
+        <Button
+          variant="link"
+          className="text-sm text-neutral-dark px-0 mb-4"
+          onClick={() => setIsWaiverReportOpen(true)}
+        >
+          {waivedCount} waived {waivedCount === 1 ? 'conflict' : 'conflicts'}
+        </Button>
+      )}
+
       <ScheduleGrid
         program={selectedProgram}
         semester={selectedSemester}
+        sectionId={selectedSectionId}
         view={view}
         selectedDay={selectedDay}
-        conflicts={conflicts}
+        conflicts={activeSandbox ? sandboxConflicts : conflicts}
         onAddClass={handleAddClass}
         onEditClass={handleEditClass}
+        onGenerate={() => setIsGenerateModalOpen(true)}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
@@ -128,6 +233,15 @@ export default function Home() {
           onAddCourse={handleOpenAddCourse}
           onEditCourse={handleOpenEditCourse}
         />
+        <RoomManagement
+          onAddRoom={handleOpenAddRoom}
+          onEditRoom={handleOpenEditRoom}
+        />
+        <ProgramManagement
+          onAddProgram={handleOpenAddProgram}
+          onEditProgram={handleOpenEditProgram}
+        />
+        <CalendarSettings />
       </div>
 
       {/* Modals */}
@@ -136,6 +250,11 @@ export default function Home() {
         onClose={() => setIsConflictModalOpen(false)} 
       />
 
+      <WaiverReport
+        isOpen={isWaiverReportOpen}
+        onClose={() => setIsWaiverReportOpen(false)}
+      />
+
       <AddTeacherModal
         isOpen={isAddTeacherModalOpen}
         onClose={() => setIsAddTeacherModalOpen(false)}
@@ -148,6 +267,18 @@ export default function Home() {
         courseToEdit={courseToEdit}
       />
       
+      <AddRoomModal
+        isOpen={isAddRoomModalOpen}
+        onClose={() => setIsAddRoomModalOpen(false)}
+        roomToEdit={roomToEdit}
+      />
+
+      <AddProgramModal
+        isOpen={isAddProgramModalOpen}
+        onClose={() => setIsAddProgramModalOpen(false)}
+        programToEdit={programToEdit}
+      />
+      
       <AddScheduleModal
         isOpen={isAddScheduleModalOpen}
         onClose={() => setIsAddScheduleModalOpen(false)}
@@ -156,6 +287,15 @@ export default function Home() {
         scheduleToEdit={scheduleToEdit}
         programId={selectedProgram ? programs.find((p: Program) => p.code === selectedProgram)?.id : undefined}
         semester={selectedSemester}
+        sectionId={selectedSectionId}
+      />
+
+      <GenerateScheduleModal
+        isOpen={isGenerateModalOpen}
+        onClose={() => setIsGenerateModalOpen(false)}
+        programId={selectedProgram ? programs.find((p: Program) => p.code === selectedProgram)?.id : undefined}
+        semester={selectedSemester}
+        sectionId={selectedSectionId}
       />
     </main>
   );
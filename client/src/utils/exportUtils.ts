@@ -1,13 +1,14 @@
 import { toPng } from 'html-to-image';
 
 /**
- * Exports the schedule grid to an image file
+ * Exports the schedule grid to an image file. Only the published timetable is
+ * ever exported, never a draft.
  */
 export const exportToImage = async (): Promise<void> => {
-  const element = document.querySelector('.schedule-grid');
+  const element = document.querySelector('.schedule-grid[data-version="published"]');
   
   if (!element) {
-    throw new Error('Schedule grid element not found');
+    throw new Error('Published schedule grid element not found');
   }
   
   try {
@@ -1,11 +1,14 @@
-import { Schedule, DAYS_OF_WEEK, TIME_SLOTS } from "@shared/schema";
+import { Schedule, ConflictType, TimeSlot, InstitutionCalendar, DAYS_OF_WEEK } from "@shared/schema";
+import { formatTimeSlotLabel } from "@shared/timeSlots";
+import { getBreakForSlot } from "@shared/calendar";
 
 /**
  * Formats a schedule time slot to a readable string
  */
-export const formatTimeSlot = (dayOfWeek: number, timeSlot: number): string => {
+export const formatTimeSlot = (dayOfWeek: number, timeSlot: number, timeSlots: TimeSlot[]): string => {
   const day = DAYS_OF_WEEK[dayOfWeek] || 'Unknown';
-  const time = TIME_SLOTS.find(slot => slot.id === timeSlot)?.label || 'Unknown time';
+  const slot = timeSlots.find(slot => slot.id === timeSlot);
+  const time = slot ? formatTimeSlotLabel(slot) : 'Unknown time';
   
   return `${day} at ${time}`;
 };
@@ -47,18 +50,38 @@ export const getSchedulesForTeacher = (
 /**
  * Formats a period label (e.g., "Period 1")
  */
-export const formatPeriodLabel = (timeSlotId: number): string => {
-  const slot = TIME_SLOTS.find(slot => slot.id === timeSlotId);
+export const formatPeriodLabel = (timeSlotId: number, timeSlots: TimeSlot[]): string => {
+  const slot = timeSlots.find(slot => slot.id === timeSlotId);
   if (!slot) return 'Unknown Period';
+  if (slot.isBreak) return 'Break';
   
   return `Period ${slot.period}`;
 };
 
 /**
- * Checks if a time slot is the break time slot (9:00 AM - 9:20 AM)
+ * Checks if a time slot is a break on a given day, either in the bell schedule
+ * or because an institution calendar break overlaps it
  */
-export const isBreakTimeSlot = (timeSlotId: number): boolean => {
-  // In our design, the break is between time slots 2 and 3
-  // This function can be adjusted based on how break is defined in your schema
-  return false;
+export const isBreakTimeSlot = (
+  timeSlotId: number,
+  dayOfWeek: number,
+  timeSlots: TimeSlot[],
+  calendar: Pick<InstitutionCalendar, 'teachingDays' | 'breaks'>
+): boolean => {
+  const slot = timeSlots.find(slot => slot.id === timeSlotId);
+  if (!slot) return false;
+  
+  return slot.isBreak || !!getBreakForSlot(calendar, dayOfWeek, slot);
+};
+
+/**
+ * Gets a short label for a conflict type (e.g., "Teacher clash")
+ */
+export const getConflictTypeLabel = (type: ConflictType): string => {
+  switch (type) {
+    case 'room': return 'Room clash';
+    case 'group': return 'Student group clash';
+    case 'workload': return 'Teacher overload';
+    default: return 'Teacher clash';
+  }
 };
@@ -1,5 +1,6 @@
 import { migrate } from 'drizzle-orm/postgres-js/migrator';
 import { db, pool } from '../server/db';
+import { DEFAULT_PROGRAMS, programs } from '../shared/schema';
 
 // This script pushes the schema to the database
 async function main() {
@@ -14,7 +15,17 @@ async function main() {
         name TEXT NOT NULL,
         code TEXT NOT NULL UNIQUE,
         description TEXT,
-        total_semesters INTEGER NOT NULL DEFAULT 8
+        total_semesters INTEGER NOT NULL DEFAULT 8,
+        archived_at TIMESTAMP
+      );
+      ALTER TABLE programs ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+
+      -- Sections
+      CREATE TABLE IF NOT EXISTS sections (
+        id SERIAL PRIMARY KEY,
+        program_id INTEGER NOT NULL REFERENCES programs(id),
+        semester INTEGER NOT NULL,
+        name TEXT NOT NULL
       );
 
       -- Teachers
@@ -23,8 +34,14 @@ async function main() {
         name TEXT NOT NULL,
         specialization TEXT,
         skills TEXT[],
-        time_preferences JSONB
+        time_preferences JSONB,
+        max_periods_per_day INTEGER,
+        max_periods_per_week INTEGER,
+        max_consecutive_periods INTEGER
       );
+      ALTER TABLE teachers ADD COLUMN IF NOT EXISTS max_periods_per_day INTEGER;
+      ALTER TABLE teachers ADD COLUMN IF NOT EXISTS max_periods_per_week INTEGER;
+      ALTER TABLE teachers ADD COLUMN IF NOT EXISTS max_consecutive_periods INTEGER;
 
       -- Courses
       CREATE TABLE IF NOT EXISTS courses (
@@ -33,45 +50,225 @@ async function main() {
         code TEXT NOT NULL,
         description TEXT,
         credits INTEGER NOT NULL,
+        weekly_periods INTEGER,
         color TEXT NOT NULL,
         is_core BOOLEAN NOT NULL DEFAULT false,
+        elective_group TEXT,
         program_id INTEGER NOT NULL REFERENCES programs(id),
         semester INTEGER NOT NULL,
-        teacher_id INTEGER REFERENCES teachers(id)
+        teacher_id INTEGER REFERENCES teachers(id),
+        prerequisite_ids INTEGER[] NOT NULL DEFAULT '{}',
+        corequisite_ids INTEGER[] NOT NULL DEFAULT '{}'
+      );
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS weekly_periods INTEGER;
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS elective_group TEXT;
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS prerequisite_ids INTEGER[] NOT NULL DEFAULT '{}';
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS corequisite_ids INTEGER[] NOT NULL DEFAULT '{}';
+
+      -- Time slots
+      CREATE TABLE IF NOT EXISTS time_slots (
+        id SERIAL PRIMARY KEY,
+        start_time TIME NOT NULL,
+        end_time TIME NOT NULL,
+        period INTEGER,
+        is_break BOOLEAN NOT NULL DEFAULT false
+      );
+
+      -- Institution calendar (a single row)
+      CREATE TABLE IF NOT EXISTS institution_calendar (
+        id SERIAL PRIMARY KEY,
+        teaching_days INTEGER[] NOT NULL,
+        breaks JSONB NOT NULL DEFAULT '[]'
+      );
+
+      -- Rooms
+      CREATE TABLE IF NOT EXISTS rooms (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        building TEXT,
+        capacity INTEGER,
+        type TEXT NOT NULL DEFAULT 'lecture'
+      );
+
+      -- Academic terms
+      CREATE TABLE IF NOT EXISTS academic_terms (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        is_current BOOLEAN NOT NULL DEFAULT false,
+        published_at TIMESTAMP
       );
+      ALTER TABLE academic_terms ADD COLUMN IF NOT EXISTS published_at TIMESTAMP;
 
       -- Schedules
       CREATE TABLE IF NOT EXISTS schedules (
         id SERIAL PRIMARY KEY,
+        term_id INTEGER REFERENCES academic_terms(id),
         program_id INTEGER NOT NULL REFERENCES programs(id),
         semester INTEGER NOT NULL,
+        section_id INTEGER REFERENCES sections(id),
         teacher_id INTEGER NOT NULL REFERENCES teachers(id),
         day_of_week INTEGER NOT NULL,
         time_slot INTEGER NOT NULL,
+        duration INTEGER NOT NULL DEFAULT 1,
         course_id INTEGER NOT NULL REFERENCES courses(id),
-        room_number TEXT
+        room_id INTEGER REFERENCES rooms(id),
+        room_number TEXT,
+        shared_with JSONB NOT NULL DEFAULT '[]'
+      );
+      ALTER TABLE schedules ADD COLUMN IF NOT EXISTS room_id INTEGER REFERENCES rooms(id);
+      ALTER TABLE schedules ADD COLUMN IF NOT EXISTS duration INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE schedules ADD COLUMN IF NOT EXISTS section_id INTEGER REFERENCES sections(id);
+      ALTER TABLE schedules ADD COLUMN IF NOT EXISTS term_id INTEGER REFERENCES academic_terms(id);
+      ALTER TABLE schedules ADD COLUMN IF NOT EXISTS shared_with JSONB NOT NULL DEFAULT '[]';
+
+      -- Published timetables, copied from the schedules of a term when it is published.
+      -- Only the term is a foreign key so that a snapshot never blocks deleting a teacher or course.
+      CREATE TABLE IF NOT EXISTS published_schedules (
+        id INTEGER PRIMARY KEY,
+        term_id INTEGER NOT NULL REFERENCES academic_terms(id),
+        program_id INTEGER NOT NULL,
+        semester INTEGER NOT NULL,
+        section_id INTEGER,
+        teacher_id INTEGER NOT NULL,
+        day_of_week INTEGER NOT NULL,
+        time_slot INTEGER NOT NULL,
+        duration INTEGER NOT NULL DEFAULT 1,
+        course_id INTEGER NOT NULL,
+        room_id INTEGER,
+        room_number TEXT,
+        shared_with JSONB NOT NULL DEFAULT '[]'
       );
+      ALTER TABLE published_schedules ADD COLUMN IF NOT EXISTS shared_with JSONB NOT NULL DEFAULT '[]';
 
       -- Conflicts
       CREATE TABLE IF NOT EXISTS conflicts (
         id SERIAL PRIMARY KEY,
-        teacher_id INTEGER NOT NULL REFERENCES teachers(id),
+        type TEXT NOT NULL DEFAULT 'teacher',
+        term_id INTEGER REFERENCES academic_terms(id),
+        teacher_id INTEGER REFERENCES teachers(id),
+        room_id INTEGER REFERENCES rooms(id),
+        program_id INTEGER REFERENCES programs(id),
+        semester INTEGER,
+        section_id INTEGER REFERENCES sections(id),
+        workload_limit TEXT,
         day_of_week INTEGER NOT NULL,
         time_slot INTEGER NOT NULL,
         conflicting_schedule_ids INTEGER[],
         resolved BOOLEAN NOT NULL DEFAULT false,
-        suggestions JSONB
+        suggestions JSONB,
+        waiver_reason TEXT,
+        waived_by TEXT,
+        waived_at TIMESTAMP,
+        waiver_expires_at TIMESTAMP
       );
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'teacher';
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS room_id INTEGER REFERENCES rooms(id);
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS program_id INTEGER REFERENCES programs(id);
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS semester INTEGER;
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS workload_limit TEXT;
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS section_id INTEGER REFERENCES sections(id);
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS term_id INTEGER REFERENCES academic_terms(id);
+      ALTER TABLE conflicts ALTER COLUMN teacher_id DROP NOT NULL;
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS waiver_reason TEXT;
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS waived_by TEXT;
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS waived_at TIMESTAMP;
+      ALTER TABLE conflicts ADD COLUMN IF NOT EXISTS waiver_expires_at TIMESTAMP;
+
+      -- Audit log, appended to on every change to a class, course or teacher
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id SERIAL PRIMARY KEY,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual',
+        actor TEXT NOT NULL,
+        change_set_id INTEGER,
+        before JSONB,
+        after JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+      ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS change_set_id INTEGER;
+
+      -- Change sets: undoable units of timetable work, one stack per actor
+      CREATE TABLE IF NOT EXISTS change_sets (
+        id SERIAL PRIMARY KEY,
+        actor TEXT NOT NULL,
+        description TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'applied',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      -- Sandboxes: private forks of a term's timetable for trying out changes
+      CREATE TABLE IF NOT EXISTS sandboxes (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        term_id INTEGER NOT NULL REFERENCES academic_terms(id),
+        status TEXT NOT NULL DEFAULT 'open',
+        created_by TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      -- Sandbox classes. The live class a forked one came from may since have been deleted.
+      CREATE TABLE IF NOT EXISTS sandbox_schedules (
+        id SERIAL PRIMARY KEY,
+        sandbox_id INTEGER NOT NULL REFERENCES sandboxes(id),
+        source_schedule_id INTEGER,
+        term_id INTEGER NOT NULL REFERENCES academic_terms(id),
+        program_id INTEGER NOT NULL,
+        semester INTEGER NOT NULL,
+        section_id INTEGER,
+        teacher_id INTEGER NOT NULL,
+        day_of_week INTEGER NOT NULL,
+        time_slot INTEGER NOT NULL,
+        duration INTEGER NOT NULL DEFAULT 1,
+        course_id INTEGER NOT NULL,
+        room_id INTEGER,
+        room_number TEXT,
+        shared_with JSONB NOT NULL DEFAULT '[]'
+      );
+      ALTER TABLE sandbox_schedules ADD COLUMN IF NOT EXISTS shared_with JSONB NOT NULL DEFAULT '[]';
+    `);
+
+    // Insert default programs, the same ones the in-memory storage starts with.
+    // Databases seeded before then call the AI program BTech-AI.
+    await db.execute(`
+      UPDATE programs SET code = 'BTAI'
+      WHERE code = 'BTech-AI' AND NOT EXISTS (SELECT 1 FROM programs WHERE code = 'BTAI');
+    `);
+    await db.insert(programs).values(DEFAULT_PROGRAMS).onConflictDoNothing({ target: programs.code });
+
+    // Insert the default bell schedule, keeping the slot ids existing schedules use
+    await db.execute(`
+      INSERT INTO time_slots (id, start_time, end_time, period, is_break)
+      VALUES
+        (0, '06:30', '07:20', 1, false),
+        (1, '07:20', '08:10', 2, false),
+        (2, '08:10', '09:00', 3, false),
+        (3, '09:20', '10:10', 4, false),
+        (4, '10:10', '11:00', 5, false),
+        (5, '09:00', '09:20', NULL, true)
+      ON CONFLICT (id) DO NOTHING;
+      SELECT setval('time_slots_id_seq', GREATEST((SELECT MAX(id) FROM time_slots), 1));
+    `);
+
+    // Insert the default calendar: Sunday to Friday
+    await db.execute(`
+      INSERT INTO institution_calendar (teaching_days, breaks)
+      SELECT ARRAY[0, 1, 2, 3, 4, 5], '[]'
+      WHERE NOT EXISTS (SELECT 1 FROM institution_calendar);
     `);
 
-    // Insert default programs
+    // Insert a current term and move timetables planned before terms existed into it
     await db.execute(`
-      INSERT INTO programs (name, code, description)
-      VALUES 
-        ('Bachelor of Computer Applications', 'BCA', 'A comprehensive program focusing on computer applications and software development.'),
-        ('Bachelor of Information Technology', 'BIT', 'A program focusing on information technology and systems.'),
-        ('Bachelor of Technology in Artificial Intelligence', 'BTech-AI', 'An advanced program focusing on artificial intelligence and machine learning.')
-      ON CONFLICT (code) DO NOTHING;
+      INSERT INTO academic_terms (name, start_date, end_date, is_current)
+      SELECT 'Current Term', CURRENT_DATE, CURRENT_DATE + INTERVAL '6 months', true
+      WHERE NOT EXISTS (SELECT 1 FROM academic_terms);
+      UPDATE schedules SET term_id = (SELECT id FROM academic_terms ORDER BY id LIMIT 1) WHERE term_id IS NULL;
+      UPDATE conflicts SET term_id = (SELECT id FROM academic_terms ORDER BY id LIMIT 1) WHERE term_id IS NULL;
+      ALTER TABLE schedules ALTER COLUMN term_id SET NOT NULL;
+      ALTER TABLE conflicts ALTER COLUMN term_id SET NOT NULL;
     `);
 
     console.log('Schema pushed successfully!');
@@ -1,56 +1,158 @@
-import { eq, and, inArray, sql } from 'drizzle-orm';
-import { v4 as uuidv4 } from 'uuid';
-import { db } from './db';
+import { eq, and, or, desc, gte, lte, inArray, sql } from 'drizzle-orm';
+import { db, type Database } from './db';
 import { 
-  programs, courses, teachers, schedules, conflicts,
-  type Program, type Course, type Teacher, type Schedule, type Conflict,
-  type InsertProgram, type InsertCourse, type InsertTeacher, type InsertSchedule, type InsertConflict,
+  programs, academicTerms, sections, courses, teachers, rooms, timeSlots, institutionCalendar, schedules, publishedSchedules, conflicts, auditEvents, changeSets, sandboxes, sandboxSchedules,
+  type Program, type AcademicTerm, type Section, type Course, type Teacher, type Room, type TimeSlot, type InstitutionCalendar, type Schedule, type PublishedSchedule, type Conflict, type AuditEvent, type ChangeSet, type Sandbox, type SandboxSchedule,
+  type InsertProgram, type InsertAcademicTerm, type InsertSection, type InsertCourse, type InsertTeacher, type InsertRoom, type InsertTimeSlot, type InsertInstitutionCalendar, type InsertSchedule, type InsertConflict, type InsertAuditEvent, type InsertChangeSet, type InsertSandbox, type InsertSandboxSchedule,
   type TimePreference, type ConflictSuggestion,
-  DAYS_OF_WEEK, TIME_SLOTS
+  DEFAULT_CALENDAR
 } from '@shared/schema';
-import { IStorage } from './storage';
+import { IStorage, AuditEventFilter, ConflictResolution, ConcurrentChangeError } from './storage';
+import { generateSuggestions } from './conflictSuggestions';
+import {
+  ConflictDetectionInput, ConflictScope, findConflicts, findScopedConflicts,
+  getConflictScope, isConflictInScope, reconcileConflicts
+} from './conflictDetection';
 
 export class DatabaseStorage implements IStorage {
+  private db: Database;
+
+  // Queries go to the database, or to the transaction a unit of work runs in
+  constructor(database: Database = db) {
+    this.db = database;
+  }
+
   // Program methods
   async getPrograms(): Promise<Program[]> {
-    return await db.select().from(programs);
+    return await this.db.select().from(programs);
   }
 
   async getProgramByCode(code: string): Promise<Program | undefined> {
-    const result = await db.select().from(programs).where(eq(programs.code, code));
+    const result = await this.db.select().from(programs).where(eq(programs.code, code));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createProgram(program: InsertProgram): Promise<Program> {
+    const result = await this.db.insert(programs).values(program).returning();
+    return result[0];
+  }
+
+  async updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program | undefined> {
+    const result = await this.db.update(programs)
+      .set(program)
+      .where(eq(programs.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async setProgramArchived(id: number, archived: boolean): Promise<Program | undefined> {
+    const result = await this.db.update(programs)
+      .set({ archivedAt: archived ? new Date() : null })
+      .where(eq(programs.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  // Academic term methods
+  async getTerms(): Promise<AcademicTerm[]> {
+    return await this.db.select().from(academicTerms);
+  }
+
+  async getTermById(id: number): Promise<AcademicTerm | undefined> {
+    const result = await this.db.select().from(academicTerms).where(eq(academicTerms.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createTerm(term: InsertAcademicTerm): Promise<AcademicTerm> {
+    const result = await this.db.insert(academicTerms).values(term).returning();
+    return result[0];
+  }
+
+  async updateTerm(id: number, term: Partial<InsertAcademicTerm>): Promise<AcademicTerm | undefined> {
+    const result = await this.db.update(academicTerms)
+      .set(term)
+      .where(eq(academicTerms.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async deleteTerm(id: number): Promise<boolean> {
+    await this.db.delete(publishedSchedules).where(eq(publishedSchedules.termId, id));
+    const result = await this.db.delete(academicTerms).where(eq(academicTerms.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Section methods
+  async getSections(): Promise<Section[]> {
+    return await this.db.select().from(sections);
+  }
+
+  async getSectionById(id: number): Promise<Section | undefined> {
+    const result = await this.db.select().from(sections).where(eq(sections.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getSectionsByProgram(programId: number, semester?: number): Promise<Section[]> {
+    if (semester !== undefined) {
+      return await this.db.select().from(sections).where(
+        and(
+          eq(sections.programId, programId),
+          eq(sections.semester, semester)
+        )
+      );
+    } else {
+      return await this.db.select().from(sections).where(eq(sections.programId, programId));
+    }
+  }
+
+  async createSection(section: InsertSection): Promise<Section> {
+    const result = await this.db.insert(sections).values(section).returning();
+    return result[0];
+  }
+
+  async updateSection(id: number, section: Partial<InsertSection>): Promise<Section | undefined> {
+    const result = await this.db.update(sections)
+      .set(section)
+      .where(eq(sections.id, id))
+      .returning();
     return result.length > 0 ? result[0] : undefined;
   }
 
+  async deleteSection(id: number): Promise<boolean> {
+    const result = await this.db.delete(sections).where(eq(sections.id, id)).returning();
+    return result.length > 0;
+  }
+
   // Course methods
   async getCourses(): Promise<Course[]> {
-    return await db.select().from(courses);
+    return await this.db.select().from(courses);
   }
 
   async getCourseById(id: number): Promise<Course | undefined> {
-    const result = await db.select().from(courses).where(eq(courses.id, id));
+    const result = await this.db.select().from(courses).where(eq(courses.id, id));
     return result.length > 0 ? result[0] : undefined;
   }
 
   async getCoursesByProgram(programId: number, semester?: number): Promise<Course[]> {
     if (semester !== undefined) {
-      return await db.select().from(courses).where(
+      return await this.db.select().from(courses).where(
         and(
           eq(courses.programId, programId),
           eq(courses.semester, semester)
         )
       );
     } else {
-      return await db.select().from(courses).where(eq(courses.programId, programId));
+      return await this.db.select().from(courses).where(eq(courses.programId, programId));
     }
   }
 
   async createCourse(course: InsertCourse): Promise<Course> {
-    const result = await db.insert(courses).values(course).returning();
+    const result = await this.db.insert(courses).values(course).returning();
     return result[0];
   }
 
   async updateCourse(id: number, course: Partial<InsertCourse>): Promise<Course | undefined> {
-    const result = await db.update(courses)
+    const result = await this.db.update(courses)
       .set(course)
       .where(eq(courses.id, id))
       .returning();
@@ -58,23 +160,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCourse(id: number): Promise<boolean> {
-    const result = await db.delete(courses).where(eq(courses.id, id)).returning();
+    const result = await this.db.delete(courses).where(eq(courses.id, id)).returning();
     return result.length > 0;
   }
 
   // Teacher methods
   async getTeachers(): Promise<Teacher[]> {
-    return await db.select().from(teachers);
+    return await this.db.select().from(teachers);
   }
 
   async getTeacherById(id: number): Promise<Teacher | undefined> {
-    const result = await db.select().from(teachers).where(eq(teachers.id, id));
+    const result = await this.db.select().from(teachers).where(eq(teachers.id, id));
     return result.length > 0 ? result[0] : undefined;
   }
 
   async createTeacher(teacher: InsertTeacher): Promise<Teacher> {
     // Make sure to convert preferences array properly
-    const result = await db.insert(teachers).values({
+    const result = await this.db.insert(teachers).values({
       ...teacher,
       specialization: teacher.specialization || null,
       skills: teacher.skills || null,
@@ -98,7 +200,7 @@ export class DatabaseStorage implements IStorage {
       updateData.timePreferences = teacher.timePreferences || null;
     }
     
-    const result = await db.update(teachers)
+    const result = await this.db.update(teachers)
       .set(updateData)
       .where(eq(teachers.id, id))
       .returning();
@@ -106,31 +208,118 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteTeacher(id: number): Promise<boolean> {
-    const result = await db.delete(teachers).where(eq(teachers.id, id)).returning();
+    const result = await this.db.delete(teachers).where(eq(teachers.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Room methods
+  async getRooms(): Promise<Room[]> {
+    return await this.db.select().from(rooms);
+  }
+
+  async getRoomById(id: number): Promise<Room | undefined> {
+    const result = await this.db.select().from(rooms).where(eq(rooms.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    const result = await this.db.insert(rooms).values(room).returning();
+    return result[0];
+  }
+
+  async updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined> {
+    const result = await this.db.update(rooms)
+      .set(room)
+      .where(eq(rooms.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async deleteRoom(id: number): Promise<boolean> {
+    const result = await this.db.delete(rooms).where(eq(rooms.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Time slot methods
+  async getTimeSlots(): Promise<TimeSlot[]> {
+    return await this.db.select().from(timeSlots);
+  }
+
+  async getTimeSlotById(id: number): Promise<TimeSlot | undefined> {
+    const result = await this.db.select().from(timeSlots).where(eq(timeSlots.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createTimeSlot(timeSlot: InsertTimeSlot): Promise<TimeSlot> {
+    const result = await this.db.insert(timeSlots).values(timeSlot).returning();
+    return result[0];
+  }
+
+  async updateTimeSlot(id: number, timeSlot: Partial<InsertTimeSlot>): Promise<TimeSlot | undefined> {
+    const result = await this.db.update(timeSlots)
+      .set(timeSlot)
+      .where(eq(timeSlots.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async deleteTimeSlot(id: number): Promise<boolean> {
+    const result = await this.db.delete(timeSlots).where(eq(timeSlots.id, id)).returning();
     return result.length > 0;
   }
 
+  // Institution calendar methods
+  async getCalendar(): Promise<InstitutionCalendar> {
+    const result = await this.db.select().from(institutionCalendar).limit(1);
+    if (result.length > 0) return result[0];
+
+    // The calendar is a single row, created with the defaults on first use
+    const created = await this.db.insert(institutionCalendar).values(DEFAULT_CALENDAR).returning();
+    return created[0];
+  }
+
+  async updateCalendar(calendar: Partial<InsertInstitutionCalendar>): Promise<InstitutionCalendar> {
+    const existing = await this.getCalendar();
+    const result = await this.db.update(institutionCalendar)
+      .set(calendar)
+      .where(eq(institutionCalendar.id, existing.id))
+      .returning();
+    return result[0];
+  }
+
   // Schedule methods
-  async getSchedules(): Promise<Schedule[]> {
-    return await db.select().from(schedules);
+  async getSchedules(termId?: number): Promise<Schedule[]> {
+    if (termId !== undefined) {
+      return await this.db.select().from(schedules).where(eq(schedules.termId, termId));
+    }
+    return await this.db.select().from(schedules);
   }
 
-  async getSchedulesByProgram(programId: number, semester: number): Promise<Schedule[]> {
-    return await db.select().from(schedules).where(
+  async getScheduleById(id: number): Promise<Schedule | undefined> {
+    const result = await this.db.select().from(schedules).where(eq(schedules.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getSchedulesByProgram(programId: number, semester: number, termId?: number): Promise<Schedule[]> {
+    return await this.db.select().from(schedules).where(
       and(
-        eq(schedules.programId, programId),
-        eq(schedules.semester, semester)
+        or(
+          and(eq(schedules.programId, programId), eq(schedules.semester, semester)),
+          // Classes the intake is combined into
+          sql`${schedules.sharedWith} @> ${JSON.stringify([{ programId, semester }])}::jsonb`
+        ),
+        termId !== undefined ? eq(schedules.termId, termId) : undefined
       )
     );
   }
 
   async createSchedule(schedule: InsertSchedule): Promise<Schedule> {
-    const result = await db.insert(schedules).values(schedule).returning();
+    const result = await this.db.insert(schedules).values(schedule).returning();
     return result[0];
   }
 
   async updateSchedule(id: number, schedule: Partial<InsertSchedule>): Promise<Schedule | undefined> {
-    const result = await db.update(schedules)
+    const result = await this.db.update(schedules)
       .set(schedule)
       .where(eq(schedules.id, id))
       .returning();
@@ -138,27 +327,60 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteSchedule(id: number): Promise<boolean> {
-    const result = await db.delete(schedules).where(eq(schedules.id, id)).returning();
+    const result = await this.db.delete(schedules).where(eq(schedules.id, id)).returning();
     return result.length > 0;
   }
 
+  async restoreSchedule(schedule: Schedule): Promise<Schedule> {
+    const result = await this.db.insert(schedules).values(schedule).returning();
+    return result[0];
+  }
+
+  // Published timetable methods
+  async getPublishedSchedules(termId?: number): Promise<PublishedSchedule[]> {
+    if (termId !== undefined) {
+      return await this.db.select().from(publishedSchedules).where(eq(publishedSchedules.termId, termId));
+    }
+    return await this.db.select().from(publishedSchedules);
+  }
+
+  async publishTerm(termId: number): Promise<AcademicTerm | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const draft = await tx.select().from(schedules).where(eq(schedules.termId, termId));
+
+      await tx.delete(publishedSchedules).where(eq(publishedSchedules.termId, termId));
+      if (draft.length > 0) {
+        await tx.insert(publishedSchedules).values(draft);
+      }
+
+      const result = await tx.update(academicTerms)
+        .set({ publishedAt: new Date() })
+        .where(eq(academicTerms.id, termId))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    });
+  }
+
   // Conflict methods
-  async getConflicts(): Promise<Conflict[]> {
-    return await db.select().from(conflicts);
+  async getConflicts(termId?: number): Promise<Conflict[]> {
+    if (termId !== undefined) {
+      return await this.db.select().from(conflicts).where(eq(conflicts.termId, termId));
+    }
+    return await this.db.select().from(conflicts);
   }
 
   async getConflictById(id: number): Promise<Conflict | undefined> {
-    const result = await db.select().from(conflicts).where(eq(conflicts.id, id));
+    const result = await this.db.select().from(conflicts).where(eq(conflicts.id, id));
     return result.length > 0 ? result[0] : undefined;
   }
 
   async createConflict(conflict: InsertConflict): Promise<Conflict> {
-    const result = await db.insert(conflicts).values(conflict).returning();
+    const result = await this.db.insert(conflicts).values(conflict).returning();
     return result[0];
   }
 
   async updateConflict(id: number, conflict: Partial<InsertConflict>): Promise<Conflict | undefined> {
-    const result = await db.update(conflicts)
+    const result = await this.db.update(conflicts)
       .set(conflict)
       .where(eq(conflicts.id, id))
       .returning();
@@ -166,169 +388,239 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteConflict(id: number): Promise<boolean> {
-    const result = await db.delete(conflicts).where(eq(conflicts.id, id)).returning();
+    const result = await this.db.delete(conflicts).where(eq(conflicts.id, id)).returning();
     return result.length > 0;
   }
 
-  // Special methods
-  async detectConflicts(): Promise<Conflict[]> {
-    // Get all schedules
-    const allSchedules = await this.getSchedules();
-    const teacherMap = new Map<number, Schedule[]>();
-    
-    // Group schedules by teacher
-    for (const schedule of allSchedules) {
-      if (!teacherMap.has(schedule.teacherId)) {
-        teacherMap.set(schedule.teacherId, []);
+  async applyConflictResolution({ updates, resolvedConflictIds, source, actor, changeSetId }: ConflictResolution): Promise<Schedule[]> {
+    return await this.db.transaction(async (tx) => {
+      const updated: Schedule[] = [];
+
+      for (const { id, changes } of updates) {
+        const before = await tx.select().from(schedules).where(eq(schedules.id, id));
+        // Throwing rolls back the changes already made
+        if (before.length === 0) throw new Error(`Schedule with ID ${id} not found`);
+
+        const after = await tx.update(schedules).set(changes).where(eq(schedules.id, id)).returning();
+        await tx.insert(auditEvents).values({
+          entityType: 'schedule',
+          entityId: id,
+          action: 'update',
+          source,
+          actor,
+          changeSetId,
+          before: before[0],
+          after: after[0]
+        });
+        updated.push(after[0]);
       }
-      teacherMap.get(schedule.teacherId)!.push(schedule);
-    }
-    
-    // Find conflicts
-    const newConflicts: Conflict[] = [];
-    
-    for (const [teacherId, teacherSchedules] of teacherMap.entries()) {
-      // Group schedules by day and time slot
-      const slotMap = new Map<string, Schedule[]>();
-      
-      for (const schedule of teacherSchedules) {
-        const key = `${schedule.dayOfWeek}-${schedule.timeSlot}`;
-        if (!slotMap.has(key)) {
-          slotMap.set(key, []);
-        }
-        slotMap.get(key)!.push(schedule);
+
+      if (resolvedConflictIds.length > 0) {
+        await tx.update(conflicts).set({ resolved: true }).where(inArray(conflicts.id, resolvedConflictIds));
       }
-      
-      // Find conflicts (multiple schedules in the same time slot)
-      for (const [key, slotSchedules] of slotMap.entries()) {
-        if (slotSchedules.length > 1) {
-          const [day, time] = key.split('-').map(Number);
-          const scheduleIds = slotSchedules.map(s => s.id);
-          
-          // Check if this conflict already exists in the database
-          const existingConflicts = await db.select()
-            .from(conflicts)
-            .where(
-              and(
-                eq(conflicts.teacherId, teacherId),
-                eq(conflicts.dayOfWeek, day),
-                eq(conflicts.timeSlot, time)
-              )
-            );
-          
-          if (existingConflicts.length === 0) {
-            // Create a new conflict record
-            const conflict: InsertConflict = {
-              teacherId,
-              dayOfWeek: day,
-              timeSlot: time,
-              conflictingScheduleIds: scheduleIds,
-              resolved: false,
-              suggestions: [] // Will generate these later
-            };
-            
-            const newConflict = await this.createConflict(conflict);
-            newConflicts.push(newConflict);
-          }
-        }
+      return updated;
+    });
+  }
+
+  // Audit log methods
+  async getAuditEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    const query = this.db.select().from(auditEvents).where(
+      and(
+        filter.entityType !== undefined ? eq(auditEvents.entityType, filter.entityType) : undefined,
+        filter.entityId !== undefined ? eq(auditEvents.entityId, filter.entityId) : undefined,
+        filter.actor !== undefined ? eq(auditEvents.actor, filter.actor) : undefined,
+        filter.source !== undefined ? eq(auditEvents.source, filter.source) : undefined,
+        filter.changeSetId !== undefined ? eq(auditEvents.changeSetId, filter.changeSetId) : undefined,
+        filter.since !== undefined ? gte(auditEvents.createdAt, filter.since) : undefined,
+        filter.until !== undefined ? lte(auditEvents.createdAt, filter.until) : undefined
+      )
+    ).orderBy(desc(auditEvents.id));
+
+    return filter.limit === undefined ? await query : await query.limit(filter.limit);
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const result = await this.db.insert(auditEvents).values(event).returning();
+    return result[0];
+  }
+
+  // Change set methods
+  async getChangeSets(actor: string): Promise<ChangeSet[]> {
+    return await this.db.select().from(changeSets).where(eq(changeSets.actor, actor));
+  }
+
+  async createChangeSet(changeSet: InsertChangeSet): Promise<ChangeSet> {
+    const result = await this.db.insert(changeSets).values(changeSet).returning();
+    return result[0];
+  }
+
+  async updateChangeSet(id: number, changeSet: Partial<InsertChangeSet>): Promise<ChangeSet | undefined> {
+    const result = await this.db.update(changeSets)
+      .set(changeSet)
+      .where(eq(changeSets.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  // Sandbox methods
+  async getSandboxes(): Promise<Sandbox[]> {
+    return await this.db.select().from(sandboxes);
+  }
+
+  async getSandboxById(id: number): Promise<Sandbox | undefined> {
+    const result = await this.db.select().from(sandboxes).where(eq(sandboxes.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createSandbox(sandbox: InsertSandbox): Promise<Sandbox> {
+    return await this.db.transaction(async (tx) => {
+      const result = await tx.insert(sandboxes).values(sandbox).returning();
+      const live = await tx.select().from(schedules).where(eq(schedules.termId, sandbox.termId));
+
+      if (live.length > 0) {
+        await tx.insert(sandboxSchedules).values(
+          live.map(({ id, ...schedule }) => ({ ...schedule, sandboxId: result[0].id, sourceScheduleId: id }))
+        );
       }
+      return result[0];
+    });
+  }
+
+  async updateSandbox(id: number, sandbox: Partial<InsertSandbox>): Promise<Sandbox | undefined> {
+    const result = await this.db.update(sandboxes)
+      .set(sandbox)
+      .where(eq(sandboxes.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getSandboxSchedules(sandboxId: number): Promise<SandboxSchedule[]> {
+    return await this.db.select().from(sandboxSchedules).where(eq(sandboxSchedules.sandboxId, sandboxId));
+  }
+
+  async getSandboxScheduleById(id: number): Promise<SandboxSchedule | undefined> {
+    const result = await this.db.select().from(sandboxSchedules).where(eq(sandboxSchedules.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createSandboxSchedule(schedule: InsertSandboxSchedule): Promise<SandboxSchedule> {
+    const result = await this.db.insert(sandboxSchedules).values(schedule).returning();
+    return result[0];
+  }
+
+  async updateSandboxSchedule(id: number, schedule: Partial<InsertSandboxSchedule>): Promise<SandboxSchedule | undefined> {
+    const result = await this.db.update(sandboxSchedules)
+      .set(schedule)
+      .where(eq(sandboxSchedules.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async deleteSandboxSchedule(id: number): Promise<boolean> {
+    const result = await this.db.delete(sandboxSchedules).where(eq(sandboxSchedules.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Special methods
+  async detectConflicts(touched?: Schedule[]): Promise<Conflict[]> {
+    // Classes only clash with classes of the same term
+    const termIds = touched
+      ? Array.from(new Set(touched.map(schedule => schedule.termId)))
+      : (await this.getTerms()).map(term => term.id);
+
+    const appeared: Conflict[] = [];
+    for (const termId of termIds) {
+      const scope = touched && getConflictScope(touched.filter(schedule => schedule.termId === termId));
+      appeared.push(...await this.detectTermConflicts(termId, scope));
     }
-    
-    // Generate suggestions for each new conflict
-    for (const conflict of newConflicts) {
+    return appeared;
+  }
+
+  // Brings the term's stored conflicts in line with its classes, or just those
+  // within a scope, and returns those that appeared
+  private async detectTermConflicts(termId: number, scope?: ConflictScope): Promise<Conflict[]> {
+    const input: ConflictDetectionInput = {
+      schedules: await this.getSchedules(termId),
+      teachers: await this.getTeachers(),
+      sections: await this.getSections(),
+      courses: await this.getCourses(),
+      calendar: await this.getCalendar(),
+      timeSlots: await this.getTimeSlots()
+    };
+    const found = scope ? findScopedConflicts(input, scope) : findConflicts(input);
+    const stored = (await this.getConflicts(termId)).filter(conflict => !scope || isConflictInScope(conflict, scope));
+    const { create, reopen, update, close } = reconcileConflicts(stored, found);
+
+    const { appeared, changed } = await this.db.transaction(async (tx) => {
+      if (close.length > 0) {
+        await tx.update(conflicts).set({ resolved: true }).where(inArray(conflicts.id, close));
+      }
+
+      const reopened: Conflict[] = [];
+      for (const { id, ...membership } of reopen) {
+        const result = await tx.update(conflicts)
+          .set({ ...membership, resolved: false })
+          .where(eq(conflicts.id, id))
+          .returning();
+        reopened.push(result[0]);
+      }
+
+      const updated: Conflict[] = [];
+      for (const { id, ...membership } of update) {
+        const result = await tx.update(conflicts)
+          .set(membership)
+          .where(eq(conflicts.id, id))
+          .returning();
+        updated.push(result[0]);
+      }
+
+      const created = create.length > 0
+        ? await tx.insert(conflicts)
+          .values(create.map(({ suggestions: _, ...conflict }) => ({ ...conflict, termId, suggestions: [] })))
+          .returning()
+        : [];
+
+      return { appeared: [...created, ...reopened], changed: updated };
+    });
+
+    // Suggestions depend on the classes in a conflict, so new and changed ones get fresh ones
+    for (const conflict of [...appeared, ...changed]) {
       const suggestions = await this.generateConflictSuggestions(conflict.id);
       await this.updateConflict(conflict.id, { suggestions });
     }
-    
-    return newConflicts;
+
+    return appeared;
   }
 
   async generateConflictSuggestions(conflictId: number): Promise<ConflictSuggestion[]> {
     const conflict = await this.getConflictById(conflictId);
     if (!conflict || !conflict.conflictingScheduleIds) return [];
-    
-    const suggestions: ConflictSuggestion[] = [];
-    const validSchedules = await db.select()
-      .from(schedules)
-      .where(inArray(schedules.id, conflict.conflictingScheduleIds));
-    
-    if (validSchedules.length === 0) return [];
-    
-    const allSchedules = await this.getSchedules();
-    const teacher = await this.getTeacherById(conflict.teacherId);
-    
-    // Get all existing time slot and day combinations
-    const occupiedSlots = new Set(
-      allSchedules.map(s => `${s.dayOfWeek}-${s.timeSlot}`)
-    );
-    
-    // For each conflicting schedule, try to find an empty slot
-    for (const schedule of validSchedules) {
-      // 1. Try to find empty slots
-      for (let day = 0; day < 6; day++) {
-        for (let slot = 0; slot < 5; slot++) {
-          const key = `${day}-${slot}`;
-          
-          // Skip the current conflict slot and already occupied slots
-          if (day === conflict.dayOfWeek && slot === conflict.timeSlot) continue;
-          if (occupiedSlots.has(key)) continue;
-          
-          // Check if this slot is in teacher's preferences (if available)
-          let preferenceMatch = true;
-          if (teacher?.timePreferences?.length) {
-            preferenceMatch = teacher.timePreferences.some(pref => 
-              pref.dayOfWeek === day && 
-              slot >= pref.startTimeSlot && 
-              slot <= pref.endTimeSlot
-            );
-          }
-          
-          const course = await this.getCourseById(schedule.courseId);
-          
-          suggestions.push({
-            id: uuidv4(),
-            description: `Move ${course?.name || 'Course'} to ${DAYS_OF_WEEK[day]} at ${TIME_SLOTS[slot].label} ${preferenceMatch ? '(matches teacher preference)' : ''}`,
-            action: 'move',
-            scheduleId: schedule.id,
-            newDayOfWeek: day,
-            newTimeSlot: slot
-          });
-        }
-      }
-      
-      // 2. Try to swap with another teacher's class
-      const otherTeachersSchedules = allSchedules.filter(s => 
-        s.teacherId !== conflict.teacherId && 
-        !conflict.conflictingScheduleIds!.includes(s.id)
+
+    // Only classes of the conflict's term compete for its slots
+    return generateSuggestions(conflict, {
+      schedules: await this.getSchedules(conflict.termId),
+      teachers: await this.getTeachers(),
+      sections: await this.getSections(),
+      rooms: await this.getRooms(),
+      courses: await this.getCourses(),
+      calendar: await this.getCalendar(),
+      timeSlots: await this.getTimeSlots()
+    });
+  }
+
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    // Serializable, so a commit that would miss a concurrent change fails instead
+    try {
+      return await this.db.transaction(
+        async (tx) => await work(new DatabaseStorage(tx)),
+        { isolationLevel: 'serializable' }
       );
-      
-      for (const otherSchedule of otherTeachersSchedules) {
-        const otherCourse = await this.getCourseById(otherSchedule.courseId);
-        
-        suggestions.push({
-          id: uuidv4(),
-          description: `Swap ${course?.name || 'Course'} with ${otherCourse?.name || 'another course'} on ${DAYS_OF_WEEK[otherSchedule.dayOfWeek]} at ${TIME_SLOTS[otherSchedule.timeSlot].label}`,
-          action: 'swap',
-          scheduleId: schedule.id,
-          swapWithScheduleId: otherSchedule.id
-        });
-      }
-      
-      // 3. Try to reassign to another teacher
-      const otherTeachers = (await this.getTeachers())
-        .filter(t => t.id !== conflict.teacherId);
-      
-      for (const otherTeacher of otherTeachers) {
-        suggestions.push({
-          id: uuidv4(),
-          description: `Reassign ${course?.name || 'Course'} to ${otherTeacher.name}`,
-          action: 'reassign',
-          scheduleId: schedule.id,
-          newTeacherId: otherTeacher.id
-        });
+    } catch (err) {
+      // Postgres reports a serializable transaction that could not go through as 40001
+      if ((err as { code?: string }).code === '40001') {
+        throw new ConcurrentChangeError("Someone else changed the timetable at the same time. Please try again.");
       }
+      throw err;
     }
-    
-    return suggestions;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+import { AuditEvent, ChangeSet, Schedule } from "@shared/schema";
+import { IStorage } from "./storage";
+
+export type ChangeStepResult =
+  | { ok: true; changeSet: ChangeSet }
+  | { ok: false; status: 404 | 409; message: string };
+
+type Direction = 'undo' | 'redo';
+
+/**
+ * Opens a new undoable unit of timetable work for an actor. Anything they had
+ * undone can no longer be redone once they start new work.
+ */
+export async function beginChangeSet(storage: IStorage, actor: string, description: string): Promise<ChangeSet> {
+  for (const changeSet of await storage.getChangeSets(actor)) {
+    if (changeSet.status === 'undone') {
+      await storage.updateChangeSet(changeSet.id, { status: 'discarded' });
+    }
+  }
+
+  return await storage.createChangeSet({ actor, description, status: 'applied' });
+}
+
+/**
+ * Reverts the actor's most recent applied change set, every class in it or
+ * none, in one transaction with the check that the classes are unchanged
+ */
+export async function undoLastChange(storage: IStorage, actor: string): Promise<ChangeStepResult> {
+  return await storage.transaction(async (tx) => {
+    const applied = (await tx.getChangeSets(actor))
+      .filter(changeSet => changeSet.status === 'applied')
+      .sort((a, b) => b.id - a.id);
+
+    if (applied.length === 0) {
+      return { ok: false, status: 404, message: "Nothing to undo" };
+    }
+
+    return await stepChangeSet(tx, actor, applied[0], 'undo');
+  });
+}
+
+/**
+ * Reapplies the change set the actor undid last. Undone sets are always newer
+ * than applied ones, so the oldest undone set is the next to redo.
+ */
+export async function redoLastChange(storage: IStorage, actor: string): Promise<ChangeStepResult> {
+  return await storage.transaction(async (tx) => {
+    const undone = (await tx.getChangeSets(actor))
+      .filter(changeSet => changeSet.status === 'undone')
+      .sort((a, b) => a.id - b.id);
+
+    if (undone.length === 0) {
+      return { ok: false, status: 404, message: "Nothing to redo" };
+    }
+
+    return await stepChangeSet(tx, actor, undone[0], 'redo');
+  });
+}
+
+async function stepChangeSet(
+  storage: IStorage,
+  actor: string,
+  changeSet: ChangeSet,
+  direction: Direction
+): Promise<ChangeStepResult> {
+  // Events come back newest first, which is the order to undo them in
+  const newestFirst = (await storage.getAuditEvents({ changeSetId: changeSet.id }))
+    .filter(event => event.entityType === 'schedule');
+  const events = direction === 'undo' ? newestFirst : [...newestFirst].reverse();
+
+  // Check every class is as the change set left it (or found it) before touching any
+  const expected = new Map<number, Record<string, unknown> | null>();
+  events.forEach(event => {
+    if (!expected.has(event.entityId)) {
+      expected.set(event.entityId, direction === 'undo' ? event.after : event.before);
+    }
+  });
+
+  for (const [scheduleId, state] of Array.from(expected.entries())) {
+    const current = await storage.getScheduleById(scheduleId);
+    if (!matchesSnapshot(current, state)) {
+      return {
+        ok: false,
+        status: 409,
+        message: `"${changeSet.description}" cannot be ${direction === 'undo' ? 'undone' : 'redone'} because a class in it has changed since`
+      };
+    }
+  }
+
+  for (const event of events) {
+    await applySnapshot(storage, event, direction === 'undo' ? event.before : event.after);
+    await storage.createAuditEvent({
+      entityType: event.entityType,
+      entityId: event.entityId,
+      action: getReplayAction(event, direction),
+      source: direction,
+      actor,
+      changeSetId: null,
+      before: direction === 'undo' ? event.after : event.before,
+      after: direction === 'undo' ? event.before : event.after
+    });
+  }
+
+  const updated = await storage.updateChangeSet(changeSet.id, {
+    status: direction === 'undo' ? 'undone' : 'applied'
+  });
+  return { ok: true, changeSet: updated! };
+}
+
+// A missing snapshot means the class should not exist
+function matchesSnapshot(current: Schedule | undefined, snapshot: Record<string, unknown> | null): boolean {
+  if (!snapshot) return current === undefined;
+  if (!current) return false;
+
+  const row = current as Record<string, unknown>;
+  return Object.keys(snapshot).every(field => JSON.stringify(row[field]) === JSON.stringify(snapshot[field]));
+}
+
+async function applySnapshot(storage: IStorage, event: AuditEvent, snapshot: Record<string, unknown> | null) {
+  const current = await storage.getScheduleById(event.entityId);
+
+  if (!snapshot) {
+    await storage.deleteSchedule(event.entityId);
+  } else if (!current) {
+    await storage.restoreSchedule(snapshot as Schedule);
+  } else {
+    const { id: _, ...fields } = snapshot as Schedule;
+    await storage.updateSchedule(event.entityId, fields);
+  }
+}
+
+function getReplayAction(event: AuditEvent, direction: Direction): AuditEvent['action'] {
+  if (direction === 'redo' || event.action === 'update') return event.action;
+  return event.action === 'create' ? 'delete' : 'create';
+}
@@ -0,0 +1,297 @@
+import { Conflict, Course, DetectedConflict, InstitutionCalendar, Schedule, Section, Teacher, TimeSlot } from "@shared/schema";
+import { getCoveredSlots } from "@shared/calendar";
+import { getTeacherWorkload } from "@shared/workload";
+import { getIntakes, getStudentGroupKey, getStudentGroups, StudentGroup } from "@shared/sections";
+import { NO_WAIVER } from "@shared/waivers";
+import { areParallelOptions } from "@shared/electives";
+
+export type ConflictDetectionInput = {
+  schedules: Schedule[]; // Classes of one term, which only clash with each other
+  teachers: Teacher[];
+  sections: Section[];
+  courses: Course[]; // For the elective groups whose options run in parallel
+  calendar: Pick<InstitutionCalendar, 'teachingDays' | 'breaks'>;
+  timeSlots: TimeSlot[];
+};
+
+// A stored conflict brought up to date with the classes now in its clash. A
+// waiver only covers the classes it was given for, so it lapses when they change.
+export type ConflictMembership = { id: number; conflictingScheduleIds: number[] } & Partial<typeof NO_WAIVER>;
+
+// How to bring a term's stored conflicts in line with the clashes found now
+export type ConflictReconciliation = {
+  create: DetectedConflict[]; // Clashes no stored conflict stands for
+  reopen: ConflictMembership[]; // Closed conflicts whose clash is back
+  update: ConflictMembership[]; // Open conflicts whose classes have changed
+  close: number[]; // Open conflicts whose clash has gone
+};
+
+// The teachers, rooms and student intakes whose bookings a write touched
+export type ConflictScope = {
+  teacherIds: Set<number>;
+  roomIds: Set<number>;
+  intakes: Set<string>; // Program and semester, e.g. "1-3"
+};
+
+const getIntakeKey = (programId: number, semester: number) => `${programId}-${semester}`;
+
+/**
+ * Gets what a write touched from its classes as they were and as they are, so
+ * a class moved away from a teacher, room or intake re-checks the old one too
+ */
+export function getConflictScope(touched: Schedule[]): ConflictScope {
+  return {
+    teacherIds: new Set(touched.map(schedule => schedule.teacherId)),
+    roomIds: new Set(touched.flatMap(schedule => schedule.roomId ? [schedule.roomId] : [])),
+    intakes: new Set(touched.flatMap(getIntakes).map(intake => getIntakeKey(intake.programId, intake.semester)))
+  };
+}
+
+// Whether a class is booked for anything in the scope, and so can be part of a clash there
+const isScheduleInScope = (schedule: Schedule, scope: ConflictScope) =>
+  scope.teacherIds.has(schedule.teacherId) ||
+  (schedule.roomId !== null && scope.roomIds.has(schedule.roomId)) ||
+  getIntakes(schedule).some(intake => scope.intakes.has(getIntakeKey(intake.programId, intake.semester)));
+
+/**
+ * Whether a clash is over a teacher, room or intake in the scope
+ */
+export function isConflictInScope(conflict: DetectedConflict, scope: ConflictScope): boolean {
+  switch (conflict.type) {
+    case 'teacher':
+    case 'workload':
+      return conflict.teacherId != null && scope.teacherIds.has(conflict.teacherId);
+    case 'room':
+      return conflict.roomId != null && scope.roomIds.has(conflict.roomId);
+    case 'group':
+      return conflict.programId != null && conflict.semester != null &&
+        scope.intakes.has(getIntakeKey(conflict.programId, conflict.semester));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Finds the clashes over the teachers, rooms and intakes in a scope. Every
+ * class booked for one of them is looked at and no other, so each of those
+ * clashes is found whole and the rest of the timetable is left alone.
+ */
+export function findScopedConflicts(input: ConflictDetectionInput, scope: ConflictScope): DetectedConflict[] {
+  return findConflicts({
+    ...input,
+    schedules: input.schedules.filter(schedule => isScheduleInScope(schedule, scope)),
+    teachers: input.teachers.filter(teacher => scope.teacherIds.has(teacher.id))
+  }).filter(conflict => isConflictInScope(conflict, scope));
+}
+
+/**
+ * Identifies a clash by its kind, its day and the classes in it, so blocks
+ * overlapping in several periods count as one clash
+ */
+export function getConflictKey(conflict: DetectedConflict): string {
+  return `${conflict.type}-${conflict.workloadLimit ?? ''}-${conflict.dayOfWeek}-${[...(conflict.conflictingScheduleIds ?? [])].sort((x, y) => x - y).join(',')}`;
+}
+
+/**
+ * Identifies a clash by who or what is double booked and when, whichever
+ * classes are in it, so a stored conflict keeps its id as classes come and go
+ */
+export function getConflictIdentity(conflict: DetectedConflict): string {
+  return [
+    conflict.type,
+    conflict.teacherId ?? '',
+    conflict.roomId ?? '',
+    conflict.programId ?? '',
+    conflict.semester ?? '',
+    conflict.sectionId ?? '',
+    conflict.workloadLimit ?? '',
+    conflict.dayOfWeek,
+    conflict.timeSlot
+  ].join('-');
+}
+
+/**
+ * Matches the clashes found in a term against its stored conflicts. An open
+ * conflict is kept for its clash before a closed one is reopened, and any
+ * stored conflict left unmatched and still open is closed.
+ */
+export function reconcileConflicts(stored: Conflict[], found: DetectedConflict[]): ConflictReconciliation {
+  const reconciliation: ConflictReconciliation = { create: [], reopen: [], update: [], close: [] };
+  const byIdentity = new Map<string, Conflict[]>();
+  const matched = new Set<number>();
+
+  [...stored].sort((a, b) => a.id - b.id).forEach(conflict => {
+    const identity = getConflictIdentity(conflict);
+    if (!byIdentity.has(identity)) byIdentity.set(identity, []);
+    byIdentity.get(identity)!.push(conflict);
+  });
+
+  found.forEach(conflict => {
+    const candidates = (byIdentity.get(getConflictIdentity(conflict)) ?? []).filter(c => !matched.has(c.id));
+    const match = candidates.find(c => !c.resolved) ?? candidates[0];
+    const conflictingScheduleIds = conflict.conflictingScheduleIds ?? [];
+
+    if (!match) {
+      reconciliation.create.push(conflict);
+      return;
+    }
+
+    matched.add(match.id);
+    const sameClasses = getConflictKey(match) === getConflictKey(conflict);
+    const membership: ConflictMembership = {
+      id: match.id,
+      conflictingScheduleIds,
+      ...(!sameClasses && match.waiverReason ? NO_WAIVER : {})
+    };
+    if (match.resolved) {
+      reconciliation.reopen.push(membership);
+    } else if (!sameClasses) {
+      reconciliation.update.push(membership);
+    }
+  });
+
+  reconciliation.close = stored
+    .filter(conflict => !conflict.resolved && !matched.has(conflict.id))
+    .map(conflict => conflict.id);
+
+  return reconciliation;
+}
+
+/**
+ * Finds every clash in a set of classes without storing anything: teachers,
+ * rooms and student groups booked twice in a period, and teachers taught past
+ * one of their workload limits.
+ *
+ * A class spanning several periods is counted in each of them, and a
+ * whole-intake class in each section of the intake. Overlapping blocks clash
+ * in several periods; each clash is reported once, at its first period.
+ */
+export function findConflicts({ schedules, teachers, sections, courses, calendar, timeSlots }: ConflictDetectionInput): DetectedConflict[] {
+  const scheduleById = new Map(schedules.map(schedule => [schedule.id, schedule]));
+  const teacherSchedules = new Map<number, Map<string, number[]>>();
+  const roomSchedules = new Map<number, Map<string, number[]>>();
+  const groupSchedules = new Map<string, Map<string, number[]>>();
+  const studentGroups = new Map<string, StudentGroup>();
+
+  const book = <K>(bookings: Map<K, Map<string, number[]>>, key: K, dayTimeKey: string, scheduleId: number) => {
+    if (!bookings.has(key)) bookings.set(key, new Map());
+    const dayTimeMap = bookings.get(key)!;
+    if (!dayTimeMap.has(dayTimeKey)) dayTimeMap.set(dayTimeKey, []);
+    dayTimeMap.get(dayTimeKey)!.push(scheduleId);
+  };
+
+  schedules.forEach(schedule => {
+    getCoveredSlots(schedule, calendar, timeSlots).forEach(timeSlot => {
+      const dayTimeKey = `${schedule.dayOfWeek}-${timeSlot}`;
+
+      book(teacherSchedules, schedule.teacherId, dayTimeKey, schedule.id);
+
+      if (schedule.roomId) {
+        book(roomSchedules, schedule.roomId, dayTimeKey, schedule.id);
+      }
+
+      getStudentGroups(schedule, sections).forEach(group => {
+        const groupKey = getStudentGroupKey(group);
+        studentGroups.set(groupKey, group);
+        book(groupSchedules, groupKey, dayTimeKey, schedule.id);
+      });
+    });
+  });
+
+  const conflicts: DetectedConflict[] = [];
+  const recorded = new Set<string>();
+
+  const recordConflict = (conflict: DetectedConflict) => {
+    const clashKey = getConflictKey(conflict);
+    if (recorded.has(clashKey)) return;
+    recorded.add(clashKey);
+    conflicts.push(conflict);
+  };
+
+  const forEachClash = <K>(
+    bookings: Map<K, Map<string, number[]>>,
+    onClash: (key: K, dayOfWeek: number, timeSlot: number, scheduleIds: number[]) => void
+  ) => {
+    bookings.forEach((dayTimeMap, key) => {
+      dayTimeMap.forEach((scheduleIds, dayTimeKey) => {
+        if (scheduleIds.length < 2) return;
+        const [dayOfWeek, timeSlot] = dayTimeKey.split('-').map(Number);
+        onClash(key, dayOfWeek, timeSlot, scheduleIds);
+      });
+    });
+  };
+
+  forEachClash(teacherSchedules, (teacherId, dayOfWeek, timeSlot, scheduleIds) => {
+    recordConflict({
+      type: 'teacher',
+      teacherId,
+      roomId: null,
+      programId: null,
+      semester: null,
+      dayOfWeek,
+      timeSlot,
+      conflictingScheduleIds: scheduleIds,
+      resolved: false,
+      suggestions: []
+    });
+  });
+
+  forEachClash(groupSchedules, (groupKey, dayOfWeek, timeSlot, scheduleIds) => {
+    // Options of one elective group are meant to share a period
+    if (areParallelOptions(scheduleIds.map(id => scheduleById.get(id)!.courseId), courses)) return;
+
+    const { programId, semester, sectionId } = studentGroups.get(groupKey)!;
+    // Whole-intake classes clashing with each other clash for every section,
+    // so the conflict belongs to the intake rather than one section
+    const sectionClash = scheduleIds.some(id => scheduleById.get(id)?.sectionId !== null);
+
+    recordConflict({
+      type: 'group',
+      teacherId: null,
+      roomId: null,
+      programId,
+      semester,
+      sectionId: sectionClash ? sectionId : null,
+      dayOfWeek,
+      timeSlot,
+      conflictingScheduleIds: scheduleIds,
+      resolved: false,
+      suggestions: []
+    });
+  });
+
+  forEachClash(roomSchedules, (roomId, dayOfWeek, timeSlot, scheduleIds) => {
+    recordConflict({
+      type: 'room',
+      teacherId: null,
+      roomId,
+      programId: null,
+      semester: null,
+      dayOfWeek,
+      timeSlot,
+      conflictingScheduleIds: scheduleIds,
+      resolved: false,
+      suggestions: []
+    });
+  });
+
+  teachers.forEach(teacher => {
+    getTeacherWorkload(teacher, schedules, calendar, timeSlots).violations.forEach(violation => {
+      recordConflict({
+        type: 'workload',
+        teacherId: teacher.id,
+        roomId: null,
+        programId: null,
+        semester: null,
+        workloadLimit: violation.limit,
+        dayOfWeek: violation.dayOfWeek,
+        timeSlot: violation.timeSlot,
+        conflictingScheduleIds: violation.scheduleIds,
+        resolved: false,
+        suggestions: []
+      });
+    });
+  });
+
+  return conflicts;
+}
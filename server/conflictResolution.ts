@@ -0,0 +1,356 @@
+import { ChangeSet, Conflict, ConflictSuggestion, DetectedConflict, Schedule } from "@shared/schema";
+import { getSchedulingViolation } from "@shared/calendar";
+import { getRepairFields, matchesRepairFields, RepairChange, RepairPlan } from "@shared/repair";
+import { isWaived } from "@shared/waivers";
+import { getIntakes } from "@shared/sections";
+import { ConflictResolution, IStorage } from "./storage";
+import { beginChangeSet } from "./changeHistory";
+import { ConflictDetectionInput, findConflicts, findScopedConflicts, getConflictIdentity, getConflictScope } from "./conflictDetection";
+import { applySuggestion, generateSuggestions, rankSuggestions, SuggestionContext } from "./conflictSuggestions";
+
+export type ConflictResolutionResult =
+  | { ok: true; conflict: Conflict; changeSet: ChangeSet; resolved: Conflict[] }
+  | { ok: false; status: 404 | 409; message: string };
+
+export type RepairResult =
+  | { ok: true; changeSet: ChangeSet; resolved: Conflict[] }
+  | { ok: false; status: 400 | 409; message: string };
+
+// The conflicts a repair looks at: a term's, or only those of one program semester
+export type RepairScope = {
+  termId: number;
+  programId?: number;
+  semester?: number;
+};
+
+// The most suggestions one repair takes, so a search that keeps finding work still ends
+const MAX_REPAIR_STEPS = 50;
+
+async function loadTimetable(storage: IStorage, termId: number): Promise<SuggestionContext> {
+  return {
+    schedules: await storage.getSchedules(termId),
+    teachers: await storage.getTeachers(),
+    sections: await storage.getSections(),
+    rooms: await storage.getRooms(),
+    courses: await storage.getCourses(),
+    calendar: await storage.getCalendar(),
+    timeSlots: await storage.getTimeSlots(),
+  };
+}
+
+// A stored conflict is still there while its classes clash in the same way
+function isStillPresent(conflict: Conflict, current: DetectedConflict[]): boolean {
+  const ids = conflict.conflictingScheduleIds ?? [];
+  return current.some(found =>
+    found.type === conflict.type &&
+    found.dayOfWeek === conflict.dayOfWeek &&
+    ids.every(id => found.conflictingScheduleIds?.includes(id))
+  );
+}
+
+// The stored open conflicts that a set of changes clears
+async function getClearedConflicts(storage: IStorage, termId: number, before: DetectedConflict[], after: DetectedConflict[]) {
+  return (await storage.getConflicts(termId))
+    .filter(stored => !stored.resolved && isStillPresent(stored, before) && !isStillPresent(stored, after));
+}
+
+// How much of a timetable is double booked. A clash of three classes counts
+// twice, so moving one class out of it is progress even though it stays open.
+function countClashingClasses(conflicts: DetectedConflict[]): number {
+  return conflicts.reduce((total, conflict) => total + Math.max((conflict.conflictingScheduleIds?.length ?? 0) - 1, 1), 0);
+}
+
+// A clash that was already there, perhaps with fewer of its classes left in it
+function isExistingClash(conflict: DetectedConflict, before: DetectedConflict[]): boolean {
+  const ids = conflict.conflictingScheduleIds ?? [];
+  return before.some(existing =>
+    getConflictIdentity(existing) === getConflictIdentity(conflict) &&
+    ids.every(id => existing.conflictingScheduleIds?.includes(id))
+  );
+}
+
+// The class updates a suggestion makes, worked out from where the classes are now
+function getUpdates(suggestion: ConflictSuggestion, schedules: Schedule[]): ConflictResolution['updates'] {
+  const updated = applySuggestion(schedules, suggestion);
+  const before = new Map(schedules.map(schedule => [schedule.id, schedule]));
+  const changed = updated.filter(schedule => schedule !== before.get(schedule.id));
+
+  return changed.map(({ id, dayOfWeek, timeSlot, teacherId, roomId }) => ({
+    id,
+    changes: { dayOfWeek, timeSlot, teacherId, roomId }
+  }));
+}
+
+// Explains why a suggestion made earlier no longer applies, if it does not
+async function getStaleReason(
+  storage: IStorage,
+  conflict: Conflict,
+  suggestion: ConflictSuggestion,
+  timetable: ConflictDetectionInput
+): Promise<string | null> {
+  const { schedules, calendar, timeSlots } = timetable;
+  const scheduleIds = [
+    suggestion.scheduleId,
+    ...(suggestion.swapWithScheduleId !== undefined ? [suggestion.swapWithScheduleId] : []),
+    ...(suggestion.steps ?? []).map(step => step.scheduleId)
+  ];
+  if (scheduleIds.some(id => !schedules.some(schedule => schedule.id === id))) {
+    return "A class in this suggestion has been deleted";
+  }
+
+  if (suggestion.newTeacherId !== undefined && !await storage.getTeacherById(suggestion.newTeacherId)) {
+    return `Teacher with ID ${suggestion.newTeacherId} not found`;
+  }
+  if (suggestion.newRoomId !== undefined && !await storage.getRoomById(suggestion.newRoomId)) {
+    return `Room with ID ${suggestion.newRoomId} not found`;
+  }
+
+  const updated = applySuggestion(schedules, suggestion);
+  for (const { id } of getUpdates(suggestion, schedules)) {
+    const schedule = updated.find(s => s.id === id)!;
+    const violation = getSchedulingViolation(calendar, schedule.dayOfWeek, schedule.timeSlot, timeSlots, schedule.duration);
+    if (violation) return violation;
+  }
+
+  if (isStillPresent(conflict, findConflicts({ ...timetable, schedules: updated }))) {
+    return "This suggestion no longer resolves the conflict";
+  }
+  if (rankSuggestions([suggestion], timetable).length === 0) {
+    return "This suggestion would now create new conflicts";
+  }
+
+  return null;
+}
+
+/**
+ * Applies one of a conflict's suggestions as a single undoable change set,
+ * every class in it or none. Suggestions are stored when a conflict is found,
+ * so each is checked against the timetable as it is now before it is applied,
+ * in the same transaction so no other change can land in between.
+ */
+export async function resolveConflict(
+  storage: IStorage,
+  conflictId: number,
+  suggestionId: string,
+  actor: string
+): Promise<ConflictResolutionResult> {
+  return await storage.transaction(tx => resolveWithin(tx, conflictId, suggestionId, actor));
+}
+
+async function resolveWithin(
+  storage: IStorage,
+  conflictId: number,
+  suggestionId: string,
+  actor: string
+): Promise<ConflictResolutionResult> {
+  const conflict = await storage.getConflictById(conflictId);
+  if (!conflict) {
+    return { ok: false, status: 404, message: `Conflict with ID ${conflictId} not found` };
+  }
+
+  const suggestion = conflict.suggestions?.find(s => s.id === suggestionId);
+  if (!suggestion) {
+    return { ok: false, status: 404, message: `Suggestion with ID ${suggestionId} not found` };
+  }
+
+  if (conflict.resolved) {
+    return { ok: false, status: 409, message: `Conflict with ID ${conflictId} is already resolved` };
+  }
+
+  const timetable = await loadTimetable(storage, conflict.termId);
+
+  const before = findConflicts(timetable);
+  if (!isStillPresent(conflict, before)) {
+    return { ok: false, status: 409, message: "The conflict no longer exists in the timetable" };
+  }
+
+  const staleReason = await getStaleReason(storage, conflict, suggestion, timetable);
+  if (staleReason) {
+    // Offer suggestions that fit the timetable as it is now in their place
+    await storage.updateConflict(conflict.id, { suggestions: await storage.generateConflictSuggestions(conflict.id) });
+    return { ok: false, status: 409, message: staleReason };
+  }
+
+  // Every open conflict of the term that the change clears is resolved with it
+  const after = findConflicts({ ...timetable, schedules: applySuggestion(timetable.schedules, suggestion) });
+  const resolved = await getClearedConflicts(storage, conflict.termId, before, after);
+
+  const changeSet = await beginChangeSet(storage, actor, suggestion.description);
+  await storage.applyConflictResolution({
+    updates: getUpdates(suggestion, timetable.schedules),
+    resolvedConflictIds: resolved.map(stored => stored.id),
+    source: 'conflict_resolution',
+    actor,
+    changeSetId: changeSet.id
+  });
+
+  return {
+    ok: true,
+    conflict,
+    changeSet,
+    resolved: resolved.map(stored => ({ ...stored, resolved: true }))
+  };
+}
+
+// How a change weighs against a conflict: the classes it takes out of
+// clashes and whether the conflict itself is gone. Suggestions create no new
+// clash, so only the changed classes' teachers, rooms and intakes are checked.
+function weighRepairStep(conflict: DetectedConflict, working: SuggestionContext, schedules: Schedule[]) {
+  const touched = schedules.flatMap((schedule, index) =>
+    schedule === working.schedules[index] ? [] : [working.schedules[index], schedule]
+  );
+  const scope = getConflictScope(touched);
+  const after = findScopedConflicts({ ...working, schedules }, scope);
+
+  return {
+    cleared: countClashingClasses(findScopedConflicts(working, scope)) - countClashingClasses(after),
+    changed: touched.length / 2,
+    solved: !after.some(found => getConflictIdentity(found) === getConflictIdentity(conflict)),
+  };
+}
+
+// The first of a conflict's offered suggestions that clears it, or else the
+// one taking the most classes out of clashes, changing the fewest classes
+function pickRepairStep(conflict: DetectedConflict, working: SuggestionContext) {
+  let best: { suggestion: ConflictSuggestion; schedules: Schedule[]; cleared: number; changed: number } | null = null;
+
+  for (const suggestion of generateSuggestions(conflict, working)) {
+    const schedules = applySuggestion(working.schedules, suggestion);
+    const { cleared, changed, solved } = weighRepairStep(conflict, working, schedules);
+
+    if (cleared <= 0) continue;
+    if (solved) return { suggestion, schedules };
+    if (!best || cleared > best.cleared || (cleared === best.cleared && changed < best.changed)) {
+      best = { suggestion, schedules, cleared, changed };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Searches for one combined set of changes that clears as many conflicts as
+ * it can while changing as few classes as it can. Each round takes, for every
+ * conflict still open, its best suggestion on the timetable as the earlier
+ * steps left it; the search ends when a round takes no class out of a
+ * clash. Nothing is stored: the plan is returned for approval.
+ */
+export async function planRepair(storage: IStorage, scope: RepairScope): Promise<RepairPlan> {
+  const context = await loadTimetable(storage, scope.termId);
+  const original = context.schedules;
+  const byId = new Map(original.map(schedule => [schedule.id, schedule]));
+
+  // Waived clashes are meant to be there, so they are left as they are
+  const waived = new Set((await storage.getConflicts(scope.termId))
+    .filter(conflict => !conflict.resolved && isWaived(conflict))
+    .map(getConflictIdentity));
+
+  const inScope = (conflict: DetectedConflict) => !waived.has(getConflictIdentity(conflict)) && (
+    scope.programId === undefined ||
+    (conflict.conflictingScheduleIds ?? []).some(id => {
+      const schedule = byId.get(id);
+      return schedule !== undefined && getIntakes(schedule).some(intake => intake.programId === scope.programId &&
+        (scope.semester === undefined || intake.semester === scope.semester));
+    })
+  );
+  const findOpen = (schedules: Schedule[]) => findConflicts({ ...context, schedules }).filter(inScope);
+
+  let current = original;
+  const steps: string[] = [];
+  let progressed = true;
+
+  while (progressed && steps.length < MAX_REPAIR_STEPS) {
+    progressed = false;
+
+    const roundConflicts = findOpen(current);
+    let open = roundConflicts;
+
+    for (const conflict of roundConflicts) {
+      if (steps.length >= MAX_REPAIR_STEPS) break;
+      // An earlier step of this round may have cleared it already, or taken classes out of it
+      const target = open.find(found => getConflictIdentity(found) === getConflictIdentity(conflict));
+      if (!target) continue;
+
+      const step = pickRepairStep(target, { ...context, schedules: current });
+      if (!step) continue;
+
+      current = step.schedules;
+      open = findOpen(current);
+      steps.push(step.suggestion.description);
+      progressed = true;
+    }
+  }
+
+  const changes: RepairChange[] = current
+    .filter(schedule => !matchesRepairFields(schedule, byId.get(schedule.id)!))
+    .map(schedule => ({
+      scheduleId: schedule.id,
+      before: getRepairFields(byId.get(schedule.id)!),
+      after: getRepairFields(schedule)
+    }));
+  const remaining = findOpen(current);
+  const remainingIdentities = new Set(remaining.map(getConflictIdentity));
+
+  return {
+    termId: scope.termId,
+    steps,
+    changes,
+    resolved: findOpen(original).filter(conflict => !remainingIdentities.has(getConflictIdentity(conflict))),
+    remaining
+  };
+}
+
+/**
+ * Applies an approved repair as one undoable change set, every class in it or
+ * none. A plan made before other edits would undo them, so every class has to
+ * be as the plan found it, checked in the same transaction as the changes.
+ */
+export async function applyRepair(storage: IStorage, termId: number, changes: RepairChange[], actor: string): Promise<RepairResult> {
+  return await storage.transaction(tx => applyRepairWithin(tx, termId, changes, actor));
+}
+
+async function applyRepairWithin(storage: IStorage, termId: number, changes: RepairChange[], actor: string): Promise<RepairResult> {
+  const context = await loadTimetable(storage, termId);
+  const byId = new Map(context.schedules.map(schedule => [schedule.id, schedule]));
+
+  for (const { scheduleId, before, after } of changes) {
+    const schedule = byId.get(scheduleId);
+    if (!schedule || !matchesRepairFields(schedule, before)) {
+      return { ok: false, status: 409, message: "The timetable has changed since the repair was planned" };
+    }
+
+    const violation = getSchedulingViolation(context.calendar, after.dayOfWeek, after.timeSlot, context.timeSlots, schedule.duration);
+    if (violation) return { ok: false, status: 400, message: violation };
+    if (!context.teachers.some(teacher => teacher.id === after.teacherId)) {
+      return { ok: false, status: 400, message: `Teacher with ID ${after.teacherId} not found` };
+    }
+    if (after.roomId !== null && !context.rooms.some(room => room.id === after.roomId)) {
+      return { ok: false, status: 400, message: `Room with ID ${after.roomId} not found` };
+    }
+  }
+
+  const afterById = new Map(changes.map(change => [change.scheduleId, change.after]));
+  const repaired = context.schedules.map(schedule => ({ ...schedule, ...afterById.get(schedule.id) }));
+  const before = findConflicts(context);
+  const after = findConflicts({ ...context, schedules: repaired });
+
+  if (after.some(conflict => !isExistingClash(conflict, before))) {
+    return { ok: false, status: 409, message: "These changes would create new conflicts" };
+  }
+
+  const resolved = await getClearedConflicts(storage, termId, before, after);
+  const remainingIdentities = new Set(after.map(getConflictIdentity));
+  const cleared = before.filter(conflict => !remainingIdentities.has(getConflictIdentity(conflict))).length;
+  const changeSet = await beginChangeSet(storage, actor, cleared > 0
+    ? `Resolve ${cleared} ${cleared === 1 ? 'conflict' : 'conflicts'}`
+    : 'Reduce conflicts');
+  await storage.applyConflictResolution({
+    updates: changes.map(({ scheduleId, after }) => ({ id: scheduleId, changes: after })),
+    resolvedConflictIds: resolved.map(stored => stored.id),
+    source: 'conflict_resolution',
+    actor,
+    changeSetId: changeSet.id
+  });
+
+  return { ok: true, changeSet, resolved: resolved.map(stored => ({ ...stored, resolved: true })) };
+}
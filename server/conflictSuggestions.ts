@@ -0,0 +1,470 @@
+import {
+  ConflictSuggestion, Course, DAYS_OF_WEEK, DetectedConflict, Room, Schedule, SuggestionReason, SuggestionStep, Teacher
+} from "@shared/schema";
+import { getBlockSlots, getCoveredSlots, getTeachingDays, isSlotSchedulable } from "@shared/calendar";
+import { formatTimeSlotLabel, getTeachingSlots, isWithinTimePreferences } from "@shared/timeSlots";
+import { getTeacherWorkload, wouldExceedWorkload } from "@shared/workload";
+import { getStudentGroupKey, getStudentGroups } from "@shared/sections";
+import { v4 as uuidv4 } from 'uuid';
+import { ConflictDetectionInput, findConflicts, findScopedConflicts, getConflictKey, getConflictScope } from "./conflictDetection";
+
+// A suggestion as generated, before it is scored
+export type SuggestionCandidate = Omit<ConflictSuggestion, 'score' | 'reasons'>;
+
+// The timetable of a conflict's term and what its classes could be given instead
+export type SuggestionContext = ConflictDetectionInput & {
+  rooms: Room[];
+};
+
+// The most suggestions kept for a conflict; the rest are never worth showing
+export const MAX_SUGGESTIONS = 20;
+
+// Points per unit of each factor
+const PREFERENCE_POINTS = 5;
+const WORKLOAD_POINTS = 8;
+const STUDENT_GAP_POINTS = 2;
+
+/**
+ * Suggests ways to clear a conflict, best first: moving one of its classes,
+ * swapping it with another teacher's class, or handing it to another teacher
+ * or room. When none of those works without creating another conflict, a chain
+ * of moves is tried instead.
+ */
+export function generateSuggestions(
+  conflict: DetectedConflict,
+  context: SuggestionContext,
+  limit = MAX_SUGGESTIONS
+): ConflictSuggestion[] {
+  const { schedules: allSchedules, teachers, sections, rooms, courses, calendar, timeSlots } = context;
+  const conflictingScheduleIds = conflict.conflictingScheduleIds ?? [];
+
+  const validSchedules = allSchedules.filter(schedule => conflictingScheduleIds.includes(schedule.id));
+  if (validSchedules.length < (conflict.type === 'workload' ? 1 : 2)) return [];
+
+  const suggestions: SuggestionCandidate[] = [];
+  const teacher = teachers.find(t => t.id === conflict.teacherId);
+  const courseName = (schedule: Schedule) => courses.find(c => c.id === schedule.courseId)?.name || 'Course';
+  const slotLabel = (id: number) => {
+    const slot = timeSlots.find(s => s.id === id);
+    return slot ? formatTimeSlotLabel(slot) : 'Unknown time';
+  };
+
+  const covered = (s: Schedule) => getCoveredSlots(s, calendar, timeSlots);
+  const groupKeys = (s: Schedule) => getStudentGroups(s, sections).map(getStudentGroupKey);
+
+  // Whether a class could take another's day and slot without meeting a
+  // class of its teacher, room or students there. The classes in the given
+  // ids are moving too, so they are left out.
+  const isFreeAt = (moving: Schedule, at: Schedule, ignoreIds: number[]) => {
+    const slots = covered({ ...moving, dayOfWeek: at.dayOfWeek, timeSlot: at.timeSlot });
+    const groups = groupKeys(moving);
+
+    return !allSchedules.some(s =>
+      !ignoreIds.includes(s.id) &&
+      s.dayOfWeek === at.dayOfWeek &&
+      covered(s).some(slot => slots.includes(slot)) &&
+      (s.teacherId === moving.teacherId ||
+        (moving.roomId !== null && s.roomId === moving.roomId) ||
+        groupKeys(s).some(key => groups.includes(key)))
+    );
+  };
+
+  // An overloaded teacher is relieved by moving or handing over the class
+  // that crossed the limit, not every class they teach
+  const targetSchedules = conflict.type === 'workload'
+    ? validSchedules.filter(s => s.dayOfWeek === conflict.dayOfWeek && s.timeSlot === conflict.timeSlot)
+    : validSchedules;
+
+  for (const schedule of targetSchedules) {
+    const scheduleSlots = covered(schedule);
+
+    // Another class overlaps this one when it shares a period with it on the same day
+    const overlapsSchedule = (other: Schedule) =>
+      other.id !== schedule.id &&
+      other.dayOfWeek === schedule.dayOfWeek &&
+      covered(other).some(slot => scheduleSlots.includes(slot));
+
+    // 1. Try other slots. Moving a class within the week cannot bring a
+    // teacher back under a weekly limit.
+    const movableDays = conflict.workloadLimit === 'weekly' ? [] : getTeachingDays(calendar);
+
+    for (const day of movableDays) {
+      const openSlots = getTeachingSlots(timeSlots).filter(s => isSlotSchedulable(calendar, day, s));
+
+      for (const { id: slot } of openSlots) {
+        const block = getBlockSlots(calendar, day, slot, schedule.duration, timeSlots);
+
+        // Skip the current conflict slot, the class's own slot and blocks
+        // that would run into a break. Whether anyone else is busy there is
+        // left to the simulation in rankSuggestions.
+        if (day === conflict.dayOfWeek && slot === conflict.timeSlot) continue;
+        if (day === schedule.dayOfWeek && slot === schedule.timeSlot) continue;
+        if (block.length < schedule.duration) continue;
+        // Moves must not overload the teacher, and a class that broke a
+        // daily limit has to leave that day
+        if (teacher && wouldExceedWorkload(teacher, allSchedules, { ...schedule, dayOfWeek: day, timeSlot: slot }, calendar, timeSlots)) continue;
+        if (conflict.workloadLimit === 'daily' && day === conflict.dayOfWeek) continue;
+
+        suggestions.push({
+          id: uuidv4(),
+          description: `Move ${courseName(schedule)} to ${DAYS_OF_WEEK[day]} at ${slotLabel(slot)}`,
+          action: 'move',
+          scheduleId: schedule.id,
+          newDayOfWeek: day,
+          newTimeSlot: slot
+        });
+      }
+    }
+
+    // Changing teacher or room cannot separate a student group from itself
+    if (conflict.type === 'group') continue;
+
+    if (conflict.type === 'room') {
+      // 2. Try a room that is free at this time
+      const freeRooms = rooms.filter(room =>
+        !allSchedules.some(s => s.roomId === room.id && overlapsSchedule(s))
+      );
+
+      for (const room of freeRooms) {
+        suggestions.push({
+          id: uuidv4(),
+          description: `Move ${courseName(schedule)} to room ${room.name}`,
+          action: 'reassignRoom',
+          scheduleId: schedule.id,
+          newRoomId: room.id
+        });
+      }
+
+      continue;
+    }
+
+    // 2. Try to swap with another teacher's class of the same length, so
+    // both blocks fit where the other one was. A swap leaves an overloaded
+    // teacher with just as many periods. Only swaps where both classes find
+    // their teacher, room and students free are worth simulating.
+    const otherTeachersSchedules = conflict.type === 'workload' ? [] : allSchedules.filter(s =>
+      s.teacherId !== conflict.teacherId &&
+      s.duration === schedule.duration &&
+      !conflictingScheduleIds.includes(s.id) &&
+      !(s.dayOfWeek === schedule.dayOfWeek && s.timeSlot === schedule.timeSlot) &&
+      isFreeAt(schedule, s, [schedule.id, s.id]) &&
+      isFreeAt(s, schedule, [schedule.id, s.id])
+    );
+
+    for (const otherSchedule of otherTeachersSchedules) {
+      suggestions.push({
+        id: uuidv4(),
+        description: `Swap ${courseName(schedule)} with ${courseName(otherSchedule)} on ${DAYS_OF_WEEK[otherSchedule.dayOfWeek]} at ${slotLabel(otherSchedule.timeSlot)}`,
+        action: 'swap',
+        scheduleId: schedule.id,
+        swapWithScheduleId: otherSchedule.id
+      });
+    }
+
+    // 3. Try another teacher who is free at this time and whose own limits
+    // leave room for the class
+    const otherTeachers = teachers.filter(t =>
+      t.id !== conflict.teacherId &&
+      !allSchedules.some(s => s.teacherId === t.id && overlapsSchedule(s)) &&
+      !wouldExceedWorkload(t, allSchedules, schedule, calendar, timeSlots)
+    );
+
+    for (const otherTeacher of otherTeachers) {
+      suggestions.push({
+        id: uuidv4(),
+        description: `Reassign ${courseName(schedule)} to ${otherTeacher.name}`,
+        action: 'reassign',
+        scheduleId: schedule.id,
+        newTeacherId: otherTeacher.id
+      });
+    }
+  }
+
+  // Offer the best few of those that create no new conflict, judged by
+  // what each would do to the whole timetable
+  const ranked = rankSuggestions(suggestions, context, limit);
+  if (ranked.length > 0 || conflict.type === 'workload') return ranked;
+
+  // No single change works, so try clearing a slot for one of the classes first
+  return rankSuggestions(findChainCandidates(targetSchedules, context, courses), context, limit);
+}
+
+/**
+ * Applies a suggestion to a copy of a timetable, leaving the original as it was
+ */
+export function applySuggestion(schedules: Schedule[], suggestion: SuggestionCandidate): Schedule[] {
+  if (suggestion.action === 'chain') {
+    return (suggestion.steps ?? []).reduce(
+      (timetable, step) => applySuggestion(timetable, { ...suggestion, ...step, action: 'move' }),
+      schedules
+    );
+  }
+
+  const target = schedules.find(s => s.id === suggestion.scheduleId);
+  const other = schedules.find(s => s.id === suggestion.swapWithScheduleId);
+
+  return schedules.map(schedule => {
+    switch (suggestion.action) {
+      case 'move':
+        return schedule.id === suggestion.scheduleId
+          ? { ...schedule, dayOfWeek: suggestion.newDayOfWeek!, timeSlot: suggestion.newTimeSlot! }
+          : schedule;
+      case 'swap':
+        if (!target || !other) return schedule;
+        if (schedule.id === target.id) return { ...schedule, dayOfWeek: other.dayOfWeek, timeSlot: other.timeSlot };
+        if (schedule.id === other.id) return { ...schedule, dayOfWeek: target.dayOfWeek, timeSlot: target.timeSlot };
+        return schedule;
+      case 'reassign':
+        return schedule.id === suggestion.scheduleId ? { ...schedule, teacherId: suggestion.newTeacherId! } : schedule;
+      case 'reassignRoom':
+        return schedule.id === suggestion.scheduleId ? { ...schedule, roomId: suggestion.newRoomId! } : schedule;
+      default:
+        return schedule;
+    }
+  });
+}
+
+/**
+ * Tries each suggestion on the whole timetable and returns the best of those
+ * that create no new conflict, best first. A suggestion gains points for
+ * placing classes in their teacher's preferred times, easing workloads and
+ * closing idle periods between students' classes, and loses them for the
+ * opposite.
+ */
+export function rankSuggestions(
+  candidates: SuggestionCandidate[],
+  timetable: ConflictDetectionInput,
+  limit = MAX_SUGGESTIONS
+): ConflictSuggestion[] {
+  const existingConflicts = new Set(findConflicts(timetable).map(getConflictKey));
+
+  return candidates
+    .flatMap((candidate, index) => {
+      const reasons = scoreSuggestion(candidate, timetable, existingConflicts);
+      if (!reasons) return [];
+      const score = reasons.reduce((total, reason) => total + reason.points, 0);
+      return [{ suggestion: { ...candidate, score, reasons }, index }];
+    })
+    // Equal scores keep the order they were generated in
+    .sort((a, b) => b.suggestion.score - a.suggestion.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * Builds two-step suggestions for when no single change works: each moves a
+ * class out of the way, then moves one of the conflicting classes into the
+ * slot it left. Only a slot blocked by exactly one class is worth clearing.
+ */
+export function findChainCandidates(
+  targets: Schedule[],
+  timetable: ConflictDetectionInput,
+  courses: Course[]
+): SuggestionCandidate[] {
+  const { schedules, calendar, timeSlots } = timetable;
+  const existingConflicts = new Set(findConflicts(timetable).map(getConflictKey));
+  const targetIds = new Set(targets.map(schedule => schedule.id));
+  const chains: SuggestionCandidate[] = [];
+
+  const describe = (schedule: Schedule, step: SuggestionStep) => {
+    const course = courses.find(c => c.id === schedule.courseId);
+    const slot = timeSlots.find(s => s.id === step.newTimeSlot);
+    return `${course?.name || 'Course'} to ${DAYS_OF_WEEK[step.newDayOfWeek]} at ${slot ? formatTimeSlotLabel(slot) : 'Unknown time'}`;
+  };
+
+  const createdBy = (steps: SuggestionStep[]) => {
+    const updated = applySuggestion(schedules, { id: '', description: '', action: 'chain', scheduleId: 0, steps });
+    const stepIds = new Set(steps.map(step => step.scheduleId));
+    return findNewConflicts(
+      { ...timetable, schedules: updated },
+      updated.filter(schedule => stepIds.has(schedule.id)),
+      existingConflicts
+    );
+  };
+
+  for (const target of targets) {
+    for (const place of getPlacements(target, timetable)) {
+      // Whoever the target would clash with in its new slot has to move first
+      const blockerIds = new Set(
+        createdBy([place]).flatMap(conflict => conflict.conflictingScheduleIds ?? []).filter(id => id !== target.id)
+      );
+      if (blockerIds.size !== 1) continue;
+
+      const blocker = schedules.find(schedule => blockerIds.has(schedule.id));
+      if (!blocker || targetIds.has(blocker.id)) continue;
+
+      for (const away of getPlacements(blocker, timetable)) {
+        const steps = [away, place];
+        if (createdBy(steps).length > 0) continue;
+
+        chains.push({
+          id: uuidv4(),
+          description: `Move ${describe(blocker, away)}, then move ${describe(target, place)}`,
+          action: 'chain',
+          scheduleId: target.id,
+          steps
+        });
+        if (chains.length >= MAX_SUGGESTIONS) return chains;
+      }
+    }
+  }
+
+  return chains;
+}
+
+// Every slot a class could move to that fits its block and is not where it is now
+function getPlacements(schedule: Schedule, { calendar, timeSlots }: ConflictDetectionInput): SuggestionStep[] {
+  return getTeachingDays(calendar).flatMap(day =>
+    getTeachingSlots(timeSlots)
+      .filter(slot => isSlotSchedulable(calendar, day, slot))
+      .filter(slot => !(day === schedule.dayOfWeek && slot.id === schedule.timeSlot))
+      .filter(slot => getBlockSlots(calendar, day, slot.id, schedule.duration, timeSlots).length >= schedule.duration)
+      .map(slot => ({ scheduleId: schedule.id, newDayOfWeek: day, newTimeSlot: slot.id }))
+  );
+}
+
+// Clashes the changed classes are in afterwards that did not exist before. Only
+// their teachers, rooms and intakes can be in those, so just they are checked.
+function findNewConflicts(
+  after: ConflictDetectionInput,
+  changed: Schedule[],
+  existingConflicts: Set<string>
+): DetectedConflict[] {
+  const changedIds = new Set(changed.map(schedule => schedule.id));
+  return findScopedConflicts(after, getConflictScope(changed)).filter(conflict =>
+    (conflict.conflictingScheduleIds ?? []).some(id => changedIds.has(id)) &&
+    !existingConflicts.has(getConflictKey(conflict))
+  );
+}
+
+// Scores a suggestion, or returns null when it trades the conflict for another
+function scoreSuggestion(
+  candidate: SuggestionCandidate,
+  timetable: ConflictDetectionInput,
+  existingConflicts: Set<string>
+): SuggestionReason[] | null {
+  const { schedules, teachers, timeSlots } = timetable;
+  const updated = applySuggestion(schedules, candidate);
+  const beforeById = new Map(schedules.map(schedule => [schedule.id, schedule]));
+  const changed = updated.filter(schedule => schedule !== beforeById.get(schedule.id));
+  const before = changed.map(schedule => beforeById.get(schedule.id)!);
+
+  if (findNewConflicts({ ...timetable, schedules: updated }, changed, existingConflicts).length > 0) {
+    return null;
+  }
+
+  return [
+    scorePreferences(changed, teachers, timeSlots),
+    scoreWorkload(before, changed, schedules, updated, timetable),
+    scoreStudentGaps(before, changed, schedules, updated, timetable),
+    { factor: 'newConflicts', points: 0, detail: 'Creates no new conflicts' },
+  ];
+}
+
+// Only moved or reassigned classes of teachers with preferences count
+function scorePreferences(changed: Schedule[], teachers: Teacher[], timeSlots: ConflictDetectionInput['timeSlots']): SuggestionReason {
+  let matched = 0;
+  let missed = 0;
+
+  changed.forEach(schedule => {
+    const teacher = teachers.find(t => t.id === schedule.teacherId);
+    if (!teacher?.timePreferences?.length) return;
+
+    if (isWithinTimePreferences(teacher.timePreferences, schedule.dayOfWeek, schedule.timeSlot, timeSlots)) {
+      matched++;
+    } else {
+      missed++;
+    }
+  });
+
+  return {
+    factor: 'preference',
+    points: (matched - missed) * PREFERENCE_POINTS,
+    detail: matched + missed === 0
+      ? 'No teacher preferences involved'
+      : missed === 0
+      ? 'Matches teacher preferences'
+      : matched === 0
+      ? 'Outside teacher preferences'
+      : `${matched} of ${matched + missed} classes match teacher preferences`,
+  };
+}
+
+// Compares workload limit breaches of every teacher the change touches
+function scoreWorkload(
+  before: Schedule[],
+  changed: Schedule[],
+  schedules: Schedule[],
+  updated: Schedule[],
+  { teachers, calendar, timeSlots }: ConflictDetectionInput
+): SuggestionReason {
+  const teacherIds = new Set([...before, ...changed].map(schedule => schedule.teacherId));
+  let delta = 0;
+
+  teachers.filter(teacher => teacherIds.has(teacher.id)).forEach(teacher => {
+    delta += getTeacherWorkload(teacher, updated, calendar, timeSlots).violations.length -
+      getTeacherWorkload(teacher, schedules, calendar, timeSlots).violations.length;
+  });
+
+  return {
+    factor: 'workload',
+    points: -delta * WORKLOAD_POINTS,
+    detail: delta === 0
+      ? 'No change to teacher workloads'
+      : delta < 0
+      ? `Clears ${-delta} workload limit ${-delta === 1 ? 'breach' : 'breaches'}`
+      : `Adds ${delta} workload limit ${delta === 1 ? 'breach' : 'breaches'}`,
+  };
+}
+
+// Compares idle periods between classes on the days and student groups the change touches
+function scoreStudentGaps(
+  before: Schedule[],
+  changed: Schedule[],
+  schedules: Schedule[],
+  updated: Schedule[],
+  { sections, calendar, timeSlots }: ConflictDetectionInput
+): SuggestionReason {
+  const touched = new Set(
+    [...before, ...changed].flatMap(schedule =>
+      getStudentGroups(schedule, sections).map(group => `${getStudentGroupKey(group)}|${schedule.dayOfWeek}`)
+    )
+  );
+  const slotOrder = new Map(getTeachingSlots(timeSlots).map((slot, index) => [slot.id, index]));
+
+  const countGaps = (timetable: Schedule[]) => {
+    const periods = new Map<string, Set<number>>();
+
+    timetable.forEach(schedule => {
+      getStudentGroups(schedule, sections).forEach(group => {
+        const key = `${getStudentGroupKey(group)}|${schedule.dayOfWeek}`;
+        if (!touched.has(key)) return;
+
+        if (!periods.has(key)) periods.set(key, new Set());
+        getCoveredSlots(schedule, calendar, timeSlots).forEach(slot => {
+          const index = slotOrder.get(slot);
+          if (index !== undefined) periods.get(key)!.add(index);
+        });
+      });
+    });
+
+    let gaps = 0;
+    periods.forEach(indexes => {
+      const sorted = Array.from(indexes).sort((a, b) => a - b);
+      if (sorted.length > 0) gaps += sorted[sorted.length - 1] - sorted[0] + 1 - sorted.length;
+    });
+    return gaps;
+  };
+
+  const delta = countGaps(updated) - countGaps(schedules);
+
+  return {
+    factor: 'studentGaps',
+    points: -delta * STUDENT_GAP_POINTS,
+    detail: delta === 0
+      ? 'No change to gaps in students\' days'
+      : delta < 0
+      ? `Closes ${-delta} idle ${-delta === 1 ? 'period' : 'periods'} between students' classes`
+      : `Leaves ${delta} more idle ${delta === 1 ? 'period' : 'periods'} between students' classes`,
+  };
+}
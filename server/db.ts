@@ -1,5 +1,6 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonQueryResultHKT } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
@@ -12,4 +13,6 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+export const db = drizzle(pool, { schema });
+// The database or a transaction on it, which take the same queries
+export type Database = PgDatabase<NeonQueryResultHKT, typeof schema>;
@@ -1,14 +1,239 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, ConcurrentChangeError, type IStorage } from "./storage";
+import { generateTimetable } from "./scheduleGenerator";
+import { beginChangeSet, undoLastChange, redoLastChange } from "./changeHistory";
+import { compareSandbox, getSandboxConflicts, mergeSandbox } from "./sandbox";
+import { MAX_SUGGESTIONS } from "./conflictSuggestions";
+import { applyRepair, planRepair, resolveConflict } from "./conflictResolution";
 import { z } from "zod";
 import { 
+  insertProgramSchema,
   insertCourseSchema, 
+  insertAcademicTermSchema,
+  insertSectionSchema,
   insertTeacherSchema, 
+  insertRoomSchema,
+  insertTimeSlotSchema,
+  insertInstitutionCalendarSchema,
   insertScheduleSchema,
-  DAYS_OF_WEEK,
-  TIME_SLOTS
+  insertSandboxSchema,
+  InsertSchedule,
+  Schedule,
+  SharedCohort,
+  AuditEntityType,
+  AuditSource,
+  DAYS_OF_WEEK
 } from "@shared/schema";
+import { sortTimeSlots, toClockTime } from "@shared/timeSlots";
+import { getCoveredSlots, getSchedulingViolation } from "@shared/calendar";
+import { getCourseCoverage } from "@shared/coverage";
+import { getTeacherWorkload } from "@shared/workload";
+import { getIntakes, isAttendedByIntake, isAttendedBySection } from "@shared/sections";
+import { isOutstanding, isWaived, NO_WAIVER } from "@shared/waivers";
+import { getElectiveGroupKey } from "@shared/electives";
+import { getProgramSemesters, isActiveProgram } from "@shared/programs";
+import { CurriculumLink, getCurriculumLinks, getCurriculumWarnings, hasPrerequisiteCycle } from "@shared/curriculum";
+
+// Who made a change, as reported by the client. There are no user accounts yet.
+function getActor(req: Request): string {
+  return req.get("X-Actor")?.trim() || "anonymous";
+}
+
+// Appends a change to the audit log. A creation has no before value and a deletion no after value.
+// Timetable changes name the change set that undoes them together, and are recorded through the
+// transaction that made them.
+async function recordAudit(
+  req: Request,
+  source: AuditSource,
+  entityType: AuditEntityType,
+  entityId: number,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  changeSetId: number | null = null,
+  target: IStorage = storage
+): Promise<void> {
+  await target.createAuditEvent({
+    entityType,
+    entityId,
+    action: before && after ? "update" : after ? "create" : "delete",
+    source,
+    actor: getActor(req),
+    changeSetId,
+    before,
+    after
+  });
+}
+
+// Runs a timetable write as one undoable unit for whoever made the request. The change set is
+// opened in the same transaction, so a write that fails, or turns out to change nothing and
+// returns undefined, leaves no empty change set behind.
+async function writeChangeSet<T>(
+  req: Request,
+  description: string,
+  write: (tx: IStorage, changeSetId: number) => Promise<T | undefined>
+): Promise<{ changeSetId: number; result: T } | undefined> {
+  const nothingWritten = new Error("Nothing written");
+
+  try {
+    return await storage.transaction(async (tx) => {
+      const changeSet = await beginChangeSet(tx, getActor(req), description);
+      const result = await write(tx, changeSet.id);
+      // Throwing rolls the change set back with the transaction
+      if (result === undefined) throw nothingWritten;
+      return { changeSetId: changeSet.id, result };
+    });
+  } catch (err) {
+    if (err === nothingWritten) return undefined;
+    throw err;
+  }
+}
+
+// Updates a class and records the change in the audit log
+async function updateScheduleWithAudit(
+  tx: IStorage,
+  req: Request,
+  source: AuditSource,
+  id: number,
+  changes: Partial<InsertSchedule>,
+  changeSetId: number
+) {
+  const before = await tx.getScheduleById(id);
+  if (!before) return undefined;
+
+  const updatedSchedule = await tx.updateSchedule(id, changes);
+  if (updatedSchedule) await recordAudit(req, source, "schedule", id, before, updatedSchedule, changeSetId, tx);
+  return updatedSchedule;
+}
+
+// Re-checks conflicts for just the classes a change set touched, as they were
+// and as they are, and returns the conflicts that appeared
+async function detectChangeSetConflicts(changeSetId: number) {
+  const touched = (await storage.getAuditEvents({ changeSetId }))
+    .filter(event => event.entityType === "schedule")
+    .flatMap(event => [event.before, event.after])
+    .filter((snapshot): snapshot is Record<string, unknown> => snapshot !== null) as Schedule[];
+  return await storage.detectConflicts(touched);
+}
+
+// Checks a class placement against the bell schedule and the institution calendar
+async function getPlacementViolation(dayOfWeek: number, timeSlot: number, duration = 1): Promise<string | null> {
+  const calendar = await storage.getCalendar();
+  const timeSlots = await storage.getTimeSlots();
+  return getSchedulingViolation(calendar, dayOfWeek, timeSlot, timeSlots, duration);
+}
+
+// Resolves the term a request is about: the one asked for, else the current term
+async function getRequestedTermId(termId: unknown): Promise<number | undefined> {
+  if (termId) return Number(termId);
+
+  const terms = await storage.getTerms();
+  return terms.find(term => term.isCurrent)?.id;
+}
+
+// Only one term is current at a time
+async function clearOtherCurrentTerms(termId: number): Promise<void> {
+  const terms = await storage.getTerms();
+  for (const term of terms) {
+    if (term.isCurrent && term.id !== termId) {
+      await storage.updateTerm(term.id, { isCurrent: false });
+    }
+  }
+}
+
+// Checks that a class's section belongs to the program semester the class is for
+async function getSectionViolation(programId: number, semester: number, sectionId: number | null | undefined): Promise<string | null> {
+  if (sectionId === null || sectionId === undefined) return null;
+
+  const section = await storage.getSectionById(sectionId);
+  if (!section) return `Section with ID ${sectionId} not found`;
+  if (section.programId !== programId || section.semester !== semester) {
+    return `Section ${section.name} does not belong to this program semester`;
+  }
+
+  return null;
+}
+
+// Gets the last semester of a program that still has courses, sections or classes
+async function getLastSemesterInUse(programId: number): Promise<number> {
+  const courses = (await storage.getCourses()).filter(course => course.programId === programId);
+  const sections = await storage.getSectionsByProgram(programId);
+  const intakes = (await storage.getSchedules()).flatMap(schedule => getIntakes(schedule))
+    .filter(intake => intake.programId === programId);
+
+  return Math.max(0, ...[...courses, ...sections, ...intakes].map(entry => entry.semester));
+}
+
+// Gets the classes of every term's live timetable and of the open sandboxes, which may still be merged into one
+async function getPlannedSchedules(): Promise<Schedule[]> {
+  const sandboxes = (await storage.getSandboxes()).filter(sandbox => sandbox.status === 'open');
+  const sandboxSchedules = await Promise.all(sandboxes.map(sandbox => storage.getSandboxSchedules(sandbox.id)));
+
+  return [...await storage.getSchedules(), ...sandboxSchedules.flat()];
+}
+
+// Checks that a course's requisites exist and that its prerequisites do not lead back to it
+async function getRequisiteViolation(
+  courseId: number | null,
+  code: string,
+  prerequisiteIds: number[],
+  corequisiteIds: number[]
+): Promise<string | null> {
+  const courses = await storage.getCourses();
+
+  for (const id of [...prerequisiteIds, ...corequisiteIds]) {
+    if (id === courseId) return "A course cannot be its own requisite";
+    if (!courses.some(course => course.id === id)) return `Course with ID ${id} not found`;
+  }
+  if (prerequisiteIds.some(id => corequisiteIds.includes(id))) {
+    return "A course cannot be both a prerequisite and a corequisite";
+  }
+
+  const updated = courses.map(course => course.id === courseId ? { ...course, prerequisiteIds } : course);
+  if (courseId !== null && hasPrerequisiteCycle(courseId, updated)) {
+    return `${code} would become a prerequisite of itself`;
+  }
+
+  return null;
+}
+
+// Checks that the intakes combined into a class exist and are not the class's own
+async function getSharedCohortViolation(programId: number, semester: number, sharedWith: SharedCohort[] | undefined): Promise<string | null> {
+  const programs = await storage.getPrograms();
+  const seen = new Set<string>();
+
+  for (const cohort of sharedWith ?? []) {
+    const program = programs.find(p => p.id === cohort.programId);
+    if (!program) return `Program with ID ${cohort.programId} not found`;
+    if (cohort.semester > program.totalSemesters) {
+      return `${program.code} has no semester ${cohort.semester}`;
+    }
+    if (cohort.programId === programId && cohort.semester === semester) {
+      return "A class cannot be combined with its own intake";
+    }
+
+    const key = `${cohort.programId}-${cohort.semester}`;
+    if (seen.has(key)) return `${program.code} semester ${cohort.semester} is combined into the class twice`;
+    seen.add(key);
+  }
+
+  return null;
+}
+
+// Whether a class is in the timetable a request asks for. A whole program
+// semester's timetable includes the classes combined into it.
+function isInRequestedTimetable(
+  schedule: Schedule,
+  programId: number | undefined,
+  semester: number | undefined,
+  sectionId: number | undefined
+): boolean {
+  if (programId && semester) return isAttendedByIntake(schedule, programId, semester, sectionId ?? null);
+
+  return (!programId || schedule.programId === programId) &&
+    (!semester || schedule.semester === semester) &&
+    (!sectionId || isAttendedBySection(schedule, sectionId));
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // API prefix for all routes
@@ -31,6 +256,385 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(program);
   });
 
+  app.post(`${apiRouter}/programs`, async (req, res) => {
+    try {
+      const validatedData = insertProgramSchema.parse(req.body);
+      if (await storage.getProgramByCode(validatedData.code)) {
+        return res.status(409).json({ message: `Program with code ${validatedData.code} already exists` });
+      }
+      
+      const program = await storage.createProgram(validatedData);
+      res.status(201).json(program);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create program" });
+    }
+  });
+
+  app.put(`${apiRouter}/programs/:code`, async (req, res) => {
+    const code = req.params.code;
+    
+    try {
+      const validatedData = insertProgramSchema.partial().parse(req.body);
+      const program = await storage.getProgramByCode(code);
+      
+      if (!program) {
+        return res.status(404).json({ message: `Program with code ${code} not found` });
+      }
+      
+      if (validatedData.code && validatedData.code !== code && await storage.getProgramByCode(validatedData.code)) {
+        return res.status(409).json({ message: `Program with code ${validatedData.code} already exists` });
+      }
+      
+      // Semesters still in use cannot be dropped
+      if (validatedData.totalSemesters !== undefined && validatedData.totalSemesters < program.totalSemesters) {
+        const lastSemester = await getLastSemesterInUse(program.id);
+        if (validatedData.totalSemesters < lastSemester) {
+          return res.status(409).json({ message: `${program.code} still has courses or classes in semester ${lastSemester}` });
+        }
+      }
+      
+      const updatedProgram = await storage.updateProgram(program.id, validatedData);
+      res.json(updatedProgram);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update program" });
+    }
+  });
+
+  app.post(`${apiRouter}/programs/:code/archive`, async (req, res) => {
+    const code = req.params.code;
+    const program = await storage.getProgramByCode(code);
+    
+    if (!program) {
+      return res.status(404).json({ message: `Program with code ${code} not found` });
+    }
+    
+    if (!isActiveProgram(program)) {
+      return res.status(409).json({ message: `Program ${code} is already archived` });
+    }
+    
+    res.json(await storage.setProgramArchived(program.id, true));
+  });
+
+  app.post(`${apiRouter}/programs/:code/restore`, async (req, res) => {
+    const code = req.params.code;
+    const program = await storage.getProgramByCode(code);
+    
+    if (!program) {
+      return res.status(404).json({ message: `Program with code ${code} not found` });
+    }
+    
+    if (isActiveProgram(program)) {
+      return res.status(409).json({ message: `Program ${code} is not archived` });
+    }
+    
+    res.json(await storage.setProgramArchived(program.id, false));
+  });
+
+  app.get(`${apiRouter}/programs/:code/semesters/:n/coverage`, async (req, res) => {
+    const code = req.params.code;
+    const semester = Number(req.params.n);
+    const program = await storage.getProgramByCode(code);
+    
+    if (!program) {
+      return res.status(404).json({ message: `Program with code ${code} not found` });
+    }
+    
+    if (!Number.isInteger(semester) || semester < 1) {
+      return res.status(400).json({ message: "Semester must be a positive whole number" });
+    }
+    
+    const termId = await getRequestedTermId(req.query.termId);
+    const courses = await storage.getCoursesByProgram(program.id, semester);
+    const schedules = await storage.getSchedulesByProgram(program.id, semester, termId);
+    const sections = await storage.getSectionsByProgram(program.id, semester);
+    const coverage = courses.flatMap(course => getCourseCoverage(course, schedules, sections));
+    
+    // Only courses that need attention are listed
+    res.json({
+      termId,
+      programId: program.id,
+      semester,
+      underScheduled: coverage.filter(entry => entry.status === 'under'),
+      overScheduled: coverage.filter(entry => entry.status === 'over')
+    });
+  });
+
+  app.get(`${apiRouter}/programs/:code/curriculum`, async (req, res) => {
+    const code = req.params.code;
+    const program = await storage.getProgramByCode(code);
+    
+    if (!program) {
+      return res.status(404).json({ message: `Program with code ${code} not found` });
+    }
+    
+    // Requisites may come from another program, so links are checked against every course
+    const courses = await storage.getCourses();
+    const programCourses = courses.filter(course => course.programId === program.id);
+    const isInProgram = (link: CurriculumLink) => programCourses.some(course => course.id === link.courseId);
+    
+    res.json({
+      programId: program.id,
+      semesters: getProgramSemesters(program).map(semester => ({
+        semester,
+        courses: programCourses.filter(course => course.semester === semester)
+      })),
+      links: getCurriculumLinks(courses).filter(isInProgram),
+      warnings: getCurriculumWarnings(courses).filter(isInProgram)
+    });
+  });
+
+  // Academic term routes
+  app.get(`${apiRouter}/terms`, async (req, res) => {
+    const terms = await storage.getTerms();
+    res.json(terms.sort((a, b) => a.startDate.localeCompare(b.startDate)));
+  });
+
+  app.get(`${apiRouter}/terms/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const term = await storage.getTermById(id);
+    
+    if (!term) {
+      return res.status(404).json({ message: `Term with ID ${id} not found` });
+    }
+    
+    res.json(term);
+  });
+
+  app.post(`${apiRouter}/terms`, async (req, res) => {
+    try {
+      const validatedData = insertAcademicTermSchema.parse(req.body);
+      
+      if (validatedData.endDate <= validatedData.startDate) {
+        return res.status(400).json({ message: "Term must end after it starts" });
+      }
+      
+      const term = await storage.createTerm(validatedData);
+      if (term.isCurrent) await clearOtherCurrentTerms(term.id);
+      res.status(201).json(term);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create term" });
+    }
+  });
+
+  app.put(`${apiRouter}/terms/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      const validatedData = insertAcademicTermSchema.partial().parse(req.body);
+      const existingTerm = await storage.getTermById(id);
+      
+      if (!existingTerm) {
+        return res.status(404).json({ message: `Term with ID ${id} not found` });
+      }
+      
+      const merged = { ...existingTerm, ...validatedData };
+      if (merged.endDate <= merged.startDate) {
+        return res.status(400).json({ message: "Term must end after it starts" });
+      }
+      
+      const updatedTerm = await storage.updateTerm(id, validatedData);
+      if (validatedData.isCurrent) await clearOtherCurrentTerms(id);
+      res.json(updatedTerm);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update term" });
+    }
+  });
+
+  app.delete(`${apiRouter}/terms/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    // Refuse to delete a term that still has a timetable
+    const schedules = await storage.getSchedules(id);
+    if (schedules.length > 0) {
+      return res.status(409).json({ message: `Term with ID ${id} still has classes scheduled` });
+    }
+    
+    const success = await storage.deleteTerm(id);
+    
+    if (!success) {
+      return res.status(404).json({ message: `Term with ID ${id} not found` });
+    }
+    
+    res.status(204).send();
+  });
+
+  // Copies another term's timetable into an empty term as a starting draft
+  app.post(`${apiRouter}/terms/:id/rollover`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      const { fromTermId } = z.object({
+        fromTermId: z.number().int(),
+      }).parse(req.body);
+      
+      if (!await storage.getTermById(id)) {
+        return res.status(404).json({ message: `Term with ID ${id} not found` });
+      }
+      
+      if (!await storage.getTermById(fromTermId)) {
+        return res.status(404).json({ message: `Term with ID ${fromTermId} not found` });
+      }
+      
+      if (fromTermId === id) {
+        return res.status(400).json({ message: "A term cannot be rolled over into itself" });
+      }
+      
+      // Never mix a copied timetable into one that is already being planned
+      if ((await storage.getSchedules(id)).length > 0) {
+        return res.status(409).json({ message: `Term with ID ${id} already has classes scheduled` });
+      }
+      
+      const fromSchedules = await storage.getSchedules(fromTermId);
+      if (fromSchedules.length === 0) {
+        return res.status(201).json([]);
+      }
+      
+      const { changeSetId, result: created } = (await writeChangeSet(req, "Roll over term", async (tx, changeSetId) => {
+        const copies = [];
+        for (const { id: _, ...schedule } of fromSchedules) {
+          const copy = await tx.createSchedule({ ...schedule, termId: id });
+          await recordAudit(req, "rollover", "schedule", copy.id, null, copy, changeSetId, tx);
+          copies.push(copy);
+        }
+        return copies;
+      }))!;
+      
+      await detectChangeSetConflicts(changeSetId);
+      res.status(201).json(created);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to roll over term" });
+    }
+  });
+
+  // Promotes a term's draft timetable to the published one, provided it is conflict free
+  app.post(`${apiRouter}/terms/:id/publish`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    if (!await storage.getTermById(id)) {
+      return res.status(404).json({ message: `Term with ID ${id} not found` });
+    }
+    
+    try {
+      // Validate the whole draft, not just the conflicts found so far
+      await storage.detectConflicts();
+      // Waived clashes are intended and do not hold a publish back
+      const unresolved = (await storage.getConflicts(id)).filter(conflict => isOutstanding(conflict));
+      
+      if (unresolved.length > 0) {
+        return res.status(409).json({
+          message: `Term with ID ${id} has ${unresolved.length} unresolved conflicts`,
+          conflicts: unresolved
+        });
+      }
+      
+      const term = await storage.publishTerm(id);
+      res.json(term);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to publish term" });
+    }
+  });
+
+  // Section routes
+  app.get(`${apiRouter}/sections`, async (req, res) => {
+    const programId = req.query.programId ? Number(req.query.programId) : undefined;
+    const semester = req.query.semester ? Number(req.query.semester) : undefined;
+    
+    if (programId) {
+      const sections = await storage.getSectionsByProgram(programId, semester);
+      return res.json(sections);
+    }
+    
+    const sections = await storage.getSections();
+    res.json(sections);
+  });
+
+  app.get(`${apiRouter}/sections/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const section = await storage.getSectionById(id);
+    
+    if (!section) {
+      return res.status(404).json({ message: `Section with ID ${id} not found` });
+    }
+    
+    res.json(section);
+  });
+
+  app.post(`${apiRouter}/sections`, async (req, res) => {
+    try {
+      const validatedData = insertSectionSchema.parse(req.body);
+      const section = await storage.createSection(validatedData);
+      res.status(201).json(section);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create section" });
+    }
+  });
+
+  app.put(`${apiRouter}/sections/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      // Moving a section to another intake would strand its classes, so only the name can change
+      const validatedData = insertSectionSchema.pick({ name: true }).parse(req.body);
+      const updatedSection = await storage.updateSection(id, validatedData);
+      
+      if (!updatedSection) {
+        return res.status(404).json({ message: `Section with ID ${id} not found` });
+      }
+      
+      res.json(updatedSection);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update section" });
+    }
+  });
+
+  app.delete(`${apiRouter}/sections/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      if (!await storage.getSectionById(id)) {
+        return res.status(404).json({ message: `Section with ID ${id} not found` });
+      }
+      
+      // Refuse to delete a section that still has its own classes, live or in a sandbox
+      const schedules = await getPlannedSchedules();
+      if (schedules.some(schedule => schedule.sectionId === id)) {
+        return res.status(409).json({ message: `Section with ID ${id} still has classes scheduled` });
+      }
+      
+      // The section's clashes in whole-intake classes go with it
+      const conflicts = (await storage.getConflicts()).filter(conflict => conflict.sectionId === id);
+      for (const conflict of conflicts) {
+        await storage.deleteConflict(conflict.id);
+      }
+      
+      await storage.deleteSection(id);
+      res.status(204).send();
+    } catch (err) {
+      res.status(500).json({ message: "Failed to delete section" });
+    }
+  });
+
   // Course routes
   app.get(`${apiRouter}/courses`, async (req, res) => {
     const programId = req.query.programId ? Number(req.query.programId) : undefined;
@@ -45,267 +649,981 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(courses);
   });
 
-  app.get(`${apiRouter}/courses/:id`, async (req, res) => {
+  app.get(`${apiRouter}/courses/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const course = await storage.getCourseById(id);
+    
+    if (!course) {
+      return res.status(404).json({ message: `Course with ID ${id} not found` });
+    }
+    
+    res.json(course);
+  });
+
+  app.post(`${apiRouter}/courses`, async (req, res) => {
+    try {
+      const validatedData = insertCourseSchema.parse(req.body);
+      if (validatedData.isCore && validatedData.electiveGroup) {
+        return res.status(400).json({ message: "A core course cannot be in an elective group" });
+      }
+
+      const requisiteViolation = await getRequisiteViolation(
+        null, validatedData.code, validatedData.prerequisiteIds ?? [], validatedData.corequisiteIds ?? []
+      );
+      if (requisiteViolation) {
+        return res.status(400).json({ message: requisiteViolation });
+      }
+
+      const course = await storage.createCourse(validatedData);
+      await recordAudit(req, "manual", "course", course.id, null, course);
+      res.status(201).json(course);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create course" });
+    }
+  });
+
+  app.put(`${apiRouter}/courses/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      const validatedData = insertCourseSchema.partial().parse(req.body);
+      const existingCourse = await storage.getCourseById(id);
+      if (!existingCourse) {
+        return res.status(404).json({ message: `Course with ID ${id} not found` });
+      }
+
+      const merged = { ...existingCourse, ...validatedData };
+      if (merged.isCore && merged.electiveGroup) {
+        return res.status(400).json({ message: "A core course cannot be in an elective group" });
+      }
+
+      if (validatedData.prerequisiteIds !== undefined || validatedData.corequisiteIds !== undefined) {
+        const requisiteViolation = await getRequisiteViolation(id, merged.code, merged.prerequisiteIds, merged.corequisiteIds);
+        if (requisiteViolation) {
+          return res.status(400).json({ message: requisiteViolation });
+        }
+      }
+
+      const updatedCourse = await storage.updateCourse(id, validatedData);
+      if (!updatedCourse) {
+        return res.status(404).json({ message: `Course with ID ${id} not found` });
+      }
+      
+      await recordAudit(req, "manual", "course", id, existingCourse, updatedCourse);
+
+      // Whether the course's classes may share a period with its group's other options has changed
+      if (getElectiveGroupKey(existingCourse) !== getElectiveGroupKey(updatedCourse)) {
+        const schedules = await storage.getSchedules();
+        await storage.detectConflicts(schedules.filter(schedule => schedule.courseId === id));
+      }
+
+      res.json(updatedCourse);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update course" });
+    }
+  });
+
+  app.delete(`${apiRouter}/courses/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const existingCourse = await storage.getCourseById(id);
+    const success = await storage.deleteCourse(id);
+    
+    if (!existingCourse || !success) {
+      return res.status(404).json({ message: `Course with ID ${id} not found` });
+    }
+    
+    await recordAudit(req, "manual", "course", id, existingCourse, null);
+
+    // Courses that needed the deleted one no longer do
+    for (const course of await storage.getCourses()) {
+      if (!course.prerequisiteIds.includes(id) && !course.corequisiteIds.includes(id)) continue;
+
+      const updatedCourse = await storage.updateCourse(course.id, {
+        prerequisiteIds: course.prerequisiteIds.filter(requisiteId => requisiteId !== id),
+        corequisiteIds: course.corequisiteIds.filter(requisiteId => requisiteId !== id)
+      });
+      await recordAudit(req, "manual", "course", course.id, course, updatedCourse ?? null);
+    }
+
+    res.status(204).send();
+  });
+
+  // Teacher routes
+  app.get(`${apiRouter}/teachers`, async (req, res) => {
+    const teachers = await storage.getTeachers();
+    res.json(teachers);
+  });
+
+  app.get(`${apiRouter}/teachers/workload`, async (req, res) => {
+    const teachers = await storage.getTeachers();
+    const schedules = await storage.getSchedules(await getRequestedTermId(req.query.termId));
+    const calendar = await storage.getCalendar();
+    const timeSlots = await storage.getTimeSlots();
+    
+    res.json(teachers.map(teacher => ({
+      ...getTeacherWorkload(teacher, schedules, calendar, timeSlots),
+      teacherName: teacher.name,
+      maxPeriodsPerDay: teacher.maxPeriodsPerDay,
+      maxPeriodsPerWeek: teacher.maxPeriodsPerWeek,
+      maxConsecutivePeriods: teacher.maxConsecutivePeriods
+    })));
+  });
+
+  app.get(`${apiRouter}/teachers/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const teacher = await storage.getTeacherById(id);
+    
+    if (!teacher) {
+      return res.status(404).json({ message: `Teacher with ID ${id} not found` });
+    }
+    
+    res.json(teacher);
+  });
+
+  app.post(`${apiRouter}/teachers`, async (req, res) => {
+    try {
+      const validatedData = insertTeacherSchema.parse(req.body);
+      const teacher = await storage.createTeacher(validatedData);
+      await recordAudit(req, "manual", "teacher", teacher.id, null, teacher);
+      res.status(201).json(teacher);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create teacher" });
+    }
+  });
+
+  app.put(`${apiRouter}/teachers/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      const validatedData = insertTeacherSchema.partial().parse(req.body);
+      const existingTeacher = await storage.getTeacherById(id);
+      const updatedTeacher = await storage.updateTeacher(id, validatedData);
+      
+      if (!existingTeacher || !updatedTeacher) {
+        return res.status(404).json({ message: `Teacher with ID ${id} not found` });
+      }
+      
+      await recordAudit(req, "manual", "teacher", id, existingTeacher, updatedTeacher);
+      
+      // Workload conflicts are measured against the limits, so new limits re-check the teacher's classes
+      const limitsChanged = (['maxPeriodsPerDay', 'maxPeriodsPerWeek', 'maxConsecutivePeriods'] as const)
+        .some(field => existingTeacher[field] !== updatedTeacher[field]);
+      if (limitsChanged) {
+        await storage.detectConflicts((await storage.getSchedules()).filter(schedule => schedule.teacherId === id));
+      }
+      
+      res.json(updatedTeacher);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update teacher" });
+    }
+  });
+
+  app.delete(`${apiRouter}/teachers/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const existingTeacher = await storage.getTeacherById(id);
+    const success = await storage.deleteTeacher(id);
+    
+    if (!existingTeacher || !success) {
+      return res.status(404).json({ message: `Teacher with ID ${id} not found` });
+    }
+    
+    await recordAudit(req, "manual", "teacher", id, existingTeacher, null);
+    res.status(204).send();
+  });
+
+  // Room routes
+  app.get(`${apiRouter}/rooms`, async (req, res) => {
+    const rooms = await storage.getRooms();
+    res.json(rooms);
+  });
+
+  app.get(`${apiRouter}/rooms/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const room = await storage.getRoomById(id);
+    
+    if (!room) {
+      return res.status(404).json({ message: `Room with ID ${id} not found` });
+    }
+    
+    res.json(room);
+  });
+
+  app.post(`${apiRouter}/rooms`, async (req, res) => {
+    try {
+      const validatedData = insertRoomSchema.parse(req.body);
+      const room = await storage.createRoom(validatedData);
+      res.status(201).json(room);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create room" });
+    }
+  });
+
+  app.put(`${apiRouter}/rooms/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      const validatedData = insertRoomSchema.partial().parse(req.body);
+      const updatedRoom = await storage.updateRoom(id, validatedData);
+      
+      if (!updatedRoom) {
+        return res.status(404).json({ message: `Room with ID ${id} not found` });
+      }
+      
+      res.json(updatedRoom);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update room" });
+    }
+  });
+
+  app.delete(`${apiRouter}/rooms/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      if (!await storage.getRoomById(id)) {
+        return res.status(404).json({ message: `Room with ID ${id} not found` });
+      }
+      
+      // Refuse to delete a room that classes, live or in a sandbox, are still held in
+      const schedules = await getPlannedSchedules();
+      if (schedules.some(schedule => schedule.roomId === id)) {
+        return res.status(409).json({ message: `Room with ID ${id} still has classes scheduled` });
+      }
+      
+      // Clashes once found in the room are history of classes that have since moved
+      const conflicts = (await storage.getConflicts()).filter(conflict => conflict.roomId === id);
+      for (const conflict of conflicts) {
+        await storage.deleteConflict(conflict.id);
+      }
+      
+      await storage.deleteRoom(id);
+      res.status(204).send();
+    } catch (err) {
+      res.status(500).json({ message: "Failed to delete room" });
+    }
+  });
+
+  // Schedule routes
+  app.get(`${apiRouter}/schedules`, async (req, res) => {
+    const programId = req.query.programId ? Number(req.query.programId) : undefined;
+    const semester = req.query.semester ? Number(req.query.semester) : undefined;
+    const sectionId = req.query.sectionId ? Number(req.query.sectionId) : undefined;
+    const termId = req.query.termId ? Number(req.query.termId) : undefined;
+    
+    if (programId && semester) {
+      const schedules = await storage.getSchedulesByProgram(programId, semester, termId);
+      // A section's timetable includes the classes its whole intake attends
+      return res.json(sectionId ? schedules.filter(s => isAttendedByIntake(s, programId, semester, sectionId)) : schedules);
+    }
+    
+    const schedules = await storage.getSchedules(termId);
+    res.json(schedules);
+  });
+
+  // The timetable viewers and exports see, as of the term's last publish
+  app.get(`${apiRouter}/schedules/published`, async (req, res) => {
+    const programId = req.query.programId ? Number(req.query.programId) : undefined;
+    const semester = req.query.semester ? Number(req.query.semester) : undefined;
+    const sectionId = req.query.sectionId ? Number(req.query.sectionId) : undefined;
+    const termId = req.query.termId ? Number(req.query.termId) : undefined;
+    
+    const schedules = (await storage.getPublishedSchedules(termId))
+      .filter(s => isInRequestedTimetable(s, programId, semester, sectionId));
+    res.json(schedules);
+  });
+
+  app.post(`${apiRouter}/schedules`, async (req, res) => {
+    try {
+      const validatedData = insertScheduleSchema.parse(req.body);
+      
+      const violation = await getPlacementViolation(
+        validatedData.dayOfWeek,
+        validatedData.timeSlot,
+        validatedData.duration
+      ) ?? await getSectionViolation(
+        validatedData.programId,
+        validatedData.semester,
+        validatedData.sectionId
+      ) ?? await getSharedCohortViolation(
+        validatedData.programId,
+        validatedData.semester,
+        validatedData.sharedWith
+      );
+      if (violation) {
+        return res.status(400).json({ message: violation });
+      }
+      
+      const { changeSetId, result: schedule } = (await writeChangeSet(req, "Add class", async (tx, changeSetId) => {
+        const created = await tx.createSchedule(validatedData);
+        await recordAudit(req, "manual", "schedule", created.id, null, created, changeSetId, tx);
+        return created;
+      }))!;
+      await detectChangeSetConflicts(changeSetId);
+      res.status(201).json(schedule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create schedule" });
+    }
+  });
+
+  app.post(`${apiRouter}/schedules/bulk`, async (req, res) => {
+    try {
+      const validatedData = z.array(insertScheduleSchema).parse(req.body);
+      
+      // Check every placement before creating any, so a bad entry leaves nothing behind
+      for (let index = 0; index < validatedData.length; index++) {
+        const { programId, semester, sectionId, dayOfWeek, timeSlot, duration, sharedWith } = validatedData[index];
+        const violation = await getPlacementViolation(dayOfWeek, timeSlot, duration) ??
+          await getSectionViolation(programId, semester, sectionId) ??
+          await getSharedCohortViolation(programId, semester, sharedWith);
+        if (violation) {
+          return res.status(400).json({ message: `Entry ${index}: ${violation}` });
+        }
+      }
+      
+      if (validatedData.length === 0) {
+        return res.status(201).json([]);
+      }
+      
+      const { changeSetId, result: created } = (await writeChangeSet(req, `Import ${validatedData.length} classes`, async (tx, changeSetId) => {
+        const schedules = [];
+        for (const scheduleData of validatedData) {
+          const schedule = await tx.createSchedule(scheduleData);
+          await recordAudit(req, "import", "schedule", schedule.id, null, schedule, changeSetId, tx);
+          schedules.push(schedule);
+        }
+        return schedules;
+      }))!;
+      
+      // Checked once for the whole import rather than class by class
+      await detectChangeSetConflicts(changeSetId);
+      res.status(201).json(created);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create schedules" });
+    }
+  });
+
+  app.post(`${apiRouter}/schedules/generate`, async (req, res) => {
+    try {
+      const { termId, programId, semester, sectionId } = z.object({
+        termId: z.number().int(),
+        programId: z.number().int(),
+        semester: z.number().int().min(1),
+        sectionId: z.number().int().nullable().optional(),
+      }).parse(req.body);
+      
+      if (!await storage.getTermById(termId)) {
+        return res.status(404).json({ message: `Term with ID ${termId} not found` });
+      }
+      
+      const sectionViolation = await getSectionViolation(programId, semester, sectionId);
+      if (sectionViolation) {
+        return res.status(400).json({ message: sectionViolation });
+      }
+      
+      const timetable = await generateTimetable(storage, termId, programId, semester, sectionId ?? null);
+      res.json(timetable);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to generate timetable" });
+    }
+  });
+
+  app.put(`${apiRouter}/schedules/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      // A class stays in the term it was planned for
+      const validatedData = insertScheduleSchema.omit({ termId: true }).partial().parse(req.body);
+      const existingSchedule = await storage.getScheduleById(id);
+      
+      if (!existingSchedule) {
+        return res.status(404).json({ message: `Schedule with ID ${id} not found` });
+      }
+      
+      if (
+        validatedData.dayOfWeek !== undefined ||
+        validatedData.timeSlot !== undefined ||
+        validatedData.duration !== undefined ||
+        validatedData.programId !== undefined ||
+        validatedData.semester !== undefined ||
+        validatedData.sectionId !== undefined ||
+        validatedData.sharedWith !== undefined
+      ) {
+        const merged = { ...existingSchedule, ...validatedData };
+        const violation = await getPlacementViolation(
+          merged.dayOfWeek,
+          merged.timeSlot,
+          merged.duration
+        ) ?? await getSectionViolation(
+          merged.programId,
+          merged.semester,
+          merged.sectionId
+        ) ?? await getSharedCohortViolation(
+          merged.programId,
+          merged.semester,
+          merged.sharedWith
+        );
+        if (violation) {
+          return res.status(400).json({ message: violation });
+        }
+      }
+      
+      const written = await writeChangeSet(req, "Edit class", (tx, changeSetId) =>
+        updateScheduleWithAudit(tx, req, "manual", id, validatedData, changeSetId)
+      );
+      
+      if (!written) {
+        return res.status(404).json({ message: `Schedule with ID ${id} not found` });
+      }
+      
+      await detectChangeSetConflicts(written.changeSetId);
+      res.json(written.result);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update schedule" });
+    }
+  });
+
+  app.delete(`${apiRouter}/schedules/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const existingSchedule = await storage.getScheduleById(id);
+    
+    if (!existingSchedule) {
+      return res.status(404).json({ message: `Schedule with ID ${id} not found` });
+    }
+    
+    const written = await writeChangeSet(req, "Delete class", async (tx, changeSetId) => {
+      if (!await tx.deleteSchedule(id)) return undefined;
+      await recordAudit(req, "manual", "schedule", id, existingSchedule, null, changeSetId, tx);
+      return true;
+    });
+    
+    if (!written) {
+      return res.status(404).json({ message: `Schedule with ID ${id} not found` });
+    }
+    
+    await detectChangeSetConflicts(written.changeSetId);
+    res.status(204).send();
+  });
+
+  // Conflict routes
+  app.get(`${apiRouter}/conflicts`, async (req, res) => {
+    const termId = req.query.termId ? Number(req.query.termId) : undefined;
+    const conflicts = await storage.getConflicts(termId);
+    res.json(conflicts);
+  });
+
+  app.get(`${apiRouter}/conflicts/detect`, async (req, res) => {
+    const conflicts = await storage.detectConflicts();
+    res.json(conflicts);
+  });
+
+  // Report of the waivers still in force, soonest to expire first
+  app.get(`${apiRouter}/conflicts/waivers`, async (req, res) => {
+    const termId = req.query.termId ? Number(req.query.termId) : undefined;
+    const waived = (await storage.getConflicts(termId))
+      .filter(conflict => isWaived(conflict))
+      .sort((a, b) => a.waiverExpiresAt!.getTime() - b.waiverExpiresAt!.getTime());
+    res.json(waived);
+  });
+
+  // Suggestions come best first; ?limit keeps just the top few
+  app.get(`${apiRouter}/conflicts/:id/suggestions`, async (req, res) => {
     const id = Number(req.params.id);
-    const course = await storage.getCourseById(id);
     
-    if (!course) {
-      return res.status(404).json({ message: `Course with ID ${id} not found` });
+    try {
+      const { limit } = z.object({
+        limit: z.coerce.number().int().min(1).max(MAX_SUGGESTIONS).default(MAX_SUGGESTIONS),
+      }).parse(req.query);
+      const conflict = await storage.getConflictById(id);
+      
+      if (!conflict) {
+        return res.status(404).json({ message: `Conflict with ID ${id} not found` });
+      }
+      
+      const suggestions = await storage.generateConflictSuggestions(id);
+      res.json(suggestions.slice(0, limit));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to generate suggestions" });
     }
-    
-    res.json(course);
   });
 
-  app.post(`${apiRouter}/courses`, async (req, res) => {
+  // Without changes, plans a combined repair of the term's conflicts for
+  // approval; with the approved changes, applies them all at once
+  app.post(`${apiRouter}/conflicts/resolve-all`, async (req, res) => {
     try {
-      const validatedData = insertCourseSchema.parse(req.body);
-      const course = await storage.createCourse(validatedData);
-      res.status(201).json(course);
+      const repairFields = z.object({
+        dayOfWeek: z.number().int(),
+        timeSlot: z.number().int(),
+        teacherId: z.number().int(),
+        roomId: z.number().int().nullable(),
+      });
+      const { termId, programId, semester, changes } = z.object({
+        termId: z.number().int(),
+        programId: z.number().int().optional(),
+        semester: z.number().int().min(1).optional(),
+        changes: z.array(z.object({
+          scheduleId: z.number().int(),
+          before: repairFields,
+          after: repairFields,
+        })).min(1).optional(),
+      }).parse(req.body);
+      
+      if (!await storage.getTermById(termId)) {
+        return res.status(404).json({ message: `Term with ID ${termId} not found` });
+      }
+      
+      if (!changes) {
+        return res.json(await planRepair(storage, { termId, programId, semester }));
+      }
+      
+      const result = await applyRepair(storage, termId, changes, getActor(req));
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      const created = await detectChangeSetConflicts(result.changeSet.id);
+      res.json({ changeSet: result.changeSet, resolved: result.resolved, created });
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors });
       }
-      res.status(500).json({ message: "Failed to create course" });
+      res.status(500).json({ message: "Failed to resolve conflicts" });
     }
   });
 
-  app.put(`${apiRouter}/courses/:id`, async (req, res) => {
+  app.post(`${apiRouter}/conflicts/:id/resolve`, async (req, res) => {
     const id = Number(req.params.id);
+    const { suggestionId } = req.body;
+    
+    if (!suggestionId) {
+      return res.status(400).json({ message: "suggestionId is required" });
+    }
     
     try {
-      const validatedData = insertCourseSchema.partial().parse(req.body);
-      const updatedCourse = await storage.updateCourse(id, validatedData);
+      // A suggestion that no longer fits the timetable is refused with a 409
+      const result = await resolveConflict(storage, id, suggestionId, getActor(req));
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
       
-      if (!updatedCourse) {
-        return res.status(404).json({ message: `Course with ID ${id} not found` });
+      // Whatever the change brought to light is reported alongside what it cleared
+      const created = await detectChangeSetConflicts(result.changeSet.id);
+      
+      res.json({
+        message: "Conflict resolved successfully",
+        changeSet: result.changeSet,
+        resolved: result.resolved,
+        created
+      });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to resolve conflict" });
+    }
+  });
+
+  // A coordinator accepts a clash as intended, such as a combined lecture, until the waiver expires
+  app.post(`${apiRouter}/conflicts/:id/waiver`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      const { reason, expiresAt } = z.object({
+        reason: z.string().trim().min(1),
+        expiresAt: z.coerce.date(),
+      }).parse(req.body);
+      const conflict = await storage.getConflictById(id);
+      
+      if (!conflict) {
+        return res.status(404).json({ message: `Conflict with ID ${id} not found` });
       }
       
-      res.json(updatedCourse);
+      if (conflict.resolved) {
+        return res.status(409).json({ message: `Conflict with ID ${id} is already resolved` });
+      }
+      
+      if (expiresAt <= new Date()) {
+        return res.status(400).json({ message: "A waiver must expire in the future" });
+      }
+      
+      const waived = await storage.updateConflict(id, {
+        waiverReason: reason,
+        waivedBy: getActor(req),
+        waivedAt: new Date(),
+        waiverExpiresAt: expiresAt
+      });
+      res.json(waived);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors });
       }
-      res.status(500).json({ message: "Failed to update course" });
+      res.status(500).json({ message: "Failed to waive conflict" });
     }
   });
 
-  app.delete(`${apiRouter}/courses/:id`, async (req, res) => {
+  app.delete(`${apiRouter}/conflicts/:id/waiver`, async (req, res) => {
     const id = Number(req.params.id);
-    const success = await storage.deleteCourse(id);
+    const conflict = await storage.getConflictById(id);
     
-    if (!success) {
-      return res.status(404).json({ message: `Course with ID ${id} not found` });
+    if (!conflict) {
+      return res.status(404).json({ message: `Conflict with ID ${id} not found` });
     }
     
-    res.status(204).send();
+    const updated = await storage.updateConflict(id, NO_WAIVER);
+    res.json(updated);
   });
 
-  // Teacher routes
-  app.get(`${apiRouter}/teachers`, async (req, res) => {
-    const teachers = await storage.getTeachers();
-    res.json(teachers);
+  // Sandbox routes. A sandbox is a private fork of a term's timetable; its
+  // classes are edited and checked without touching the live timetable.
+  app.get(`${apiRouter}/sandboxes`, async (req, res) => {
+    const sandboxes = await storage.getSandboxes();
+    res.json(sandboxes.sort((a, b) => b.id - a.id));
   });
 
-  app.get(`${apiRouter}/teachers/:id`, async (req, res) => {
+  app.get(`${apiRouter}/sandboxes/:id`, async (req, res) => {
     const id = Number(req.params.id);
-    const teacher = await storage.getTeacherById(id);
+    const sandbox = await storage.getSandboxById(id);
     
-    if (!teacher) {
-      return res.status(404).json({ message: `Teacher with ID ${id} not found` });
+    if (!sandbox) {
+      return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
     }
     
-    res.json(teacher);
+    res.json(sandbox);
   });
 
-  app.post(`${apiRouter}/teachers`, async (req, res) => {
+  app.post(`${apiRouter}/sandboxes`, async (req, res) => {
     try {
-      const validatedData = insertTeacherSchema.parse(req.body);
-      const teacher = await storage.createTeacher(validatedData);
-      res.status(201).json(teacher);
-    } catch (err) {
-      if (err instanceof z.ZodError) {
-        return res.status(400).json({ message: err.errors });
+      const validatedData = insertSandboxSchema.pick({ name: true, termId: true }).parse(req.body);
+      
+      if (!await storage.getTermById(validatedData.termId)) {
+        return res.status(404).json({ message: `Term with ID ${validatedData.termId} not found` });
       }
-      res.status(500).json({ message: "Failed to create teacher" });
-    }
-  });
-
-  app.put(`${apiRouter}/teachers/:id`, async (req, res) => {
-    const id = Number(req.params.id);
-    
-    try {
-      const validatedData = insertTeacherSchema.partial().parse(req.body);
-      const updatedTeacher = await storage.updateTeacher(id, validatedData);
       
-      if (!updatedTeacher) {
-        return res.status(404).json({ message: `Teacher with ID ${id} not found` });
+      const sandboxes = await storage.getSandboxes();
+      if (sandboxes.some(sandbox => sandbox.name === validatedData.name)) {
+        return res.status(409).json({ message: `A sandbox named "${validatedData.name}" already exists` });
       }
       
-      res.json(updatedTeacher);
+      const sandbox = await storage.createSandbox({ ...validatedData, status: 'open', createdBy: getActor(req) });
+      res.status(201).json(sandbox);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors });
       }
-      res.status(500).json({ message: "Failed to update teacher" });
+      res.status(500).json({ message: "Failed to create sandbox" });
     }
   });
 
-  app.delete(`${apiRouter}/teachers/:id`, async (req, res) => {
+  app.get(`${apiRouter}/sandboxes/:id/schedules`, async (req, res) => {
     const id = Number(req.params.id);
-    const success = await storage.deleteTeacher(id);
-    
-    if (!success) {
-      return res.status(404).json({ message: `Teacher with ID ${id} not found` });
-    }
-    
-    res.status(204).send();
-  });
-
-  // Schedule routes
-  app.get(`${apiRouter}/schedules`, async (req, res) => {
     const programId = req.query.programId ? Number(req.query.programId) : undefined;
     const semester = req.query.semester ? Number(req.query.semester) : undefined;
+    const sectionId = req.query.sectionId ? Number(req.query.sectionId) : undefined;
     
-    if (programId && semester) {
-      const schedules = await storage.getSchedulesByProgram(programId, semester);
-      return res.json(schedules);
+    if (!await storage.getSandboxById(id)) {
+      return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
     }
     
-    const schedules = await storage.getSchedules();
+    const schedules = (await storage.getSandboxSchedules(id))
+      .filter(s => isInRequestedTimetable(s, programId, semester, sectionId));
     res.json(schedules);
   });
 
-  app.post(`${apiRouter}/schedules`, async (req, res) => {
+  app.post(`${apiRouter}/sandboxes/:id/schedules`, async (req, res) => {
+    const id = Number(req.params.id);
+    
     try {
-      const validatedData = insertScheduleSchema.parse(req.body);
-      const schedule = await storage.createSchedule(validatedData);
+      // A sandbox class belongs to the sandbox's term
+      const validatedData = insertScheduleSchema.omit({ termId: true }).parse(req.body);
+      const sandbox = await storage.getSandboxById(id);
+      
+      if (!sandbox) {
+        return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
+      }
+      
+      if (sandbox.status !== 'open') {
+        return res.status(409).json({ message: `Sandbox "${sandbox.name}" is already ${sandbox.status}` });
+      }
+      
+      const violation = await getPlacementViolation(
+        validatedData.dayOfWeek,
+        validatedData.timeSlot,
+        validatedData.duration
+      ) ?? await getSectionViolation(
+        validatedData.programId,
+        validatedData.semester,
+        validatedData.sectionId
+      ) ?? await getSharedCohortViolation(
+        validatedData.programId,
+        validatedData.semester,
+        validatedData.sharedWith
+      );
+      if (violation) {
+        return res.status(400).json({ message: violation });
+      }
+      
+      const schedule = await storage.createSandboxSchedule({
+        ...validatedData,
+        sandboxId: id,
+        sourceScheduleId: null,
+        termId: sandbox.termId
+      });
       res.status(201).json(schedule);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors });
       }
-      res.status(500).json({ message: "Failed to create schedule" });
+      res.status(500).json({ message: "Failed to create sandbox schedule" });
     }
   });
 
-  app.put(`${apiRouter}/schedules/:id`, async (req, res) => {
+  app.put(`${apiRouter}/sandboxes/:id/schedules/:scheduleId`, async (req, res) => {
     const id = Number(req.params.id);
+    const scheduleId = Number(req.params.scheduleId);
     
     try {
-      const validatedData = insertScheduleSchema.partial().parse(req.body);
-      const updatedSchedule = await storage.updateSchedule(id, validatedData);
+      const validatedData = insertScheduleSchema.omit({ termId: true }).partial().parse(req.body);
+      const sandbox = await storage.getSandboxById(id);
+      const existingSchedule = await storage.getSandboxScheduleById(scheduleId);
       
-      if (!updatedSchedule) {
-        return res.status(404).json({ message: `Schedule with ID ${id} not found` });
+      if (!sandbox) {
+        return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
+      }
+      
+      if (!existingSchedule || existingSchedule.sandboxId !== id) {
+        return res.status(404).json({ message: `Schedule with ID ${scheduleId} not found` });
+      }
+      
+      if (sandbox.status !== 'open') {
+        return res.status(409).json({ message: `Sandbox "${sandbox.name}" is already ${sandbox.status}` });
+      }
+      
+      const merged = { ...existingSchedule, ...validatedData };
+      const violation = await getPlacementViolation(
+        merged.dayOfWeek,
+        merged.timeSlot,
+        merged.duration
+      ) ?? await getSectionViolation(
+        merged.programId,
+        merged.semester,
+        merged.sectionId
+      ) ?? await getSharedCohortViolation(
+        merged.programId,
+        merged.semester,
+        merged.sharedWith
+      );
+      if (violation) {
+        return res.status(400).json({ message: violation });
       }
       
+      const updatedSchedule = await storage.updateSandboxSchedule(scheduleId, validatedData);
       res.json(updatedSchedule);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors });
       }
-      res.status(500).json({ message: "Failed to update schedule" });
+      res.status(500).json({ message: "Failed to update sandbox schedule" });
     }
   });
 
-  app.delete(`${apiRouter}/schedules/:id`, async (req, res) => {
+  app.delete(`${apiRouter}/sandboxes/:id/schedules/:scheduleId`, async (req, res) => {
     const id = Number(req.params.id);
-    const success = await storage.deleteSchedule(id);
+    const scheduleId = Number(req.params.scheduleId);
+    const sandbox = await storage.getSandboxById(id);
+    const existingSchedule = await storage.getSandboxScheduleById(scheduleId);
     
-    if (!success) {
-      return res.status(404).json({ message: `Schedule with ID ${id} not found` });
+    if (!sandbox) {
+      return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
+    }
+    
+    if (!existingSchedule || existingSchedule.sandboxId !== id) {
+      return res.status(404).json({ message: `Schedule with ID ${scheduleId} not found` });
     }
     
+    if (sandbox.status !== 'open') {
+      return res.status(409).json({ message: `Sandbox "${sandbox.name}" is already ${sandbox.status}` });
+    }
+    
+    await storage.deleteSandboxSchedule(scheduleId);
     res.status(204).send();
   });
 
-  // Conflict routes
-  app.get(`${apiRouter}/conflicts`, async (req, res) => {
-    const conflicts = await storage.getConflicts();
+  // Clashes in the sandbox's timetable, found afresh on each request
+  app.get(`${apiRouter}/sandboxes/:id/conflicts`, async (req, res) => {
+    const id = Number(req.params.id);
+    const sandbox = await storage.getSandboxById(id);
+    
+    if (!sandbox) {
+      return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
+    }
+    
+    const conflicts = await getSandboxConflicts(storage, sandbox);
     res.json(conflicts);
   });
 
-  app.get(`${apiRouter}/conflicts/detect`, async (req, res) => {
-    const conflicts = await storage.detectConflicts();
-    res.json(conflicts);
+  app.get(`${apiRouter}/sandboxes/:id/compare`, async (req, res) => {
+    const id = Number(req.params.id);
+    const sandbox = await storage.getSandboxById(id);
+    
+    if (!sandbox) {
+      return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
+    }
+    
+    const comparison = await compareSandbox(storage, sandbox);
+    res.json(comparison);
   });
 
-  app.get(`${apiRouter}/conflicts/:id/suggestions`, async (req, res) => {
+  app.post(`${apiRouter}/sandboxes/:id/merge`, async (req, res) => {
     const id = Number(req.params.id);
-    const conflict = await storage.getConflictById(id);
+    const sandbox = await storage.getSandboxById(id);
     
-    if (!conflict) {
-      return res.status(404).json({ message: `Conflict with ID ${id} not found` });
+    if (!sandbox) {
+      return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
     }
     
-    const suggestions = await storage.generateConflictSuggestions(id);
-    res.json(suggestions);
+    try {
+      const result = await mergeSandbox(storage, sandbox, getActor(req));
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      await detectChangeSetConflicts(result.changeSet.id);
+      res.json(result.sandbox);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to merge sandbox" });
+    }
   });
 
-  app.post(`${apiRouter}/conflicts/:id/resolve`, async (req, res) => {
+  app.post(`${apiRouter}/sandboxes/:id/discard`, async (req, res) => {
     const id = Number(req.params.id);
-    const { suggestionId } = req.body;
+    const sandbox = await storage.getSandboxById(id);
     
-    if (!suggestionId) {
-      return res.status(400).json({ message: "suggestionId is required" });
+    if (!sandbox) {
+      return res.status(404).json({ message: `Sandbox with ID ${id} not found` });
     }
     
-    const conflict = await storage.getConflictById(id);
-    if (!conflict) {
-      return res.status(404).json({ message: `Conflict with ID ${id} not found` });
+    if (sandbox.status !== 'open') {
+      return res.status(409).json({ message: `Sandbox "${sandbox.name}" is already ${sandbox.status}` });
     }
     
-    const suggestion = conflict.suggestions?.find(s => s.id === suggestionId);
-    if (!suggestion) {
-      return res.status(404).json({ message: `Suggestion with ID ${suggestionId} not found` });
+    const discarded = await storage.updateSandbox(id, { status: 'discarded' });
+    res.json(discarded);
+  });
+
+  // Audit log routes
+  app.get(`${apiRouter}/audit`, async (req, res) => {
+    try {
+      const filter = z.object({
+        entityType: z.enum(['schedule', 'course', 'teacher']).optional(),
+        entityId: z.coerce.number().int().optional(),
+        actor: z.string().optional(),
+        source: z.enum(['manual', 'conflict_resolution', 'import', 'rollover', 'undo', 'redo', 'sandbox_merge']).optional(),
+        changeSetId: z.coerce.number().int().optional(),
+        since: z.coerce.date().optional(),
+        until: z.coerce.date().optional(),
+        limit: z.coerce.number().int().min(1).optional(),
+      }).parse(req.query);
+      
+      const events = await storage.getAuditEvents(filter);
+      res.json(events);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit events" });
     }
-    
-    // Apply the suggestion
-    if (suggestion.action === 'move') {
-      await storage.updateSchedule(suggestion.scheduleId, {
-        dayOfWeek: suggestion.newDayOfWeek,
-        timeSlot: suggestion.newTimeSlot
-      });
-    } else if (suggestion.action === 'swap') {
-      if (!suggestion.swapWithScheduleId) {
-        return res.status(400).json({ message: "Invalid swap suggestion" });
+  });
+
+  // Undo and redo routes. Each actor has their own stack of timetable change sets.
+  app.post(`${apiRouter}/changes/undo`, async (req, res) => {
+    try {
+      const result = await undoLastChange(storage, getActor(req));
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
       }
       
-      const schedule1 = await storage.getSchedules().then(
-        schedules => schedules.find(s => s.id === suggestion.scheduleId)
-      );
-      
-      const schedule2 = await storage.getSchedules().then(
-        schedules => schedules.find(s => s.id === suggestion.swapWithScheduleId)
-      );
+      await detectChangeSetConflicts(result.changeSet.id);
+      res.json(result.changeSet);
+    } catch (err) {
+      if (err instanceof ConcurrentChangeError) {
+        return res.status(409).json({ message: err.message });
+      }
+      res.status(500).json({ message: "Failed to undo change" });
+    }
+  });
+
+  app.post(`${apiRouter}/changes/redo`, async (req, res) => {
+    try {
+      const result = await redoLastChange(storage, getActor(req));
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
       
-      if (!schedule1 || !schedule2) {
-        return res.status(404).json({ message: "One or both schedules not found" });
+      await detectChangeSetConflicts(result.changeSet.id);
+      res.json(result.changeSet);
+    } catch (err) {
+      if (err instanceof ConcurrentChangeError) {
+        return res.status(409).json({ message: err.message });
       }
+      res.status(500).json({ message: "Failed to redo change" });
+    }
+  });
+
+  // Institution calendar routes
+  app.get(`${apiRouter}/calendar`, async (req, res) => {
+    const calendar = await storage.getCalendar();
+    res.json(calendar);
+  });
+
+  app.put(`${apiRouter}/calendar`, async (req, res) => {
+    try {
+      const validatedData = insertInstitutionCalendarSchema.partial().parse(req.body);
       
-      // Swap day/timeslot between the two schedules
-      await storage.updateSchedule(schedule1.id, {
-        dayOfWeek: schedule2.dayOfWeek,
-        timeSlot: schedule2.timeSlot
-      });
+      const invalidBreak = validatedData.breaks?.find(
+        period => toClockTime(period.endTime) <= toClockTime(period.startTime)
+      );
+      if (invalidBreak) {
+        return res.status(400).json({ message: `${invalidBreak.label} must end after it starts` });
+      }
       
-      await storage.updateSchedule(schedule2.id, {
-        dayOfWeek: schedule1.dayOfWeek,
-        timeSlot: schedule1.timeSlot
-      });
-    } else if (suggestion.action === 'reassign') {
-      await storage.updateSchedule(suggestion.scheduleId, {
-        teacherId: suggestion.newTeacherId
-      });
+      const calendar = await storage.updateCalendar(validatedData);
+      // Breaks and days off change the slots every class covers, in every term
+      await storage.detectConflicts();
+      res.json(calendar);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update calendar" });
     }
-    
-    // Mark the conflict as resolved
-    await storage.updateConflict(id, { resolved: true });
-    
-    // Detect conflicts again to update the list
-    await storage.detectConflicts();
-    
-    res.json({ message: "Conflict resolved successfully" });
   });
 
   // Utility routes
@@ -313,8 +1631,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(DAYS_OF_WEEK);
   });
 
-  app.get(`${apiRouter}/utils/timeslots`, (req, res) => {
-    res.json(TIME_SLOTS);
+  app.get(`${apiRouter}/utils/timeslots`, async (req, res) => {
+    const timeSlots = await storage.getTimeSlots();
+    res.json(sortTimeSlots(timeSlots));
+  });
+
+  app.get(`${apiRouter}/utils/timeslots/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    const timeSlot = await storage.getTimeSlotById(id);
+    
+    if (!timeSlot) {
+      return res.status(404).json({ message: `Time slot with ID ${id} not found` });
+    }
+    
+    res.json(timeSlot);
+  });
+
+  app.post(`${apiRouter}/utils/timeslots`, async (req, res) => {
+    try {
+      const validatedData = insertTimeSlotSchema.parse(req.body);
+      
+      if (toClockTime(validatedData.endTime) <= toClockTime(validatedData.startTime)) {
+        return res.status(400).json({ message: "Time slot must end after it starts" });
+      }
+      
+      const timeSlot = await storage.createTimeSlot(validatedData);
+      // A new slot can split or extend the blocks multi-period classes run through
+      await storage.detectConflicts();
+      res.status(201).json(timeSlot);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create time slot" });
+    }
+  });
+
+  app.put(`${apiRouter}/utils/timeslots/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    try {
+      const validatedData = insertTimeSlotSchema.partial().parse(req.body);
+      const existingTimeSlot = await storage.getTimeSlotById(id);
+      
+      if (!existingTimeSlot) {
+        return res.status(404).json({ message: `Time slot with ID ${id} not found` });
+      }
+      
+      const merged = { ...existingTimeSlot, ...validatedData };
+      if (toClockTime(merged.endTime) <= toClockTime(merged.startTime)) {
+        return res.status(400).json({ message: "Time slot must end after it starts" });
+      }
+      
+      const updatedTimeSlot = await storage.updateTimeSlot(id, validatedData);
+      // New times or a new break re-order the slots multi-period classes run through
+      await storage.detectConflicts();
+      res.json(updatedTimeSlot);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors });
+      }
+      res.status(500).json({ message: "Failed to update time slot" });
+    }
+  });
+
+  app.delete(`${apiRouter}/utils/timeslots/:id`, async (req, res) => {
+    const id = Number(req.params.id);
+    
+    // Refuse to delete a slot that classes, live or in a sandbox, start in or run through
+    const schedules = await getPlannedSchedules();
+    const calendar = await storage.getCalendar();
+    const timeSlots = await storage.getTimeSlots();
+    if (schedules.some(schedule => getCoveredSlots(schedule, calendar, timeSlots).includes(id))) {
+      return res.status(409).json({ message: `Time slot with ID ${id} still has classes scheduled` });
+    }
+    
+    const success = await storage.deleteTimeSlot(id);
+    
+    if (!success) {
+      return res.status(404).json({ message: `Time slot with ID ${id} not found` });
+    }
+    
+    res.status(204).send();
   });
 
   const httpServer = createServer(app);
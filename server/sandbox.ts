@@ -0,0 +1,120 @@
+import { ChangeSet, DetectedConflict, Sandbox, SandboxSchedule, Schedule } from "@shared/schema";
+import { countConflicts, getSandboxChanges, SandboxComparison } from "@shared/sandbox";
+import { IStorage } from "./storage";
+import { beginChangeSet } from "./changeHistory";
+import { findConflicts } from "./conflictDetection";
+
+export type SandboxMergeResult =
+  | { ok: true; sandbox: Sandbox; changeSet: ChangeSet }
+  | { ok: false; status: 409; message: string };
+
+// A sandbox class stands in for a schedule so the usual checks can run on it
+function toSchedule({ sandboxId: _, sourceScheduleId: __, ...schedule }: SandboxSchedule): Schedule {
+  return schedule;
+}
+
+async function findTimetableConflicts(storage: IStorage, schedules: Schedule[]): Promise<DetectedConflict[]> {
+  return findConflicts({
+    schedules,
+    teachers: await storage.getTeachers(),
+    sections: await storage.getSections(),
+    courses: await storage.getCourses(),
+    calendar: await storage.getCalendar(),
+    timeSlots: await storage.getTimeSlots(),
+  });
+}
+
+/**
+ * Finds the clashes in a sandbox's timetable. Nothing is stored, and the
+ * conflicting ids are those of sandbox classes.
+ */
+export async function getSandboxConflicts(storage: IStorage, sandbox: Sandbox): Promise<DetectedConflict[]> {
+  const schedules = await storage.getSandboxSchedules(sandbox.id);
+  return await findTimetableConflicts(storage, schedules.map(toSchedule));
+}
+
+/**
+ * Compares a sandbox with the live timetable of its term: the conflicts each
+ * has and the classes a merge would add, change or remove
+ */
+export async function compareSandbox(storage: IStorage, sandbox: Sandbox): Promise<SandboxComparison> {
+  const live = await storage.getSchedules(sandbox.termId);
+  const schedules = await storage.getSandboxSchedules(sandbox.id);
+
+  return {
+    live: countConflicts(await findTimetableConflicts(storage, live)),
+    sandbox: countConflicts(await findTimetableConflicts(storage, schedules.map(toSchedule))),
+    changes: getSandboxChanges(live, schedules),
+  };
+}
+
+/**
+ * Applies a sandbox's changes to the live timetable as one undoable change set
+ * and closes the sandbox, all in one transaction so a failure part way leaves
+ * the timetable as it was. A sandbox forked from a timetable that has changed
+ * since would overwrite that work, so it cannot be merged.
+ */
+export async function mergeSandbox(storage: IStorage, sandbox: Sandbox, actor: string): Promise<SandboxMergeResult> {
+  return await storage.transaction(async (tx) => {
+    // Another merge may have closed the sandbox since it was read
+    const current = await tx.getSandboxById(sandbox.id);
+    return await mergeWithin(tx, current ?? sandbox, actor);
+  });
+}
+
+async function mergeWithin(storage: IStorage, sandbox: Sandbox, actor: string): Promise<SandboxMergeResult> {
+  if (sandbox.status !== 'open') {
+    return { ok: false, status: 409, message: `Sandbox "${sandbox.name}" is already ${sandbox.status}` };
+  }
+
+  const liveEdits = (await storage.getAuditEvents({ entityType: 'schedule', since: sandbox.createdAt }))
+    .filter(event => (event.after ?? event.before)?.termId === sandbox.termId);
+  if (liveEdits.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      message: `The live timetable has changed since sandbox "${sandbox.name}" was created`
+    };
+  }
+
+  const live = await storage.getSchedules(sandbox.termId);
+  const schedules = await storage.getSandboxSchedules(sandbox.id);
+  const changes = getSandboxChanges(live, schedules);
+  const sandboxById = new Map(schedules.map(schedule => [schedule.id, schedule]));
+  const changeSet = await beginChangeSet(storage, actor, `Merge sandbox "${sandbox.name}"`);
+
+  const audit = async (entityId: number, before: Schedule | null, after: Schedule | null) => {
+    await storage.createAuditEvent({
+      entityType: 'schedule',
+      entityId,
+      action: before && after ? 'update' : after ? 'create' : 'delete',
+      source: 'sandbox_merge',
+      actor,
+      changeSetId: changeSet.id,
+      before,
+      after
+    });
+  };
+
+  for (const scheduleId of changes.removed) {
+    const before = await storage.getScheduleById(scheduleId);
+    await storage.deleteSchedule(scheduleId);
+    await audit(scheduleId, before ?? null, null);
+  }
+
+  for (const { sandboxScheduleId, scheduleId } of changes.changed) {
+    const { id: _, ...fields } = toSchedule(sandboxById.get(sandboxScheduleId)!);
+    const before = await storage.getScheduleById(scheduleId);
+    const after = await storage.updateSchedule(scheduleId, fields);
+    if (after) await audit(scheduleId, before ?? null, after);
+  }
+
+  for (const sandboxScheduleId of changes.added) {
+    const { id: _, ...fields } = toSchedule(sandboxById.get(sandboxScheduleId)!);
+    const created = await storage.createSchedule(fields);
+    await audit(created.id, null, created);
+  }
+
+  const merged = await storage.updateSandbox(sandbox.id, { status: 'merged' });
+  return { ok: true, sandbox: merged!, changeSet };
+}
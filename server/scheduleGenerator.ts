@@ -0,0 +1,201 @@
+import { Course, Teacher, TimeSlot, InsertSchedule } from "@shared/schema";
+import { getTeachingSlots, isWithinTimePreferences } from "@shared/timeSlots";
+import { getCoveredSlots, getTeachingDays, isSlotSchedulable } from "@shared/calendar";
+import { getRequiredWeeklyPeriods } from "@shared/coverage";
+import { isAttendedByIntake } from "@shared/sections";
+import { groupParallelCourses } from "@shared/electives";
+import { IStorage } from "./storage";
+
+export type UnplacedCourse = {
+  courseId: number;
+  sessionsMissing: number;
+  reason: string;
+};
+
+export type GeneratedTimetable = {
+  termId: number;
+  programId: number;
+  semester: number;
+  sectionId: number | null;
+  schedules: InsertSchedule[];
+  unplaced: UnplacedCourse[];
+};
+
+type SessionOption = {
+  course: Course;
+  teacher: Teacher;
+};
+
+// The classes placed in one cell: a single course, or the parallel options of an elective group
+type Session = SessionOption[];
+
+const cellKey = (dayOfWeek: number, timeSlot: number) => `${dayOfWeek}-${timeSlot}`;
+const teacherKey = (teacherId: number, dayOfWeek: number, timeSlot: number) =>
+  `${teacherId}-${dayOfWeek}-${timeSlot}`;
+
+/**
+ * Proposes a term's timetable for a program semester, or for one section of
+ * it, without persisting anything. Only classes of the same term are in the way.
+ *
+ * Every course of the semester is given its required weekly periods (one per
+ * credit unless the course overrides it), placed as single-period classes.
+ * Periods the course already holds in the cohort's timetable count towards
+ * that total, and only free cells are filled. A section's cohort includes the
+ * classes its whole intake attends; without a section every class of the
+ * intake is in the way. A cell is usable when it falls on a teaching day
+ * outside the institution calendar's breaks, the cohort is free, the teacher
+ * is not teaching anywhere else at that time (the double-booking check done by
+ * detectConflicts) and, if the teacher has time preferences, the cell falls
+ * inside one of them.
+ *
+ * The options of an elective group are placed together, all in the same cell,
+ * for as long as any of them still needs periods. Each option needs its own
+ * free teacher there.
+ */
+export async function generateTimetable(
+  storage: IStorage,
+  termId: number,
+  programId: number,
+  semester: number,
+  sectionId: number | null = null
+): Promise<GeneratedTimetable> {
+  const courses = await storage.getCoursesByProgram(programId, semester);
+  const teachers = await storage.getTeachers();
+  const allSchedules = await storage.getSchedules(termId);
+  const timeSlots = await storage.getTimeSlots();
+  const teachingSlots = getTeachingSlots(timeSlots);
+  const calendar = await storage.getCalendar();
+
+  const cohortSchedules = allSchedules.filter(s => isAttendedByIntake(s, programId, semester, sectionId));
+
+  // Existing multi-period classes keep every period they cover busy
+  const cohortBusy = new Set(cohortSchedules.flatMap(s =>
+    getCoveredSlots(s, calendar, timeSlots).map(slot => cellKey(s.dayOfWeek, slot))
+  ));
+  const teacherBusy = new Set(allSchedules.flatMap(s =>
+    getCoveredSlots(s, calendar, timeSlots).map(slot => teacherKey(s.teacherId, s.dayOfWeek, slot))
+  ));
+  const courseDays = new Map<number, Set<number>>();
+
+  cohortSchedules.forEach(s => {
+    if (!courseDays.has(s.courseId)) courseDays.set(s.courseId, new Set());
+    courseDays.get(s.courseId)!.add(s.dayOfWeek);
+  });
+
+  const unplaced: UnplacedCourse[] = [];
+  const pending: Session[] = [];
+
+  for (const group of groupParallelCourses(courses)) {
+    const options: (SessionOption & { missing: number })[] = [];
+
+    for (const course of group) {
+      const alreadyPlaced = cohortSchedules
+        .filter(s => s.courseId === course.id)
+        .reduce((total, s) => total + s.duration, 0);
+      const missing = Math.max(getRequiredWeeklyPeriods(course) - alreadyPlaced, 0);
+      if (missing === 0) continue;
+
+      const teacher = teachers.find(t => t.id === course.teacherId);
+      if (!teacher) {
+        unplaced.push({ courseId: course.id, sessionsMissing: missing, reason: 'No teacher assigned to course' });
+        continue;
+      }
+
+      options.push({ course, teacher, missing });
+    }
+
+    const sessions = Math.max(0, ...options.map(option => option.missing));
+    for (let i = 0; i < sessions; i++) {
+      pending.push(options
+        .filter(option => option.missing > i)
+        .map(({ course, teacher }) => ({ course, teacher })));
+    }
+  }
+
+  const candidateCells = (session: Session) => {
+    const cells: { dayOfWeek: number; timeSlot: number }[] = [];
+
+    // Parallel options cannot share a teacher
+    if (new Set(session.map(option => option.teacher.id)).size !== session.length) return cells;
+
+    for (const day of getTeachingDays(calendar)) {
+      for (const slot of teachingSlots) {
+        if (!isSlotSchedulable(calendar, day, slot)) continue;
+        if (cohortBusy.has(cellKey(day, slot.id))) continue;
+        if (session.some(({ teacher }) =>
+          teacherBusy.has(teacherKey(teacher.id, day, slot.id)) ||
+          !matchesTimePreferences(teacher, day, slot.id, timeSlots)
+        )) continue;
+        cells.push({ dayOfWeek: day, timeSlot: slot.id });
+      }
+    }
+
+    return cells;
+  };
+
+  const proposed: InsertSchedule[] = [];
+  const failures = new Map<number, number>();
+
+  // Place the most constrained session first so that teachers with narrow
+  // preferences are not crowded out by flexible ones.
+  while (pending.length > 0) {
+    let bestIndex = 0;
+    let bestCells = candidateCells(pending[0]);
+
+    for (let i = 1; i < pending.length && bestCells.length > 0; i++) {
+      const cells = candidateCells(pending[i]);
+      if (cells.length < bestCells.length) {
+        bestIndex = i;
+        bestCells = cells;
+      }
+    }
+
+    const [session] = pending.splice(bestIndex, 1);
+
+    if (bestCells.length === 0) {
+      session.forEach(({ course }) => failures.set(course.id, (failures.get(course.id) || 0) + 1));
+      continue;
+    }
+
+    // Spread a course over the week before doubling up on a day
+    const isDayUsed = (dayOfWeek: number) => session.some(({ course }) => courseDays.get(course.id)?.has(dayOfWeek));
+    const cell = bestCells.find(c => !isDayUsed(c.dayOfWeek)) || bestCells[0];
+
+    cohortBusy.add(cellKey(cell.dayOfWeek, cell.timeSlot));
+
+    session.forEach(({ course, teacher }) => {
+      proposed.push({
+        termId,
+        programId,
+        semester,
+        sectionId,
+        dayOfWeek: cell.dayOfWeek,
+        timeSlot: cell.timeSlot,
+        duration: 1,
+        courseId: course.id,
+        teacherId: teacher.id,
+        roomNumber: null
+      });
+
+      teacherBusy.add(teacherKey(teacher.id, cell.dayOfWeek, cell.timeSlot));
+      if (!courseDays.has(course.id)) courseDays.set(course.id, new Set());
+      courseDays.get(course.id)!.add(cell.dayOfWeek);
+    });
+  }
+
+  failures.forEach((sessionsMissing, courseId) => {
+    unplaced.push({
+      courseId,
+      sessionsMissing,
+      reason: 'No free slot where both the cohort and the teacher are available'
+    });
+  });
+
+  return { termId, programId, semester, sectionId, schedules: proposed, unplaced };
+}
+
+function matchesTimePreferences(teacher: Teacher, dayOfWeek: number, timeSlot: number, timeSlots: TimeSlot[]): boolean {
+  if (!teacher.timePreferences?.length) return true;
+
+  return isWithinTimePreferences(teacher.timePreferences, dayOfWeek, timeSlot, timeSlots);
+}
@@ -1,18 +1,75 @@
 import {
   Program, InsertProgram, 
+  AcademicTerm, InsertAcademicTerm,
+  Section, InsertSection,
   Course, InsertCourse, 
   Teacher, InsertTeacher, 
-  Schedule, InsertSchedule,
+  Room, InsertRoom,
+  TimeSlot, InsertTimeSlot,
+  InstitutionCalendar, InsertInstitutionCalendar,
+  Schedule, InsertSchedule, PublishedSchedule,
   Conflict, InsertConflict,
+  AuditEvent, InsertAuditEvent, AuditEntityType, AuditSource,
+  ChangeSet, InsertChangeSet,
+  Sandbox, InsertSandbox, SandboxSchedule, InsertSandboxSchedule,
   TimePreference, ConflictSuggestion,
-  DEFAULT_PROGRAMS
+  DEFAULT_PROGRAMS, DEFAULT_TIME_SLOTS, DEFAULT_CALENDAR
 } from "@shared/schema";
-import { v4 as uuidv4 } from 'uuid';
+import { NO_WAIVER } from "@shared/waivers";
+import { isAttendedByIntake } from "@shared/sections";
+import { generateSuggestions } from "./conflictSuggestions";
+import {
+  ConflictDetectionInput, ConflictScope, findConflicts, findScopedConflicts,
+  getConflictScope, isConflictInScope, reconcileConflicts
+} from "./conflictDetection";
+
+// Narrows the audit log; every field that is set must match
+export type AuditEventFilter = {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  actor?: string;
+  source?: AuditSource;
+  changeSetId?: number;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+};
+
+// Class changes that resolve conflicts, and what to record about them
+export type ConflictResolution = {
+  updates: { id: number; changes: Partial<InsertSchedule> }[];
+  resolvedConflictIds: number[]; // Stored conflicts the changes clear
+  source: AuditSource;
+  actor: string;
+  changeSetId: number;
+};
+
+// A transaction that clashed with another running at the same time. Trying again may succeed.
+export class ConcurrentChangeError extends Error {}
 
 export interface IStorage {
   // Program methods
   getPrograms(): Promise<Program[]>;
   getProgramByCode(code: string): Promise<Program | undefined>;
+  createProgram(program: InsertProgram): Promise<Program>;
+  updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program | undefined>;
+  // Archiving keeps the program's data; restoring makes it available again
+  setProgramArchived(id: number, archived: boolean): Promise<Program | undefined>;
+
+  // Academic term methods
+  getTerms(): Promise<AcademicTerm[]>;
+  getTermById(id: number): Promise<AcademicTerm | undefined>;
+  createTerm(term: InsertAcademicTerm): Promise<AcademicTerm>;
+  updateTerm(id: number, term: Partial<InsertAcademicTerm>): Promise<AcademicTerm | undefined>;
+  deleteTerm(id: number): Promise<boolean>;
+
+  // Section methods
+  getSections(): Promise<Section[]>;
+  getSectionById(id: number): Promise<Section | undefined>;
+  getSectionsByProgram(programId: number, semester?: number): Promise<Section[]>;
+  createSection(section: InsertSection): Promise<Section>;
+  updateSection(id: number, section: Partial<InsertSection>): Promise<Section | undefined>;
+  deleteSection(id: number): Promise<boolean>;
 
   // Course methods
   getCourses(): Promise<Course[]>;
@@ -29,50 +86,143 @@ export interface IStorage {
   updateTeacher(id: number, teacher: Partial<InsertTeacher>): Promise<Teacher | undefined>;
   deleteTeacher(id: number): Promise<boolean>;
 
+  // Room methods
+  getRooms(): Promise<Room[]>;
+  getRoomById(id: number): Promise<Room | undefined>;
+  createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined>;
+  deleteRoom(id: number): Promise<boolean>;
+
+  // Time slot methods
+  getTimeSlots(): Promise<TimeSlot[]>;
+  getTimeSlotById(id: number): Promise<TimeSlot | undefined>;
+  createTimeSlot(timeSlot: InsertTimeSlot): Promise<TimeSlot>;
+  updateTimeSlot(id: number, timeSlot: Partial<InsertTimeSlot>): Promise<TimeSlot | undefined>;
+  deleteTimeSlot(id: number): Promise<boolean>;
+
+  // Institution calendar methods
+  getCalendar(): Promise<InstitutionCalendar>;
+  updateCalendar(calendar: Partial<InsertInstitutionCalendar>): Promise<InstitutionCalendar>;
+
   // Schedule methods
-  getSchedules(): Promise<Schedule[]>;
-  getSchedulesByProgram(programId: number, semester: number): Promise<Schedule[]>;
+  getSchedules(termId?: number): Promise<Schedule[]>;
+  getScheduleById(id: number): Promise<Schedule | undefined>;
+  // Includes the classes the intake is combined into
+  getSchedulesByProgram(programId: number, semester: number, termId?: number): Promise<Schedule[]>;
   createSchedule(schedule: InsertSchedule): Promise<Schedule>;
   updateSchedule(id: number, schedule: Partial<InsertSchedule>): Promise<Schedule | undefined>;
   deleteSchedule(id: number): Promise<boolean>;
+  // Puts a deleted class back under its old id, so history and change sets still refer to it
+  restoreSchedule(schedule: Schedule): Promise<Schedule>;
+
+  // Published timetable methods
+  getPublishedSchedules(termId?: number): Promise<PublishedSchedule[]>;
+  // Replaces the term's published timetable with its current draft in one step
+  publishTerm(termId: number): Promise<AcademicTerm | undefined>;
 
   // Conflict methods
-  getConflicts(): Promise<Conflict[]>;
+  getConflicts(termId?: number): Promise<Conflict[]>;
   getConflictById(id: number): Promise<Conflict | undefined>;
   createConflict(conflict: InsertConflict): Promise<Conflict>;
   updateConflict(id: number, conflict: Partial<InsertConflict>): Promise<Conflict | undefined>;
   deleteConflict(id: number): Promise<boolean>;
+  // Updates the classes, logs each change and marks the cleared conflicts resolved, all or nothing
+  applyConflictResolution(resolution: ConflictResolution): Promise<Schedule[]>;
+
+  // Audit log methods. Events are only ever appended, newest returned first.
+  getAuditEvents(filter?: AuditEventFilter): Promise<AuditEvent[]>;
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+
+  // Change set methods
+  getChangeSets(actor: string): Promise<ChangeSet[]>;
+  createChangeSet(changeSet: InsertChangeSet): Promise<ChangeSet>;
+  updateChangeSet(id: number, changeSet: Partial<InsertChangeSet>): Promise<ChangeSet | undefined>;
+
+  // Sandbox methods
+  getSandboxes(): Promise<Sandbox[]>;
+  getSandboxById(id: number): Promise<Sandbox | undefined>;
+  // Creates the sandbox together with a copy of its term's live classes
+  createSandbox(sandbox: InsertSandbox): Promise<Sandbox>;
+  updateSandbox(id: number, sandbox: Partial<InsertSandbox>): Promise<Sandbox | undefined>;
+  getSandboxSchedules(sandboxId: number): Promise<SandboxSchedule[]>;
+  getSandboxScheduleById(id: number): Promise<SandboxSchedule | undefined>;
+  createSandboxSchedule(schedule: InsertSandboxSchedule): Promise<SandboxSchedule>;
+  updateSandboxSchedule(id: number, schedule: Partial<InsertSandboxSchedule>): Promise<SandboxSchedule | undefined>;
+  deleteSandboxSchedule(id: number): Promise<boolean>;
   
   // Special methods
-  detectConflicts(): Promise<Conflict[]>;
+  // Brings stored conflicts in line with the classes: ongoing clashes keep their ids,
+  // gone ones are closed. Returns the conflicts that appeared. Given the classes a
+  // write touched, as they were and as they are, only their teachers, rooms and
+  // intakes are re-checked.
+  detectConflicts(touched?: Schedule[]): Promise<Conflict[]>;
   generateConflictSuggestions(conflictId: number): Promise<ConflictSuggestion[]>;
+  // Runs work against a storage whose changes are all kept, or none if the work
+  // throws. What the work reads cannot be changed by others before it finishes.
+  transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T>;
 }
 
 export class MemStorage implements IStorage {
   private programs: Map<number, Program>;
+  private terms: Map<number, AcademicTerm>;
+  private sections: Map<number, Section>;
   private courses: Map<number, Course>;
   private teachers: Map<number, Teacher>;
+  private rooms: Map<number, Room>;
+  private timeSlots: Map<number, TimeSlot>;
+  private calendar: InstitutionCalendar;
   private schedules: Map<number, Schedule>;
+  private publishedSchedules: Map<number, PublishedSchedule>;
   private conflicts: Map<number, Conflict>;
+  private auditEvents: AuditEvent[];
+  private changeSets: Map<number, ChangeSet>;
+  private sandboxes: Map<number, Sandbox>;
+  private sandboxSchedules: Map<number, SandboxSchedule>;
   
   private programId: number;
+  private termId: number;
+  private sectionId: number;
   private courseId: number;
   private teacherId: number;
+  private roomId: number;
+  private timeSlotId: number;
   private scheduleId: number;
   private conflictId: number;
+  private auditEventId: number;
+  private changeSetId: number;
+  private sandboxId: number;
+  private sandboxScheduleId: number;
 
   constructor() {
     this.programs = new Map();
+    this.terms = new Map();
+    this.sections = new Map();
     this.courses = new Map();
     this.teachers = new Map();
+    this.rooms = new Map();
+    this.timeSlots = new Map();
+    this.calendar = { id: 1, ...DEFAULT_CALENDAR };
     this.schedules = new Map();
+    this.publishedSchedules = new Map();
     this.conflicts = new Map();
+    this.auditEvents = [];
+    this.changeSets = new Map();
+    this.sandboxes = new Map();
+    this.sandboxSchedules = new Map();
     
     this.programId = 1;
+    this.termId = 1;
+    this.sectionId = 1;
     this.courseId = 1;
     this.teacherId = 1;
+    this.roomId = 1;
+    this.timeSlotId = 1;
     this.scheduleId = 1;
     this.conflictId = 1;
+    this.auditEventId = 1;
+    this.changeSetId = 1;
+    this.sandboxId = 1;
+    this.sandboxScheduleId = 1;
 
     // Initialize with default programs
     this.initializeDefaultData();
@@ -82,7 +232,27 @@ export class MemStorage implements IStorage {
     // Add default programs
     DEFAULT_PROGRAMS.forEach(program => {
       const id = this.programId++;
-      this.programs.set(id, { ...program, id });
+      this.programs.set(id, { ...program, id, archivedAt: null });
+    });
+
+    // Open a first term running six months from today
+    const today = new Date();
+    const termEnd = new Date(today);
+    termEnd.setMonth(termEnd.getMonth() + 6);
+    const termId = this.termId++;
+    this.terms.set(termId, {
+      id: termId,
+      name: 'Current Term',
+      startDate: today.toISOString().slice(0, 10),
+      endDate: termEnd.toISOString().slice(0, 10),
+      isCurrent: true,
+      publishedAt: null
+    });
+
+    // Add the default bell schedule, keeping its ids so schedules can refer to them
+    DEFAULT_TIME_SLOTS.forEach(slot => {
+      this.timeSlots.set(slot.id, { ...slot });
+      this.timeSlotId = Math.max(this.timeSlotId, slot.id + 1);
     });
   }
 
@@ -95,6 +265,102 @@ export class MemStorage implements IStorage {
     return Array.from(this.programs.values()).find(program => program.code === code);
   }
 
+  async createProgram(program: InsertProgram): Promise<Program> {
+    const id = this.programId++;
+    const newProgram: Program = {
+      ...program,
+      id,
+      description: program.description ?? null,
+      totalSemesters: program.totalSemesters ?? 8,
+      archivedAt: null
+    };
+    this.programs.set(id, newProgram);
+    return newProgram;
+  }
+
+  async updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program | undefined> {
+    const existingProgram = this.programs.get(id);
+    if (!existingProgram) return undefined;
+
+    const updatedProgram: Program = { ...existingProgram, ...program };
+    this.programs.set(id, updatedProgram);
+    return updatedProgram;
+  }
+
+  async setProgramArchived(id: number, archived: boolean): Promise<Program | undefined> {
+    const existingProgram = this.programs.get(id);
+    if (!existingProgram) return undefined;
+
+    const updatedProgram: Program = { ...existingProgram, archivedAt: archived ? new Date() : null };
+    this.programs.set(id, updatedProgram);
+    return updatedProgram;
+  }
+
+  // Academic term methods
+  async getTerms(): Promise<AcademicTerm[]> {
+    return Array.from(this.terms.values());
+  }
+
+  async getTermById(id: number): Promise<AcademicTerm | undefined> {
+    return this.terms.get(id);
+  }
+
+  async createTerm(term: InsertAcademicTerm): Promise<AcademicTerm> {
+    const id = this.termId++;
+    const newTerm: AcademicTerm = { ...term, id, isCurrent: term.isCurrent ?? false, publishedAt: null };
+    this.terms.set(id, newTerm);
+    return newTerm;
+  }
+
+  async updateTerm(id: number, term: Partial<InsertAcademicTerm>): Promise<AcademicTerm | undefined> {
+    const existingTerm = this.terms.get(id);
+    if (!existingTerm) return undefined;
+
+    const updatedTerm: AcademicTerm = { ...existingTerm, ...term };
+    this.terms.set(id, updatedTerm);
+    return updatedTerm;
+  }
+
+  async deleteTerm(id: number): Promise<boolean> {
+    this.clearPublishedSchedules(id);
+    return this.terms.delete(id);
+  }
+
+  // Section methods
+  async getSections(): Promise<Section[]> {
+    return Array.from(this.sections.values());
+  }
+
+  async getSectionById(id: number): Promise<Section | undefined> {
+    return this.sections.get(id);
+  }
+
+  async getSectionsByProgram(programId: number, semester?: number): Promise<Section[]> {
+    return Array.from(this.sections.values()).filter(
+      section => section.programId === programId && (semester === undefined || section.semester === semester)
+    );
+  }
+
+  async createSection(section: InsertSection): Promise<Section> {
+    const id = this.sectionId++;
+    const newSection: Section = { ...section, id };
+    this.sections.set(id, newSection);
+    return newSection;
+  }
+
+  async updateSection(id: number, section: Partial<InsertSection>): Promise<Section | undefined> {
+    const existingSection = this.sections.get(id);
+    if (!existingSection) return undefined;
+
+    const updatedSection: Section = { ...existingSection, ...section };
+    this.sections.set(id, updatedSection);
+    return updatedSection;
+  }
+
+  async deleteSection(id: number): Promise<boolean> {
+    return this.sections.delete(id);
+  }
+
   // Course methods
   async getCourses(): Promise<Course[]> {
     return Array.from(this.courses.values());
@@ -112,7 +378,12 @@ export class MemStorage implements IStorage {
 
   async createCourse(course: InsertCourse): Promise<Course> {
     const id = this.courseId++;
-    const newCourse: Course = { ...course, id };
+    const newCourse: Course = {
+      ...course,
+      id,
+      prerequisiteIds: course.prerequisiteIds ?? [],
+      corequisiteIds: course.corequisiteIds ?? []
+    };
     this.courses.set(id, newCourse);
     return newCourse;
   }
@@ -141,7 +412,13 @@ export class MemStorage implements IStorage {
 
   async createTeacher(teacher: InsertTeacher): Promise<Teacher> {
     const id = this.teacherId++;
-    const newTeacher: Teacher = { ...teacher, id };
+    const newTeacher: Teacher = {
+      ...teacher,
+      id,
+      maxPeriodsPerDay: teacher.maxPeriodsPerDay ?? null,
+      maxPeriodsPerWeek: teacher.maxPeriodsPerWeek ?? null,
+      maxConsecutivePeriods: teacher.maxConsecutivePeriods ?? null
+    };
     this.teachers.set(id, newTeacher);
     return newTeacher;
   }
@@ -159,24 +436,115 @@ export class MemStorage implements IStorage {
     return this.teachers.delete(id);
   }
 
+  // Room methods
+  async getRooms(): Promise<Room[]> {
+    return Array.from(this.rooms.values());
+  }
+
+  async getRoomById(id: number): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    const id = this.roomId++;
+    const newRoom: Room = {
+      ...room,
+      id,
+      building: room.building ?? null,
+      capacity: room.capacity ?? null,
+      type: room.type ?? 'lecture'
+    };
+    this.rooms.set(id, newRoom);
+    return newRoom;
+  }
+
+  async updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined> {
+    const existingRoom = this.rooms.get(id);
+    if (!existingRoom) return undefined;
+
+    const updatedRoom: Room = { ...existingRoom, ...room };
+    this.rooms.set(id, updatedRoom);
+    return updatedRoom;
+  }
+
+  async deleteRoom(id: number): Promise<boolean> {
+    return this.rooms.delete(id);
+  }
+
+  // Time slot methods
+  async getTimeSlots(): Promise<TimeSlot[]> {
+    return Array.from(this.timeSlots.values());
+  }
+
+  async getTimeSlotById(id: number): Promise<TimeSlot | undefined> {
+    return this.timeSlots.get(id);
+  }
+
+  async createTimeSlot(timeSlot: InsertTimeSlot): Promise<TimeSlot> {
+    const id = this.timeSlotId++;
+    const newTimeSlot: TimeSlot = {
+      ...timeSlot,
+      id,
+      period: timeSlot.period ?? null,
+      isBreak: timeSlot.isBreak ?? false
+    };
+    this.timeSlots.set(id, newTimeSlot);
+    return newTimeSlot;
+  }
+
+  async updateTimeSlot(id: number, timeSlot: Partial<InsertTimeSlot>): Promise<TimeSlot | undefined> {
+    const existingTimeSlot = this.timeSlots.get(id);
+    if (!existingTimeSlot) return undefined;
+
+    const updatedTimeSlot: TimeSlot = { ...existingTimeSlot, ...timeSlot };
+    this.timeSlots.set(id, updatedTimeSlot);
+    return updatedTimeSlot;
+  }
+
+  async deleteTimeSlot(id: number): Promise<boolean> {
+    return this.timeSlots.delete(id);
+  }
+
+  // Institution calendar methods
+  async getCalendar(): Promise<InstitutionCalendar> {
+    return this.calendar;
+  }
+
+  async updateCalendar(calendar: Partial<InsertInstitutionCalendar>): Promise<InstitutionCalendar> {
+    this.calendar = { ...this.calendar, ...calendar };
+    return this.calendar;
+  }
+
   // Schedule methods
-  async getSchedules(): Promise<Schedule[]> {
-    return Array.from(this.schedules.values());
+  async getSchedules(termId?: number): Promise<Schedule[]> {
+    return Array.from(this.schedules.values()).filter(
+      schedule => termId === undefined || schedule.termId === termId
+    );
   }
 
-  async getSchedulesByProgram(programId: number, semester: number): Promise<Schedule[]> {
+  async getScheduleById(id: number): Promise<Schedule | undefined> {
+    return this.schedules.get(id);
+  }
+
+  async getSchedulesByProgram(programId: number, semester: number, termId?: number): Promise<Schedule[]> {
     return Array.from(this.schedules.values()).filter(
-      schedule => schedule.programId === programId && schedule.semester === semester
+      schedule => isAttendedByIntake(schedule, programId, semester) &&
+        (termId === undefined || schedule.termId === termId)
     );
   }
 
   async createSchedule(schedule: InsertSchedule): Promise<Schedule> {
     const id = this.scheduleId++;
-    const newSchedule: Schedule = { ...schedule, id };
+    const newSchedule: Schedule = {
+      ...schedule,
+      id,
+      sectionId: schedule.sectionId ?? null,
+      duration: schedule.duration ?? 1,
+      roomId: schedule.roomId ?? null,
+      roomNumber: schedule.roomNumber ?? null,
+      sharedWith: schedule.sharedWith ?? []
+    };
     this.schedules.set(id, newSchedule);
-
-    // After creating a new schedule, detect if it creates any conflicts
-    await this.detectConflicts();
     return newSchedule;
   }
 
@@ -186,22 +554,51 @@ export class MemStorage implements IStorage {
 
     const updatedSchedule: Schedule = { ...existingSchedule, ...schedule };
     this.schedules.set(id, updatedSchedule);
-
-    // After updating a schedule, detect if it creates any conflicts
-    await this.detectConflicts();
     return updatedSchedule;
   }
 
   async deleteSchedule(id: number): Promise<boolean> {
-    const result = this.schedules.delete(id);
-    // After deleting a schedule, detect if it resolves any conflicts
-    await this.detectConflicts();
-    return result;
+    return this.schedules.delete(id);
+  }
+
+  async restoreSchedule(schedule: Schedule): Promise<Schedule> {
+    this.schedules.set(schedule.id, { ...schedule });
+    this.scheduleId = Math.max(this.scheduleId, schedule.id + 1);
+    return schedule;
+  }
+
+  // Published timetable methods
+  async getPublishedSchedules(termId?: number): Promise<PublishedSchedule[]> {
+    return Array.from(this.publishedSchedules.values()).filter(
+      schedule => termId === undefined || schedule.termId === termId
+    );
+  }
+
+  async publishTerm(termId: number): Promise<AcademicTerm | undefined> {
+    const term = this.terms.get(termId);
+    if (!term) return undefined;
+
+    this.clearPublishedSchedules(termId);
+    for (const schedule of await this.getSchedules(termId)) {
+      this.publishedSchedules.set(schedule.id, { ...schedule });
+    }
+
+    const publishedTerm: AcademicTerm = { ...term, publishedAt: new Date() };
+    this.terms.set(termId, publishedTerm);
+    return publishedTerm;
+  }
+
+  private clearPublishedSchedules(termId: number) {
+    Array.from(this.publishedSchedules.values())
+      .filter(schedule => schedule.termId === termId)
+      .forEach(schedule => this.publishedSchedules.delete(schedule.id));
   }
 
   // Conflict methods
-  async getConflicts(): Promise<Conflict[]> {
-    return Array.from(this.conflicts.values());
+  async getConflicts(termId?: number): Promise<Conflict[]> {
+    return Array.from(this.conflicts.values()).filter(
+      conflict => termId === undefined || conflict.termId === termId
+    );
   }
 
   async getConflictById(id: number): Promise<Conflict | undefined> {
@@ -210,7 +607,7 @@ export class MemStorage implements IStorage {
 
   async createConflict(conflict: InsertConflict): Promise<Conflict> {
     const id = this.conflictId++;
-    const newConflict: Conflict = { ...conflict, id };
+    const newConflict: Conflict = { ...NO_WAIVER, ...conflict, id, workloadLimit: conflict.workloadLimit ?? null };
     this.conflicts.set(id, newConflict);
     return newConflict;
   }
@@ -228,163 +625,235 @@ export class MemStorage implements IStorage {
     return this.conflicts.delete(id);
   }
 
+  async applyConflictResolution({ updates, resolvedConflictIds, source, actor, changeSetId }: ConflictResolution): Promise<Schedule[]> {
+    // Check every class first so a missing one leaves the others untouched
+    const missing = updates.find(({ id }) => !this.schedules.has(id));
+    if (missing) throw new Error(`Schedule with ID ${missing.id} not found`);
+
+    const updated: Schedule[] = [];
+    for (const { id, changes } of updates) {
+      const before = this.schedules.get(id)!;
+      const after: Schedule = { ...before, ...changes };
+      this.schedules.set(id, after);
+      await this.createAuditEvent({ entityType: 'schedule', entityId: id, action: 'update', source, actor, changeSetId, before, after });
+      updated.push(after);
+    }
+
+    resolvedConflictIds.forEach(id => {
+      const conflict = this.conflicts.get(id);
+      if (conflict) this.conflicts.set(id, { ...conflict, resolved: true });
+    });
+
+    return updated;
+  }
+
+  // Audit log methods
+  async getAuditEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    const events = this.auditEvents.filter(event =>
+      (filter.entityType === undefined || event.entityType === filter.entityType) &&
+      (filter.entityId === undefined || event.entityId === filter.entityId) &&
+      (filter.actor === undefined || event.actor === filter.actor) &&
+      (filter.source === undefined || event.source === filter.source) &&
+      (filter.changeSetId === undefined || event.changeSetId === filter.changeSetId) &&
+      (filter.since === undefined || event.createdAt >= filter.since) &&
+      (filter.until === undefined || event.createdAt <= filter.until)
+    ).reverse();
+
+    return filter.limit === undefined ? events : events.slice(0, filter.limit);
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const newEvent: AuditEvent = {
+      ...event,
+      id: this.auditEventId++,
+      source: event.source ?? 'manual',
+      changeSetId: event.changeSetId ?? null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      createdAt: new Date()
+    };
+    this.auditEvents.push(newEvent);
+    return newEvent;
+  }
+
+  // Change set methods
+  async getChangeSets(actor: string): Promise<ChangeSet[]> {
+    return Array.from(this.changeSets.values()).filter(changeSet => changeSet.actor === actor);
+  }
+
+  async createChangeSet(changeSet: InsertChangeSet): Promise<ChangeSet> {
+    const id = this.changeSetId++;
+    const newChangeSet: ChangeSet = { ...changeSet, id, status: changeSet.status ?? 'applied', createdAt: new Date() };
+    this.changeSets.set(id, newChangeSet);
+    return newChangeSet;
+  }
+
+  async updateChangeSet(id: number, changeSet: Partial<InsertChangeSet>): Promise<ChangeSet | undefined> {
+    const existingChangeSet = this.changeSets.get(id);
+    if (!existingChangeSet) return undefined;
+
+    const updatedChangeSet: ChangeSet = { ...existingChangeSet, ...changeSet };
+    this.changeSets.set(id, updatedChangeSet);
+    return updatedChangeSet;
+  }
+
+  // Sandbox methods
+  async getSandboxes(): Promise<Sandbox[]> {
+    return Array.from(this.sandboxes.values());
+  }
+
+  async getSandboxById(id: number): Promise<Sandbox | undefined> {
+    return this.sandboxes.get(id);
+  }
+
+  async createSandbox(sandbox: InsertSandbox): Promise<Sandbox> {
+    const id = this.sandboxId++;
+    const newSandbox: Sandbox = { ...sandbox, id, status: sandbox.status ?? 'open', createdAt: new Date() };
+    this.sandboxes.set(id, newSandbox);
+
+    for (const { id: sourceScheduleId, ...schedule } of await this.getSchedules(sandbox.termId)) {
+      await this.createSandboxSchedule({ ...schedule, sandboxId: id, sourceScheduleId });
+    }
+    return newSandbox;
+  }
+
+  async updateSandbox(id: number, sandbox: Partial<InsertSandbox>): Promise<Sandbox | undefined> {
+    const existingSandbox = this.sandboxes.get(id);
+    if (!existingSandbox) return undefined;
+
+    const updatedSandbox: Sandbox = { ...existingSandbox, ...sandbox };
+    this.sandboxes.set(id, updatedSandbox);
+    return updatedSandbox;
+  }
+
+  async getSandboxSchedules(sandboxId: number): Promise<SandboxSchedule[]> {
+    return Array.from(this.sandboxSchedules.values()).filter(schedule => schedule.sandboxId === sandboxId);
+  }
+
+  async getSandboxScheduleById(id: number): Promise<SandboxSchedule | undefined> {
+    return this.sandboxSchedules.get(id);
+  }
+
+  // Sandbox classes are scratch work, so writing them never re-runs conflict detection
+  async createSandboxSchedule(schedule: InsertSandboxSchedule): Promise<SandboxSchedule> {
+    const id = this.sandboxScheduleId++;
+    const newSchedule: SandboxSchedule = {
+      ...schedule,
+      id,
+      sourceScheduleId: schedule.sourceScheduleId ?? null,
+      sectionId: schedule.sectionId ?? null,
+      duration: schedule.duration ?? 1,
+      roomId: schedule.roomId ?? null,
+      roomNumber: schedule.roomNumber ?? null,
+      sharedWith: schedule.sharedWith ?? []
+    };
+    this.sandboxSchedules.set(id, newSchedule);
+    return newSchedule;
+  }
+
+  async updateSandboxSchedule(id: number, schedule: Partial<InsertSandboxSchedule>): Promise<SandboxSchedule | undefined> {
+    const existingSchedule = this.sandboxSchedules.get(id);
+    if (!existingSchedule) return undefined;
+
+    const updatedSchedule: SandboxSchedule = { ...existingSchedule, ...schedule };
+    this.sandboxSchedules.set(id, updatedSchedule);
+    return updatedSchedule;
+  }
+
+  async deleteSandboxSchedule(id: number): Promise<boolean> {
+    return this.sandboxSchedules.delete(id);
+  }
+
   // Special methods
-  async detectConflicts(): Promise<Conflict[]> {
-    // Clear existing conflicts as we'll regenerate them
-    this.conflicts.clear();
-    this.conflictId = 1;
+  async detectConflicts(touched?: Schedule[]): Promise<Conflict[]> {
+    // Classes only clash with classes of the same term
+    const termIds = touched
+      ? Array.from(new Set(touched.map(schedule => schedule.termId)))
+      : (await this.getTerms()).map(term => term.id);
+
+    const appeared: Conflict[] = [];
+    for (const termId of termIds) {
+      const scope = touched && getConflictScope(touched.filter(schedule => schedule.termId === termId));
+      appeared.push(...await this.detectTermConflicts(termId, scope));
+    }
+    return appeared;
+  }
 
-    const schedules = await this.getSchedules();
-    const teacherSchedules = new Map<number, Map<string, number[]>>();
-    
-    // Group schedules by teacher, day and time slot
-    schedules.forEach(schedule => {
-      if (!teacherSchedules.has(schedule.teacherId)) {
-        teacherSchedules.set(schedule.teacherId, new Map());
-      }
-      
-      const dayTimeKey = `${schedule.dayOfWeek}-${schedule.timeSlot}`;
-      const teacherMap = teacherSchedules.get(schedule.teacherId)!;
-      
-      if (!teacherMap.has(dayTimeKey)) {
-        teacherMap.set(dayTimeKey, []);
-      }
-      
-      teacherMap.get(dayTimeKey)!.push(schedule.id);
+  // Brings the term's stored conflicts in line with its classes, or just those
+  // within a scope, and returns those that appeared
+  private async detectTermConflicts(termId: number, scope?: ConflictScope): Promise<Conflict[]> {
+    const input: ConflictDetectionInput = {
+      schedules: await this.getSchedules(termId),
+      teachers: await this.getTeachers(),
+      sections: await this.getSections(),
+      courses: await this.getCourses(),
+      calendar: await this.getCalendar(),
+      timeSlots: await this.getTimeSlots()
+    };
+    const found = scope ? findScopedConflicts(input, scope) : findConflicts(input);
+    const stored = (await this.getConflicts(termId)).filter(conflict => !scope || isConflictInScope(conflict, scope));
+    const { create, reopen, update, close } = reconcileConflicts(stored, found);
+
+    close.forEach(id => {
+      this.conflicts.set(id, { ...this.conflicts.get(id)!, resolved: true });
     });
-    
-    // Find conflicts
-    const conflicts: Conflict[] = [];
-    
-    teacherSchedules.forEach((dayTimeMap, teacherId) => {
-      dayTimeMap.forEach((scheduleIds, dayTimeKey) => {
-        if (scheduleIds.length > 1) {
-          // We have a conflict
-          const [dayOfWeek, timeSlot] = dayTimeKey.split('-').map(Number);
-          
-          const conflict: InsertConflict = {
-            teacherId,
-            dayOfWeek,
-            timeSlot,
-            conflictingScheduleIds: scheduleIds,
-            resolved: false,
-            suggestions: []
-          };
-          
-          this.createConflict(conflict).then(newConflict => {
-            // Generate suggestions for this conflict
-            this.generateConflictSuggestions(newConflict.id).then(suggestions => {
-              this.updateConflict(newConflict.id, { suggestions });
-            });
-            conflicts.push(newConflict);
-          });
-        }
-      });
+
+    const reopened = reopen.map(({ id, ...membership }) => {
+      const conflict: Conflict = { ...this.conflicts.get(id)!, ...membership, resolved: false };
+      this.conflicts.set(id, conflict);
+      return conflict;
     });
-    
-    return conflicts;
+
+    const updated = update.map(({ id, ...membership }) => {
+      const conflict: Conflict = { ...this.conflicts.get(id)!, ...membership };
+      this.conflicts.set(id, conflict);
+      return conflict;
+    });
+
+    const created: Conflict[] = [];
+    for (const conflict of create) {
+      created.push(await this.createConflict({ ...conflict, termId }));
+    }
+
+    // Suggestions depend on the classes in a conflict, so new and changed ones get fresh ones
+    for (const conflict of [...created, ...reopened, ...updated]) {
+      const suggestions = await this.generateConflictSuggestions(conflict.id);
+      await this.updateConflict(conflict.id, { suggestions });
+    }
+
+    return [...created, ...reopened];
   }
 
   async generateConflictSuggestions(conflictId: number): Promise<ConflictSuggestion[]> {
     const conflict = await this.getConflictById(conflictId);
-    if (!conflict) return [];
-    
-    const schedules = await Promise.all(
-      conflict.conflictingScheduleIds.map(id => this.schedules.get(id))
-    );
-    
-    const validSchedules = schedules.filter(schedule => schedule !== undefined) as Schedule[];
-    if (validSchedules.length < 2) return [];
+    if (!conflict || !conflict.conflictingScheduleIds) return [];
+
+    // Only classes of the conflict's term compete for its slots
+    return generateSuggestions(conflict, {
+      schedules: await this.getSchedules(conflict.termId),
+      teachers: await this.getTeachers(),
+      sections: await this.getSections(),
+      rooms: await this.getRooms(),
+      courses: await this.getCourses(),
+      calendar: await this.getCalendar(),
+      timeSlots: await this.getTimeSlots()
+    });
+  }
 
-    const suggestions: ConflictSuggestion[] = [];
-    const allSchedules = await this.getSchedules();
-    const teacher = await this.getTeacherById(conflict.teacherId);
-    
-    // Get all existing time slot and day combinations
-    const occupiedSlots = new Set(
-      allSchedules.map(s => `${s.dayOfWeek}-${s.timeSlot}`)
-    );
-    
-    // For each conflicting schedule, try to find an empty slot
-    for (const schedule of validSchedules) {
-      // 1. Try to find empty slots
-      for (let day = 0; day < 6; day++) {
-        for (let slot = 0; slot < 5; slot++) {
-          const key = `${day}-${slot}`;
-          
-          // Skip the current conflict slot and already occupied slots
-          if (day === conflict.dayOfWeek && slot === conflict.timeSlot) continue;
-          if (occupiedSlots.has(key)) continue;
-          
-          // Check if this slot is in teacher's preferences (if available)
-          let preferenceMatch = true;
-          if (teacher?.timePreferences?.length) {
-            preferenceMatch = teacher.timePreferences.some(pref => 
-              pref.dayOfWeek === day && 
-              slot >= pref.startTimeSlot && 
-              slot <= pref.endTimeSlot
-            );
-          }
-          
-          const course = await this.getCourseById(schedule.courseId);
-          
-          suggestions.push({
-            id: uuidv4(),
-            description: `Move ${course?.name || 'Course'} to ${['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'][day]} at ${['6:30-7:20 AM', '7:20-8:10 AM', '8:10-9:00 AM', '9:20-10:10 AM', '10:10-11:00 AM'][slot]} ${preferenceMatch ? '(matches teacher preference)' : ''}`,
-            action: 'move',
-            scheduleId: schedule.id,
-            newDayOfWeek: day,
-            newTimeSlot: slot
-          });
-        }
-      }
-      
-      // 2. Try to swap with another course taught by a different teacher
-      const otherSchedules = allSchedules.filter(s => 
-        s.teacherId !== conflict.teacherId && 
-        !conflict.conflictingScheduleIds.includes(s.id)
-      );
-      
-      for (const otherSchedule of otherSchedules) {
-        const course = await this.getCourseById(schedule.courseId);
-        const otherCourse = await this.getCourseById(otherSchedule.courseId);
-        
-        suggestions.push({
-          id: uuidv4(),
-          description: `Swap ${course?.name || 'Course'} with ${otherCourse?.name || 'another course'} on ${['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'][otherSchedule.dayOfWeek]} at ${['6:30-7:20 AM', '7:20-8:10 AM', '8:10-9:00 AM', '9:20-10:10 AM', '10:10-11:00 AM'][otherSchedule.timeSlot]}`,
-          action: 'swap',
-          scheduleId: schedule.id,
-          swapWithScheduleId: otherSchedule.id
-        });
-      }
-      
-      // 3. Try to reassign to another teacher
-      const allTeachers = await this.getTeachers();
-      const otherTeachers = allTeachers.filter(t => t.id !== conflict.teacherId);
-      
-      for (const otherTeacher of otherTeachers) {
-        // Check if other teacher is already busy at this time
-        const otherTeacherBusy = allSchedules.some(s => 
-          s.teacherId === otherTeacher.id && 
-          s.dayOfWeek === conflict.dayOfWeek && 
-          s.timeSlot === conflict.timeSlot
-        );
-        
-        if (!otherTeacherBusy) {
-          const course = await this.getCourseById(schedule.courseId);
-          
-          suggestions.push({
-            id: uuidv4(),
-            description: `Reassign ${course?.name || 'Course'} to ${otherTeacher.name}`,
-            action: 'reassign',
-            scheduleId: schedule.id,
-            newTeacherId: otherTeacher.id
-          });
-        }
-      }
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    // Records are replaced rather than changed in place, so copies of the
+    // collections are enough to put everything back if the work fails
+    const saved = Object.fromEntries(Object.entries(this).map(([key, value]) => [
+      key,
+      value instanceof Map ? new Map(value) : Array.isArray(value) ? [...value] : value
+    ]));
+
+    try {
+      return await work(this);
+    } catch (err) {
+      Object.assign(this, saved);
+      throw err;
     }
-    
-    return suggestions;
   }
 }
 
@@ -0,0 +1,37 @@
+import { AuditEvent } from "./schema";
+
+export type AuditFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+/**
+ * Lists the fields an update changed. Creations and deletions list every field
+ * of the row they added or removed.
+ */
+export const getAuditFieldChanges = (event: Pick<AuditEvent, 'before' | 'after'>): AuditFieldChange[] => {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => field !== 'id');
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+/**
+ * Gets a readable name for where a change came from
+ */
+export const getAuditSourceLabel = (source: AuditEvent['source']): string => {
+  switch (source) {
+    case 'manual': return 'Manual edit';
+    case 'conflict_resolution': return 'Conflict resolution';
+    case 'import': return 'Import';
+    case 'rollover': return 'Term rollover';
+    case 'undo': return 'Undo';
+    case 'redo': return 'Redo';
+    case 'sandbox_merge': return 'Sandbox merge';
+  }
+};
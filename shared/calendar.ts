@@ -0,0 +1,110 @@
+import { BreakPeriod, InstitutionCalendar, Schedule, TimeSlot, DAYS_OF_WEEK } from "./schema";
+import { formatTimeSlotLabel, sortTimeSlots, toClockTime } from "./timeSlots";
+
+type CalendarRules = Pick<InstitutionCalendar, 'teachingDays' | 'breaks'>;
+
+/**
+ * Gets the teaching days in week order (e.g., [0, 1, 2, 3, 4, 5])
+ */
+export const getTeachingDays = (calendar: CalendarRules): number[] =>
+  Array.from(new Set(calendar.teachingDays)).sort((a, b) => a - b);
+
+/**
+ * Checks if classes are held on a day of the week
+ */
+export const isTeachingDay = (calendar: CalendarRules, dayOfWeek: number): boolean =>
+  calendar.teachingDays.includes(dayOfWeek);
+
+/**
+ * Gets the breaks that apply on a day, both institution-wide and day-specific
+ */
+export const getBreaksForDay = (calendar: CalendarRules, dayOfWeek: number): BreakPeriod[] =>
+  calendar.breaks.filter(period => period.dayOfWeek === null || period.dayOfWeek === dayOfWeek);
+
+/**
+ * Finds the break, if any, that overlaps a time slot on a given day
+ */
+export const getBreakForSlot = (
+  calendar: CalendarRules,
+  dayOfWeek: number,
+  slot: Pick<TimeSlot, 'startTime' | 'endTime'>
+): BreakPeriod | undefined => {
+  const slotStart = toClockTime(slot.startTime);
+  const slotEnd = toClockTime(slot.endTime);
+
+  return getBreaksForDay(calendar, dayOfWeek).find(period =>
+    toClockTime(period.startTime) < slotEnd && slotStart < toClockTime(period.endTime)
+  );
+};
+
+/**
+ * Checks if a class can be placed in a slot on a given day
+ */
+export const isSlotSchedulable = (calendar: CalendarRules, dayOfWeek: number, slot: TimeSlot): boolean =>
+  isTeachingDay(calendar, dayOfWeek) && !slot.isBreak && !getBreakForSlot(calendar, dayOfWeek, slot);
+
+/**
+ * Gets the consecutive slots a class of the given length covers from its first
+ * slot. The block stops short at a break or at the end of the day, so a result
+ * shorter than the duration means the class does not fit there.
+ */
+export const getBlockSlots = (
+  calendar: CalendarRules,
+  dayOfWeek: number,
+  startSlotId: number,
+  duration: number,
+  slots: TimeSlot[]
+): number[] => {
+  const ordered = sortTimeSlots(slots);
+  const startIndex = ordered.findIndex(slot => slot.id === startSlotId);
+  if (startIndex === -1) return [];
+
+  const block: number[] = [];
+  for (const slot of ordered.slice(startIndex)) {
+    if (block.length === duration) break;
+    if (!isSlotSchedulable(calendar, dayOfWeek, slot)) break;
+    block.push(slot.id);
+  }
+
+  return block;
+};
+
+/**
+ * Gets the slots a scheduled class occupies. A class that no longer fits its
+ * position (after a calendar change, say) still occupies the slot it starts in.
+ */
+export const getCoveredSlots = (
+  schedule: Pick<Schedule, 'dayOfWeek' | 'timeSlot' | 'duration'>,
+  calendar: CalendarRules,
+  slots: TimeSlot[]
+): number[] => {
+  const block = getBlockSlots(calendar, schedule.dayOfWeek, schedule.timeSlot, schedule.duration, slots);
+  return block.length > 0 ? block : [schedule.timeSlot];
+};
+
+/**
+ * Explains why a class cannot be placed at a day and slot, or returns null if it can
+ */
+export const getSchedulingViolation = (
+  calendar: CalendarRules,
+  dayOfWeek: number,
+  timeSlotId: number,
+  slots: TimeSlot[],
+  duration = 1
+): string | null => {
+  const slot = slots.find(s => s.id === timeSlotId);
+  if (!slot) return `Time slot with ID ${timeSlotId} does not exist`;
+
+  const dayName = DAYS_OF_WEEK[dayOfWeek] || `Day ${dayOfWeek}`;
+  if (!isTeachingDay(calendar, dayOfWeek)) return `${dayName} is not a teaching day`;
+  if (slot.isBreak) return `${formatTimeSlotLabel(slot)} is a break`;
+
+  const period = getBreakForSlot(calendar, dayOfWeek, slot);
+  if (period) return `${formatTimeSlotLabel(slot)} on ${dayName} falls within ${period.label}`;
+
+  if (getBlockSlots(calendar, dayOfWeek, timeSlotId, duration, slots).length < duration) {
+    return `A ${duration}-period class starting at ${formatTimeSlotLabel(slot)} on ${dayName} runs into a break or past the last period`;
+  }
+
+  return null;
+};
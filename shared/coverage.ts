@@ -0,0 +1,55 @@
+import { Course, Schedule, Section } from "./schema";
+import { getStudentGroups, isAttendedByIntake } from "./sections";
+
+export type CoverageStatus = 'under' | 'met' | 'over';
+
+export type CourseCoverage = {
+  courseId: number;
+  courseCode: string;
+  courseName: string;
+  sectionId: number | null; // Null when the intake is not split into sections
+  required: number;
+  placed: number;
+  status: CoverageStatus;
+};
+
+/**
+ * Gets the periods a course must be taught each week: its override when set,
+ * otherwise one period per credit
+ */
+export const getRequiredWeeklyPeriods = (course: Pick<Course, 'credits' | 'weeklyPeriods'>): number =>
+  course.weeklyPeriods ?? course.credits;
+
+/**
+ * Counts the periods a section, or an intake without sections, is taught a
+ * course, so a two-period lab counts twice. Whole-intake classes count for
+ * every section.
+ */
+export const getPlacedPeriods = (course: Course, sectionId: number | null, schedules: Schedule[]): number =>
+  schedules
+    .filter(schedule => schedule.courseId === course.id)
+    .filter(schedule => isAttendedByIntake(schedule, course.programId, course.semester, sectionId))
+    .reduce((total, schedule) => total + schedule.duration, 0);
+
+/**
+ * Compares a course's required weekly periods with what is scheduled, once
+ * for each section of its intake since every section needs all of them
+ */
+export const getCourseCoverage = (course: Course, schedules: Schedule[], sections: Section[]): CourseCoverage[] => {
+  const required = getRequiredWeeklyPeriods(course);
+  const groups = getStudentGroups({ programId: course.programId, semester: course.semester, sectionId: null }, sections);
+
+  return groups.map(({ sectionId }) => {
+    const placed = getPlacedPeriods(course, sectionId, schedules);
+
+    return {
+      courseId: course.id,
+      courseCode: course.code,
+      courseName: course.name,
+      sectionId,
+      required,
+      placed,
+      status: placed < required ? 'under' : placed > required ? 'over' : 'met'
+    };
+  });
+};
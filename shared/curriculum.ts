@@ -0,0 +1,83 @@
+import { Course } from "./schema";
+
+export type RequisiteType = 'prerequisite' | 'corequisite';
+
+// A course needing another, e.g. Data Structures needing Programming I first
+export type CurriculumLink = {
+  courseId: number;
+  requisiteId: number;
+  type: RequisiteType;
+};
+
+export type CurriculumWarning = CurriculumLink & {
+  message: string;
+};
+
+type CurriculumFields = Pick<Course, 'id' | 'code' | 'semester' | 'prerequisiteIds' | 'corequisiteIds'>;
+
+/**
+ * Lists the requisite links between courses, skipping any to a course that no
+ * longer exists
+ */
+export const getCurriculumLinks = (courses: CurriculumFields[]): CurriculumLink[] => {
+  const ids = new Set(courses.map(course => course.id));
+
+  return courses.flatMap(course => [
+    ...course.prerequisiteIds
+      .filter(id => ids.has(id))
+      .map(requisiteId => ({ courseId: course.id, requisiteId, type: 'prerequisite' as const })),
+    ...course.corequisiteIds
+      .filter(id => ids.has(id))
+      .map(requisiteId => ({ courseId: course.id, requisiteId, type: 'corequisite' as const }))
+  ]);
+};
+
+/**
+ * Explains why a link does not fit the semesters its courses are in, or
+ * returns null if it does. A prerequisite must come in an earlier semester and
+ * a corequisite in the same one.
+ */
+export const getRequisiteWarning = (
+  course: CurriculumFields,
+  requisite: CurriculumFields,
+  type: RequisiteType
+): string | null => {
+  if (type === 'prerequisite' && requisite.semester >= course.semester) {
+    return `${course.code} is in semester ${course.semester}, but its prerequisite ${requisite.code} is not taught until semester ${requisite.semester}`;
+  }
+  if (type === 'corequisite' && requisite.semester !== course.semester) {
+    return `${course.code} is in semester ${course.semester}, but its corequisite ${requisite.code} is in semester ${requisite.semester}`;
+  }
+  return null;
+};
+
+/**
+ * Checks every requisite link against the semesters its courses are in
+ */
+export const getCurriculumWarnings = (courses: CurriculumFields[]): CurriculumWarning[] =>
+  getCurriculumLinks(courses).flatMap(link => {
+    const course = courses.find(c => c.id === link.courseId)!;
+    const requisite = courses.find(c => c.id === link.requisiteId)!;
+    const message = getRequisiteWarning(course, requisite, link.type);
+    return message ? [{ ...link, message }] : [];
+  });
+
+/**
+ * Checks if a course would end up requiring itself through a chain of
+ * prerequisites
+ */
+export const hasPrerequisiteCycle = (courseId: number, courses: CurriculumFields[]): boolean => {
+  const visited = new Set<number>();
+  const pending = [...(courses.find(c => c.id === courseId)?.prerequisiteIds ?? [])];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === courseId) return true;
+    if (visited.has(id)) continue;
+
+    visited.add(id);
+    pending.push(...(courses.find(c => c.id === id)?.prerequisiteIds ?? []));
+  }
+
+  return false;
+};
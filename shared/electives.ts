@@ -0,0 +1,42 @@
+import { Course } from "./schema";
+
+type ElectiveFields = Pick<Course, 'id' | 'isCore' | 'programId' | 'semester'> & Partial<Pick<Course, 'electiveGroup'>>;
+
+/**
+ * Gets a key identifying the choice group an elective belongs to (e.g.,
+ * "1-5-Elective I"), or null for core courses and stand-alone electives
+ */
+export const getElectiveGroupKey = (course: ElectiveFields): string | null =>
+  !course.isCore && course.electiveGroup
+    ? `${course.programId}-${course.semester}-${course.electiveGroup}`
+    : null;
+
+/**
+ * Checks if classes are different options of one elective group. Each student
+ * takes only one option, so the options may run in the same period.
+ */
+export const areParallelOptions = (courseIds: number[], courses: ElectiveFields[]): boolean => {
+  if (new Set(courseIds).size !== courseIds.length) return false;
+
+  const keys = courseIds.map(id => {
+    const course = courses.find(c => c.id === id);
+    return course ? getElectiveGroupKey(course) : null;
+  });
+  return keys[0] !== null && keys.every(key => key === keys[0]);
+};
+
+/**
+ * Groups courses into what is scheduled together: each elective group as one
+ * set of parallel options, and every other course on its own
+ */
+export const groupParallelCourses = <T extends ElectiveFields>(courses: T[]): T[][] => {
+  const groups = new Map<string, T[]>();
+
+  courses.forEach(course => {
+    const key = getElectiveGroupKey(course) ?? `course-${course.id}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(course);
+  });
+
+  return Array.from(groups.values());
+};
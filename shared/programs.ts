@@ -0,0 +1,13 @@
+import { Program } from "./schema";
+
+/**
+ * Checks if a program is still offered. Archived programs keep their courses
+ * and timetables but are left out of planning.
+ */
+export const isActiveProgram = (program: Pick<Program, 'archivedAt'>): boolean => !program.archivedAt;
+
+/**
+ * Lists a program's semesters in order, from 1 to its total
+ */
+export const getProgramSemesters = (program: Pick<Program, 'totalSemesters'>): number[] =>
+  Array.from({ length: program.totalSemesters }, (_, index) => index + 1);
@@ -0,0 +1,53 @@
+import { PublishedSchedule, Schedule } from "./schema";
+
+export type UnpublishedChanges = {
+  added: number[]; // Draft classes viewers do not see yet
+  changed: number[]; // Classes whose draft differs from the published copy
+  removed: number[]; // Published classes no longer in the draft
+};
+
+// The fields that place a class in the timetable
+export const TIMETABLE_FIELDS = [
+  'programId', 'semester', 'sectionId', 'dayOfWeek', 'timeSlot', 'duration',
+  'courseId', 'teacherId', 'roomId', 'roomNumber', 'sharedWith'
+] as const;
+
+type TimetableFields = Pick<Schedule, typeof TIMETABLE_FIELDS[number]>;
+
+/**
+ * Checks if two copies of a class differ in where or how it is taught.
+ * Combined intakes are lists, so fields are compared by value.
+ */
+export const hasTimetableChanges = (a: TimetableFields, b: TimetableFields): boolean =>
+  TIMETABLE_FIELDS.some(field => JSON.stringify(a[field] ?? null) !== JSON.stringify(b[field] ?? null));
+
+/**
+ * Compares a term's draft timetable with its published one, class by class.
+ * A published class keeps the id of the draft class it was copied from.
+ */
+export const getUnpublishedChanges = (draft: Schedule[], published: PublishedSchedule[]): UnpublishedChanges => {
+  const publishedById = new Map(published.map(schedule => [schedule.id, schedule]));
+  const draftIds = new Set(draft.map(schedule => schedule.id));
+  const changes: UnpublishedChanges = { added: [], changed: [], removed: [] };
+
+  draft.forEach(schedule => {
+    const copy = publishedById.get(schedule.id);
+    if (!copy) {
+      changes.added.push(schedule.id);
+    } else if (hasTimetableChanges(copy, schedule)) {
+      changes.changed.push(schedule.id);
+    }
+  });
+
+  published.forEach(schedule => {
+    if (!draftIds.has(schedule.id)) changes.removed.push(schedule.id);
+  });
+
+  return changes;
+};
+
+/**
+ * Counts the classes a publish would add, change or remove
+ */
+export const countUnpublishedChanges = (changes: UnpublishedChanges): number =>
+  changes.added.length + changes.changed.length + changes.removed.length;
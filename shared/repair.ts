@@ -0,0 +1,31 @@
+import { DetectedConflict, Schedule } from "./schema";
+
+// What an automatic repair may change about a class
+export type RepairFields = Pick<Schedule, 'dayOfWeek' | 'timeSlot' | 'teacherId' | 'roomId'>;
+
+export type RepairChange = {
+  scheduleId: number;
+  before: RepairFields; // As the class was when the repair was planned
+  after: RepairFields;
+};
+
+// A combined set of changes clearing a term's conflicts, shown for approval before it is applied
+export type RepairPlan = {
+  termId: number;
+  steps: string[]; // The suggestions taken, in the order they were chosen
+  changes: RepairChange[]; // One per class, from where it is now to where it ends up
+  resolved: DetectedConflict[];
+  remaining: DetectedConflict[];
+};
+
+export const getRepairFields = ({ dayOfWeek, timeSlot, teacherId, roomId }: RepairFields): RepairFields =>
+  ({ dayOfWeek, timeSlot, teacherId, roomId });
+
+/**
+ * Whether a class is still as it was when a repair of it was planned
+ */
+export const matchesRepairFields = (schedule: RepairFields, fields: RepairFields): boolean =>
+  schedule.dayOfWeek === fields.dayOfWeek &&
+  schedule.timeSlot === fields.timeSlot &&
+  schedule.teacherId === fields.teacherId &&
+  (schedule.roomId ?? null) === (fields.roomId ?? null);
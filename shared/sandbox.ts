@@ -0,0 +1,57 @@
+import { ConflictType, SandboxSchedule, Schedule } from "./schema";
+import { hasTimetableChanges } from "./publishing";
+
+export type SandboxChanges = {
+  added: number[]; // Sandbox classes with no live counterpart
+  changed: { sandboxScheduleId: number; scheduleId: number }[]; // Forked classes moved or reassigned
+  removed: number[]; // Live classes deleted from the sandbox
+};
+
+export type ConflictCounts = Record<ConflictType, number> & { total: number };
+
+// What merging a sandbox would do to its term's live timetable
+export type SandboxComparison = {
+  live: ConflictCounts;
+  sandbox: ConflictCounts;
+  changes: SandboxChanges;
+};
+
+/**
+ * Compares a sandbox's classes with the live classes of its term. A forked
+ * class keeps the id of the live class it was copied from.
+ */
+export const getSandboxChanges = (live: Schedule[], sandbox: SandboxSchedule[]): SandboxChanges => {
+  const liveById = new Map(live.map(schedule => [schedule.id, schedule]));
+  const forkedIds = new Set(sandbox.map(schedule => schedule.sourceScheduleId));
+  const changes: SandboxChanges = { added: [], changed: [], removed: [] };
+
+  sandbox.forEach(schedule => {
+    const source = schedule.sourceScheduleId !== null ? liveById.get(schedule.sourceScheduleId) : undefined;
+    if (!source) {
+      changes.added.push(schedule.id);
+    } else if (hasTimetableChanges(source, schedule)) {
+      changes.changed.push({ sandboxScheduleId: schedule.id, scheduleId: source.id });
+    }
+  });
+
+  live.forEach(schedule => {
+    if (!forkedIds.has(schedule.id)) changes.removed.push(schedule.id);
+  });
+
+  return changes;
+};
+
+/**
+ * Counts the changes a merge would make to the live timetable
+ */
+export const countSandboxChanges = (changes: SandboxChanges): number =>
+  changes.added.length + changes.changed.length + changes.removed.length;
+
+/**
+ * Tallies conflicts by type
+ */
+export const countConflicts = (conflicts: { type: ConflictType }[]): ConflictCounts => {
+  const counts: ConflictCounts = { teacher: 0, room: 0, group: 0, workload: 0, total: conflicts.length };
+  conflicts.forEach(conflict => counts[conflict.type]++);
+  return counts;
+};
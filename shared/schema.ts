@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, time, date, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, time, date, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,9 +9,50 @@ export const programs = pgTable("programs", {
   code: text("code").notNull().unique(),
   description: text("description"),
   totalSemesters: integer("total_semesters").notNull().default(8),
+  archivedAt: timestamp("archived_at"), // Hidden from planning while set; its timetables are kept
 });
 
-export const insertProgramSchema = createInsertSchema(programs).omit({
+export const insertProgramSchema = createInsertSchema(programs, {
+  name: z.string().trim().min(1, "Program name is required"),
+  code: z.string().trim().min(1, "Program code is required"),
+  totalSemesters: z.number().int().min(1).max(12),
+}).omit({
+  id: true,
+  archivedAt: true,
+});
+
+// Academic term schema (e.g. Fall 2026). Every timetable belongs to one term.
+export const academicTerms = pgTable("academic_terms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  isCurrent: boolean("is_current").notNull().default(false), // The term opened by default
+  publishedAt: timestamp("published_at"), // When the draft timetable was last published
+});
+
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+export const insertAcademicTermSchema = createInsertSchema(academicTerms, {
+  name: z.string().trim().min(1, "Term name is required"),
+  startDate: calendarDate,
+  endDate: calendarDate,
+}).omit({
+  id: true,
+  publishedAt: true,
+});
+
+// Section schema (a division of a large semester intake, e.g. section A)
+export const sections = pgTable("sections", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").notNull(),
+  semester: integer("semester").notNull(),
+  name: text("name").notNull(),
+});
+
+export const insertSectionSchema = createInsertSchema(sections, {
+  name: z.string().trim().min(1, "Section name is required"),
+}).omit({
   id: true,
 });
 
@@ -21,15 +62,24 @@ export const courses = pgTable("courses", {
   name: text("name").notNull(),
   code: text("code").notNull().unique(),
   credits: integer("credits").notNull(),
+  weeklyPeriods: integer("weekly_periods"), // Overrides the periods derived from credits
   description: text("description"),
   color: text("color").notNull(),
   isCore: boolean("is_core").notNull().default(true),
+  electiveGroup: text("elective_group"), // Choice group of an elective, e.g. "Elective I"; its options run in parallel
   programId: integer("program_id").notNull(),
   semester: integer("semester").notNull(),
   teacherId: integer("teacher_id"),
+  prerequisiteIds: integer("prerequisite_ids").array().notNull().default([]), // Courses to complete first
+  corequisiteIds: integer("corequisite_ids").array().notNull().default([]), // Courses taken alongside it
 });
 
-export const insertCourseSchema = createInsertSchema(courses).omit({
+export const insertCourseSchema = createInsertSchema(courses, {
+  weeklyPeriods: z.number().int().min(1).nullable().optional(),
+  electiveGroup: z.string().trim().min(1).nullable().optional(),
+  prerequisiteIds: z.array(z.number().int()).optional(),
+  corequisiteIds: z.array(z.number().int()).optional(),
+}).omit({
   id: true,
 });
 
@@ -40,68 +90,317 @@ export const teachers = pgTable("teachers", {
   specialization: text("specialization"),
   skills: text("skills").array(),
   timePreferences: jsonb("time_preferences").$type<TimePreference[]>(),
+  maxPeriodsPerDay: integer("max_periods_per_day"), // No limit when null
+  maxPeriodsPerWeek: integer("max_periods_per_week"), // No limit when null
+  maxConsecutivePeriods: integer("max_consecutive_periods"), // No limit when null
+});
+
+const workloadLimit = z.number().int().min(1).nullable().optional();
+
+export const insertTeacherSchema = createInsertSchema(teachers, {
+  maxPeriodsPerDay: workloadLimit,
+  maxPeriodsPerWeek: workloadLimit,
+  maxConsecutivePeriods: workloadLimit,
+}).omit({
+  id: true,
+});
+
+// Time slot schema (the bell schedule)
+export const timeSlots = pgTable("time_slots", {
+  id: serial("id").primaryKey(),
+  startTime: time("start_time").notNull(),
+  endTime: time("end_time").notNull(),
+  period: integer("period"), // Teaching period number, null for breaks
+  isBreak: boolean("is_break").notNull().default(false),
 });
 
-export const insertTeacherSchema = createInsertSchema(teachers).omit({
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, "Expected a time as HH:MM");
+
+export const insertTimeSlotSchema = createInsertSchema(timeSlots, {
+  startTime: clockTime,
+  endTime: clockTime,
+}).omit({
   id: true,
 });
 
+// Institution calendar schema (a single row of settings)
+export const institutionCalendar = pgTable("institution_calendar", {
+  id: serial("id").primaryKey(),
+  teachingDays: integer("teaching_days").array().notNull(), // Indexes into DAYS_OF_WEEK
+  breaks: jsonb("breaks").$type<BreakPeriod[]>().notNull().default([]),
+});
+
+export const breakPeriodSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6).nullable(),
+  startTime: clockTime,
+  endTime: clockTime,
+  label: z.string().min(1),
+});
+
+export const insertInstitutionCalendarSchema = createInsertSchema(institutionCalendar, {
+  teachingDays: z.array(z.number().int().min(0).max(6)).min(1, "At least one teaching day is required"),
+  breaks: z.array(breakPeriodSchema),
+}).omit({
+  id: true,
+});
+
+// Room schema
+export const rooms = pgTable("rooms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  building: text("building"),
+  capacity: integer("capacity"),
+  type: text("type").$type<RoomType>().notNull().default("lecture"),
+});
+
+export const insertRoomSchema = createInsertSchema(rooms, {
+  type: z.enum(['lecture', 'lab', 'seminar']),
+}).omit({
+  id: true,
+});
+
+// Another program semester taking a class together with the class's own
+// intake, e.g. BIT sitting in on BCA's Discrete Mathematics lecture
+export type SharedCohort = {
+  programId: number;
+  semester: number;
+};
+
+const sharedCohortsSchema = z.array(z.object({
+  programId: z.number().int(),
+  semester: z.number().int().min(1),
+}));
+
 // Class schedule schema
 export const schedules = pgTable("schedules", {
   id: serial("id").primaryKey(),
+  termId: integer("term_id").notNull(),
   programId: integer("program_id").notNull(),
   semester: integer("semester").notNull(),
-  dayOfWeek: integer("day_of_week").notNull(), // 0 = Monday, 1 = Tuesday, etc.
-  timeSlot: integer("time_slot").notNull(), // 0 = 6:30-7:20, 1 = 7:20-8:10, etc.
+  sectionId: integer("section_id"), // Null when the whole semester intake attends
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday, 1 = Monday, etc.
+  timeSlot: integer("time_slot").notNull(), // References time_slots.id, the first period
+  duration: integer("duration").notNull().default(1), // Consecutive periods, e.g. 2 or 3 for labs
   courseId: integer("course_id").notNull(),
   teacherId: integer("teacher_id").notNull(),
-  roomNumber: text("room_number"),
+  roomId: integer("room_id"),
+  roomNumber: text("room_number"), // Legacy free-text room, superseded by roomId
+  sharedWith: jsonb("shared_with").$type<SharedCohort[]>().notNull().default([]), // Whole intakes combined into the class
 });
 
-export const insertScheduleSchema = createInsertSchema(schedules).omit({
+export const insertScheduleSchema = createInsertSchema(schedules, {
+  duration: z.number().int().min(1, "A class lasts at least one period"),
+  sharedWith: sharedCohortsSchema.optional(),
+}).omit({
   id: true,
 });
 
+// Published timetable schema: the copy of a term's draft schedules that
+// viewers and exports see, replaced as a whole each time the term is published
+export const publishedSchedules = pgTable("published_schedules", {
+  id: integer("id").primaryKey(), // The draft schedule it was published from
+  termId: integer("term_id").notNull(),
+  programId: integer("program_id").notNull(),
+  semester: integer("semester").notNull(),
+  sectionId: integer("section_id"),
+  dayOfWeek: integer("day_of_week").notNull(),
+  timeSlot: integer("time_slot").notNull(),
+  duration: integer("duration").notNull().default(1),
+  courseId: integer("course_id").notNull(),
+  teacherId: integer("teacher_id").notNull(),
+  roomId: integer("room_id"),
+  roomNumber: text("room_number"),
+  sharedWith: jsonb("shared_with").$type<SharedCohort[]>().notNull().default([]),
+});
+
 // Conflict schema
 export const conflicts = pgTable("conflicts", {
   id: serial("id").primaryKey(),
-  teacherId: integer("teacher_id").notNull(),
+  termId: integer("term_id").notNull(),
+  type: text("type").$type<ConflictType>().notNull().default("teacher"),
+  teacherId: integer("teacher_id"), // Set for teacher and workload conflicts
+  roomId: integer("room_id"), // Set for room conflicts
+  programId: integer("program_id"), // Set for student group conflicts
+  semester: integer("semester"), // Set for student group conflicts
+  sectionId: integer("section_id"), // Set for student group conflicts within one section
+  workloadLimit: text("workload_limit").$type<WorkloadLimit>(), // Set for workload conflicts
   dayOfWeek: integer("day_of_week").notNull(),
   timeSlot: integer("time_slot").notNull(),
   conflictingScheduleIds: integer("conflicting_schedule_ids").array(),
   resolved: boolean("resolved").notNull().default(false),
   suggestions: jsonb("suggestions").$type<ConflictSuggestion[]>(),
+  // A waiver accepts the clash as intended, such as a combined lecture, until it expires
+  waiverReason: text("waiver_reason"),
+  waivedBy: text("waived_by"),
+  waivedAt: timestamp("waived_at"),
+  waiverExpiresAt: timestamp("waiver_expires_at"),
 });
 
-export const insertConflictSchema = createInsertSchema(conflicts).omit({
+export const insertConflictSchema = createInsertSchema(conflicts, {
+  type: z.enum(['teacher', 'room', 'group', 'workload']),
+  workloadLimit: z.enum(['daily', 'weekly', 'consecutive']).nullable().optional(),
+}).omit({
+  id: true,
+});
+
+// Audit log schema: an append-only record of every change to classes, courses and teachers
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  source: text("source").$type<AuditSource>().notNull().default("manual"),
+  actor: text("actor").notNull(), // Who made the change, as reported by the client
+  changeSetId: integer("change_set_id"), // The undoable unit of work it belongs to, if any
+  before: jsonb("before").$type<Record<string, unknown>>(), // Null for creations
+  after: jsonb("after").$type<Record<string, unknown>>(), // Null for deletions
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents, {
+  entityType: z.enum(['schedule', 'course', 'teacher']),
+  action: z.enum(['create', 'update', 'delete']),
+  source: z.enum(['manual', 'conflict_resolution', 'import', 'rollover', 'undo', 'redo', 'sandbox_merge']),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Change set schema: one undoable unit of timetable work, such as the two moves
+// of a swap. Each actor undoes and redoes their own change sets, newest first.
+export const changeSets = pgTable("change_sets", {
+  id: serial("id").primaryKey(),
+  actor: text("actor").notNull(),
+  description: text("description").notNull(),
+  status: text("status").$type<ChangeSetStatus>().notNull().default("applied"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertChangeSetSchema = createInsertSchema(changeSets, {
+  status: z.enum(['applied', 'undone', 'discarded']),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Sandbox schema: a named, private copy of a term's timetable for trying out
+// changes. Its classes live apart from the schedules table until it is merged.
+export const sandboxes = pgTable("sandboxes", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  termId: integer("term_id").notNull(), // The term whose timetable it forks
+  status: text("status").$type<SandboxStatus>().notNull().default("open"),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSandboxSchema = createInsertSchema(sandboxes, {
+  name: z.string().trim().min(1, "A sandbox needs a name"),
+  status: z.enum(['open', 'merged', 'discarded']),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const sandboxSchedules = pgTable("sandbox_schedules", {
+  id: serial("id").primaryKey(),
+  sandboxId: integer("sandbox_id").notNull(),
+  sourceScheduleId: integer("source_schedule_id"), // The live class it was forked from, null for new classes
+  termId: integer("term_id").notNull(),
+  programId: integer("program_id").notNull(),
+  semester: integer("semester").notNull(),
+  sectionId: integer("section_id"),
+  dayOfWeek: integer("day_of_week").notNull(),
+  timeSlot: integer("time_slot").notNull(),
+  duration: integer("duration").notNull().default(1),
+  courseId: integer("course_id").notNull(),
+  teacherId: integer("teacher_id").notNull(),
+  roomId: integer("room_id"),
+  roomNumber: text("room_number"),
+  sharedWith: jsonb("shared_with").$type<SharedCohort[]>().notNull().default([]),
+});
+
+export const insertSandboxScheduleSchema = createInsertSchema(sandboxSchedules, {
+  duration: z.number().int().min(1, "A class lasts at least one period"),
+  sharedWith: sharedCohortsSchema.optional(),
+}).omit({
   id: true,
 });
 
 // Define custom types for our application
 export type TimePreference = {
-  dayOfWeek: number; // 0 = Monday, 1 = Tuesday, etc.
-  startTimeSlot: number; // 0 = 6:30-7:20, 1 = 7:20-8:10, etc.
-  endTimeSlot: number;
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  startTimeSlot: number; // References time_slots.id
+  endTimeSlot: number; // References time_slots.id, inclusive
+};
+
+export type BreakPeriod = {
+  dayOfWeek: number | null; // null = every teaching day
+  startTime: string;
+  endTime: string;
+  label: string;
+};
+
+export type RoomType = 'lecture' | 'lab' | 'seminar';
+
+export type ConflictType = 'teacher' | 'room' | 'group' | 'workload';
+
+export type WorkloadLimit = 'daily' | 'weekly' | 'consecutive';
+
+export type AuditEntityType = 'schedule' | 'course' | 'teacher';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// How a change was made: by hand, by applying a conflict suggestion, by a bulk
+// import such as an applied generated timetable, by rolling over a term, by
+// undoing or redoing an earlier change, or by merging a sandbox
+export type AuditSource = 'manual' | 'conflict_resolution' | 'import' | 'rollover' | 'undo' | 'redo' | 'sandbox_merge';
+
+// An undone change set can be redone until its actor starts new work, which discards it
+export type ChangeSetStatus = 'applied' | 'undone' | 'discarded';
+
+// Only open sandboxes can be edited; merging or discarding one closes it for good
+export type SandboxStatus = 'open' | 'merged' | 'discarded';
+
+// What a suggestion's score is made of
+export type SuggestionFactor = 'preference' | 'workload' | 'studentGaps' | 'newConflicts';
+
+export type SuggestionReason = {
+  factor: SuggestionFactor;
+  points: number; // Added to the score; negative when the suggestion makes things worse
+  detail: string;
+};
+
+// One move of a chain suggestion
+export type SuggestionStep = {
+  scheduleId: number;
+  newDayOfWeek: number;
+  newTimeSlot: number;
 };
 
 export type ConflictSuggestion = {
   id: string;
   description: string;
-  action: 'move' | 'swap' | 'reassign';
+  action: 'move' | 'swap' | 'reassign' | 'reassignRoom' | 'chain';
   scheduleId: number;
   newDayOfWeek?: number;
   newTimeSlot?: number;
   newTeacherId?: number;
+  newRoomId?: number;
   swapWithScheduleId?: number;
+  steps?: SuggestionStep[]; // Moves made in order, for chains
+  score: number; // Higher is better; suggestions are offered best first
+  reasons: SuggestionReason[];
 };
 
-// Time slots constants
-export const TIME_SLOTS = [
-  { id: 0, label: '6:30 AM - 7:20 AM', period: 1 },
-  { id: 1, label: '7:20 AM - 8:10 AM', period: 2 },
-  { id: 2, label: '8:10 AM - 9:00 AM', period: 3 },
-  { id: 3, label: '9:20 AM - 10:10 AM', period: 4 },
-  { id: 4, label: '10:10 AM - 11:00 AM', period: 5 },
+// Default bell schedule, used to seed the time_slots table
+export const DEFAULT_TIME_SLOTS = [
+  { id: 0, startTime: '06:30', endTime: '07:20', period: 1, isBreak: false },
+  { id: 1, startTime: '07:20', endTime: '08:10', period: 2, isBreak: false },
+  { id: 2, startTime: '08:10', endTime: '09:00', period: 3, isBreak: false },
+  { id: 5, startTime: '09:00', endTime: '09:20', period: null, isBreak: true },
+  { id: 3, startTime: '09:20', endTime: '10:10', period: 4, isBreak: false },
+  { id: 4, startTime: '10:10', endTime: '11:00', period: 5, isBreak: false },
 ];
 
 export const DAYS_OF_WEEK = [
@@ -111,23 +410,67 @@ export const DAYS_OF_WEEK = [
   'Wednesday',
   'Thursday',
   'Friday',
+  'Saturday',
+];
+
+// Default institution calendar: Sunday to Friday, no breaks beyond the bell schedule
+export const DEFAULT_CALENDAR = {
+  teachingDays: [0, 1, 2, 3, 4, 5],
+  breaks: [] as BreakPeriod[],
+};
+
+export const ROOM_TYPES: { value: RoomType; label: string }[] = [
+  { value: 'lecture', label: 'Lecture Hall' },
+  { value: 'lab', label: 'Laboratory' },
+  { value: 'seminar', label: 'Seminar Room' },
 ];
 
 // Infer types
 export type Program = typeof programs.$inferSelect;
 export type InsertProgram = z.infer<typeof insertProgramSchema>;
 
+export type AcademicTerm = typeof academicTerms.$inferSelect;
+export type InsertAcademicTerm = z.infer<typeof insertAcademicTermSchema>;
+
+export type Section = typeof sections.$inferSelect;
+export type InsertSection = z.infer<typeof insertSectionSchema>;
+
 export type Course = typeof courses.$inferSelect;
 export type InsertCourse = z.infer<typeof insertCourseSchema>;
 
 export type Teacher = typeof teachers.$inferSelect;
 export type InsertTeacher = z.infer<typeof insertTeacherSchema>;
 
+export type TimeSlot = typeof timeSlots.$inferSelect;
+export type InsertTimeSlot = z.infer<typeof insertTimeSlotSchema>;
+
+export type InstitutionCalendar = typeof institutionCalendar.$inferSelect;
+export type InsertInstitutionCalendar = z.infer<typeof insertInstitutionCalendarSchema>;
+
+export type Room = typeof rooms.$inferSelect;
+export type InsertRoom = z.infer<typeof insertRoomSchema>;
+
 export type Schedule = typeof schedules.$inferSelect;
 export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
 
+export type PublishedSchedule = typeof publishedSchedules.$inferSelect;
+
 export type Conflict = typeof conflicts.$inferSelect;
 export type InsertConflict = z.infer<typeof insertConflictSchema>;
+// A conflict as found, before it is stored against a term
+export type DetectedConflict = Omit<InsertConflict, 'termId'>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+
+export type ChangeSet = typeof changeSets.$inferSelect;
+export type InsertChangeSet = z.infer<typeof insertChangeSetSchema>;
+
+export type Sandbox = typeof sandboxes.$inferSelect;
+export type InsertSandbox = z.infer<typeof insertSandboxSchema>;
+
+export type SandboxSchedule = typeof sandboxSchedules.$inferSelect;
+export type InsertSandboxSchedule = z.infer<typeof insertSandboxScheduleSchema>;
 
 // Default programs
 export const DEFAULT_PROGRAMS = [
@@ -0,0 +1,71 @@
+import { Schedule, Section, SharedCohort } from "./schema";
+
+export type StudentGroup = {
+  programId: number;
+  semester: number;
+  sectionId: number | null; // Null when the intake is not split into sections
+};
+
+/**
+ * Checks if a section attends a class. Classes without a section are for the
+ * whole semester intake, so every section attends them.
+ */
+export const isAttendedBySection = (schedule: Pick<Schedule, 'sectionId'>, sectionId: number): boolean =>
+  schedule.sectionId === null || schedule.sectionId === sectionId;
+
+type ClassIntakes = Pick<Schedule, 'programId' | 'semester' | 'sectionId'> & Partial<Pick<Schedule, 'sharedWith'>>;
+
+// Every section of an intake, or the intake itself when it is not split into sections
+const getIntakeGroups = (programId: number, semester: number, sections: Section[]): StudentGroup[] => {
+  const intakeSections = sections.filter(
+    section => section.programId === programId && section.semester === semester
+  );
+  if (intakeSections.length === 0) return [{ programId, semester, sectionId: null }];
+
+  return intakeSections.map(section => ({ programId, semester, sectionId: section.id }));
+};
+
+/**
+ * Gets the program semesters taking a class: its own, then any combined into it
+ */
+export const getIntakes = (schedule: ClassIntakes): SharedCohort[] =>
+  [{ programId: schedule.programId, semester: schedule.semester }, ...(schedule.sharedWith ?? [])];
+
+/**
+ * Gets the student groups sitting in a class: its own section, or every
+ * section of the intake for a whole-intake class, and every section of the
+ * intakes combined into it
+ */
+export const getStudentGroups = (schedule: ClassIntakes, sections: Section[]): StudentGroup[] => {
+  const { programId, semester, sectionId } = schedule;
+  const own = sectionId !== null
+    ? [{ programId, semester, sectionId }]
+    : getIntakeGroups(programId, semester, sections);
+
+  return [
+    ...own,
+    ...(schedule.sharedWith ?? []).flatMap(cohort => getIntakeGroups(cohort.programId, cohort.semester, sections))
+  ];
+};
+
+/**
+ * Checks if a program semester, or one section of it, takes a class. Intakes
+ * combined into a class take it whole.
+ */
+export const isAttendedByIntake = (
+  schedule: ClassIntakes,
+  programId: number,
+  semester: number,
+  sectionId: number | null = null
+): boolean => {
+  if (schedule.programId === programId && schedule.semester === semester) {
+    return sectionId === null || isAttendedBySection(schedule, sectionId);
+  }
+  return (schedule.sharedWith ?? []).some(cohort => cohort.programId === programId && cohort.semester === semester);
+};
+
+/**
+ * Gets a key identifying a student group (e.g., "1-3-2")
+ */
+export const getStudentGroupKey = (group: StudentGroup): string =>
+  `${group.programId}-${group.semester}-${group.sectionId ?? 'all'}`;
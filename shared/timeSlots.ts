@@ -0,0 +1,59 @@
+import { TimeSlot, TimePreference } from "./schema";
+
+/**
+ * Normalises a database time ("06:30:00") to HH:MM so times compare as strings
+ */
+export const toClockTime = (value: string): string => value.slice(0, 5);
+
+/**
+ * Formats a database time as a 12-hour clock time (e.g., "6:30 AM")
+ */
+export const formatClockTime = (value: string): string => {
+  const [hours, minutes] = toClockTime(value).split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+
+  return `${displayHours}:${minutes.toString().padStart(2, '0')} ${suffix}`;
+};
+
+/**
+ * Formats a time slot as a range (e.g., "6:30 AM - 7:20 AM")
+ */
+export const formatTimeSlotLabel = (slot: Pick<TimeSlot, 'startTime' | 'endTime'>): string =>
+  `${formatClockTime(slot.startTime)} - ${formatClockTime(slot.endTime)}`;
+
+/**
+ * Orders time slots, breaks included, by the time they start
+ */
+export const sortTimeSlots = (slots: TimeSlot[]): TimeSlot[] =>
+  [...slots].sort((a, b) => toClockTime(a.startTime).localeCompare(toClockTime(b.startTime)));
+
+/**
+ * Gets the slots classes can be scheduled into, in chronological order
+ */
+export const getTeachingSlots = (slots: TimeSlot[]): TimeSlot[] =>
+  sortTimeSlots(slots).filter(slot => !slot.isBreak);
+
+/**
+ * Checks if a slot falls within any of a teacher's preferred ranges. Ranges are
+ * compared by time rather than by id, so slots added later still fall in the
+ * right place.
+ */
+export const isWithinTimePreferences = (
+  preferences: TimePreference[] | null | undefined,
+  dayOfWeek: number,
+  timeSlotId: number,
+  slots: TimeSlot[]
+): boolean => {
+  const slot = slots.find(s => s.id === timeSlotId);
+  if (!slot || !preferences?.length) return false;
+
+  return preferences.some(pref => {
+    const start = slots.find(s => s.id === pref.startTimeSlot);
+    const end = slots.find(s => s.id === pref.endTimeSlot);
+    if (pref.dayOfWeek !== dayOfWeek || !start || !end) return false;
+
+    const slotStart = toClockTime(slot.startTime);
+    return slotStart >= toClockTime(start.startTime) && slotStart <= toClockTime(end.startTime);
+  });
+};
@@ -0,0 +1,24 @@
+import { Conflict } from "./schema";
+
+type WaiverFields = Pick<Conflict, 'waiverReason' | 'waiverExpiresAt'>;
+
+// Clears a conflict's waiver
+export const NO_WAIVER = {
+  waiverReason: null,
+  waivedBy: null,
+  waivedAt: null,
+  waiverExpiresAt: null
+};
+
+/**
+ * Checks if a conflict has been waived and the waiver has not expired yet.
+ * Dates arrive as strings over the API, so the expiry is parsed either way.
+ */
+export const isWaived = (conflict: Partial<WaiverFields>, now: Date = new Date()): boolean =>
+  !!conflict.waiverReason && !!conflict.waiverExpiresAt && new Date(conflict.waiverExpiresAt) > now;
+
+/**
+ * Checks if a conflict still needs attention: open and not waived
+ */
+export const isOutstanding = (conflict: Pick<Conflict, 'resolved'> & Partial<WaiverFields>, now: Date = new Date()): boolean =>
+  !conflict.resolved && !isWaived(conflict, now);
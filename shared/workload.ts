@@ -0,0 +1,164 @@
+import { InstitutionCalendar, Schedule, Teacher, TimeSlot, WorkloadLimit } from "./schema";
+import { getCoveredSlots } from "./calendar";
+import { sortTimeSlots } from "./timeSlots";
+
+type CalendarRules = Pick<InstitutionCalendar, 'teachingDays' | 'breaks'>;
+
+type TeacherLimits = Pick<Teacher, 'id' | 'maxPeriodsPerDay' | 'maxPeriodsPerWeek' | 'maxConsecutivePeriods'>;
+
+export type WorkloadViolation = {
+  limit: WorkloadLimit;
+  dayOfWeek: number; // Day of the class that crosses the limit
+  timeSlot: number; // First period of the class that crosses the limit
+  periods: number;
+  max: number;
+  scheduleIds: number[];
+};
+
+export type TeacherWorkload = {
+  teacherId: number;
+  weeklyPeriods: number;
+  dailyPeriods: Record<number, number>;
+  longestConsecutive: number;
+  violations: WorkloadViolation[];
+};
+
+type TaughtPeriod = {
+  schedule: Schedule;
+  dayOfWeek: number;
+  position: number; // Position in the bell schedule, breaks included
+};
+
+const uniqueIds = (periods: TaughtPeriod[]): number[] =>
+  Array.from(new Set(periods.map(period => period.schedule.id)));
+
+const crossingAt = (limit: WorkloadLimit, periods: TaughtPeriod[], max: number): WorkloadViolation => ({
+  limit,
+  dayOfWeek: periods[max].schedule.dayOfWeek,
+  timeSlot: periods[max].schedule.timeSlot,
+  periods: periods.length,
+  max,
+  scheduleIds: uniqueIds(periods)
+});
+
+/**
+ * Summarises a teacher's weekly load and checks it against their limits. A
+ * multi-period class counts once per period, and periods either side of a
+ * break are not consecutive.
+ */
+export const getTeacherWorkload = (
+  teacher: TeacherLimits,
+  schedules: Schedule[],
+  calendar: CalendarRules,
+  slots: TimeSlot[]
+): TeacherWorkload => {
+  const positions = new Map(sortTimeSlots(slots).map((slot, index) => [slot.id, index]));
+
+  const taught: TaughtPeriod[] = schedules
+    .filter(schedule => schedule.teacherId === teacher.id)
+    .flatMap(schedule => getCoveredSlots(schedule, calendar, slots).map(slotId => ({
+      schedule,
+      dayOfWeek: schedule.dayOfWeek,
+      position: positions.get(slotId) ?? -1
+    })))
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.position - b.position);
+
+  const violations: WorkloadViolation[] = [];
+  const dailyPeriods: Record<number, number> = {};
+  let longestConsecutive = 0;
+
+  const days = Array.from(new Set(taught.map(period => period.dayOfWeek)));
+
+  for (const day of days) {
+    const dayPeriods = taught.filter(period => period.dayOfWeek === day);
+    dailyPeriods[day] = dayPeriods.length;
+
+    if (teacher.maxPeriodsPerDay && dayPeriods.length > teacher.maxPeriodsPerDay) {
+      violations.push(crossingAt('daily', dayPeriods, teacher.maxPeriodsPerDay));
+    }
+
+    // Split the day into runs of back-to-back periods
+    const runs: TaughtPeriod[][] = [];
+    dayPeriods.forEach((period, index) => {
+      const previous = dayPeriods[index - 1];
+      if (previous && period.position === previous.position + 1) {
+        runs[runs.length - 1].push(period);
+      } else {
+        runs.push([period]);
+      }
+    });
+
+    for (const run of runs) {
+      longestConsecutive = Math.max(longestConsecutive, run.length);
+
+      if (teacher.maxConsecutivePeriods && run.length > teacher.maxConsecutivePeriods) {
+        violations.push(crossingAt('consecutive', run, teacher.maxConsecutivePeriods));
+      }
+    }
+  }
+
+  if (teacher.maxPeriodsPerWeek && taught.length > teacher.maxPeriodsPerWeek) {
+    violations.push(crossingAt('weekly', taught, teacher.maxPeriodsPerWeek));
+  }
+
+  return {
+    teacherId: teacher.id,
+    weeklyPeriods: taught.length,
+    dailyPeriods,
+    longestConsecutive,
+    violations
+  };
+};
+
+/**
+ * Checks if giving a teacher a class (new, moved or reassigned) would take
+ * them over one of their limits, or further over a limit they already break.
+ * A teacher who is already over their weekly limit can still have a class
+ * moved within the week.
+ */
+export const wouldExceedWorkload = (
+  teacher: TeacherLimits,
+  schedules: Schedule[],
+  change: Schedule,
+  calendar: CalendarRules,
+  slots: TimeSlot[]
+): boolean => {
+  const updated = [
+    ...schedules.filter(schedule => schedule.id !== change.id),
+    { ...change, teacherId: teacher.id }
+  ];
+
+  const before = getTeacherWorkload(teacher, schedules, calendar, slots).violations;
+  const after = getTeacherWorkload(teacher, updated, calendar, slots).violations;
+
+  return after
+    .filter(violation => violation.scheduleIds.includes(change.id))
+    .some(violation => !before.some(existing =>
+      existing.limit === violation.limit &&
+      (violation.limit === 'weekly' || existing.dayOfWeek === violation.dayOfWeek) &&
+      existing.periods >= violation.periods &&
+      violation.scheduleIds.every(id => id === change.id || existing.scheduleIds.includes(id))
+    ));
+};
+
+/**
+ * Describes a workload limit (e.g., "periods per day")
+ */
+export const getWorkloadLimitLabel = (limit: WorkloadLimit): string => {
+  switch (limit) {
+    case 'daily': return 'periods per day';
+    case 'weekly': return 'periods per week';
+    default: return 'consecutive periods';
+  }
+};
+
+/**
+ * Gets the teacher's maximum for a workload limit, null when they have none
+ */
+export const getWorkloadLimitMax = (teacher: TeacherLimits, limit: WorkloadLimit): number | null => {
+  switch (limit) {
+    case 'daily': return teacher.maxPeriodsPerDay;
+    case 'weekly': return teacher.maxPeriodsPerWeek;
+    default: return teacher.maxConsecutivePeriods;
+  }
+};